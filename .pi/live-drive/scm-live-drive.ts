@@ -1,7 +1,8 @@
+import { existsSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { SelfContextManager } from "../../src/index.ts";
+import { SelfContextManager, SqliteStorage } from "../../src/index.ts";
 
 type AnyMessage = {
   role?: string;
@@ -123,7 +124,9 @@ async function ensureManager(ctx: any): Promise<SelfContextManager> {
  * - relies on the runtime's default shared SQLite store for the workspace
  * - observes a small wired tool subset (`read`, `write`, `edit`, `ls`, `find`,
  *   `grep`, `bash`)
- * - exposes only `/scm-status`, `/scm-read`, and `/scm-dump`
+ * - exposes only `/scm-status`, `/scm-read`, `/scm-dump`, and `/scm-verify`
+ *   (runs `SqliteStorage.verifyIntegrity()` against the workspace store or a
+ *   given DB file and prints one JSON line per discrepancy)
  *
  * Important current limitation:
  * - this wrapper does not yet expose a full model-facing context-editing
@@ -265,4 +268,34 @@ export default function (pi: ExtensionAPI) {
       console.log(line);
     },
   });
+  pi.registerCommand("scm-verify", {
+    description: "Recompute SCM store hashes and report discrepancies: /scm-verify [db-path]",
+    handler: async (args, ctx) => {
+      const dbPath = String(args ?? "").trim() || resolve(ctx.cwd, ".pi", "self-context-manager.sqlite");
+      if (!existsSync(dbPath)) {
+        const msg = `scm_verify missing db=${dbPath}`;
+        if (ctx.hasUI) ctx.ui.notify(msg, "warning");
+        console.log(msg);
+        return;
+      }
+
+      const storage = new SqliteStorage({ path: dbPath });
+      try {
+        const report = await storage.verifyIntegrity();
+        const line = [
+          `scm_verify ok=${report.ok}`,
+          `objects=${report.checkedObjects}`,
+          `versions=${report.checkedVersions}`,
+          `issues=${report.issues.length}`,
+          `db=${dbPath}`,
+        ].join(" ");
+
+        if (ctx.hasUI) ctx.ui.notify(line, report.ok ? "info" : "error");
+        console.log(line);
+        for (const issue of report.issues) console.log(JSON.stringify(issue));
+      } finally {
+        storage.close();
+      }
+    },
+  });
 }
@@ -12,7 +12,20 @@ const sourcePaths = [
   'src/context-manager.ts',
   'src/storage/storage-port.ts',
   'src/storage/sqlite-schema.ts',
+  'src/storage/sqlite-migrations.ts',
   'src/storage/sqlite-storage.ts',
+  'src/storage/memory-storage.ts',
+  'src/storage/version-write.ts',
+  'src/storage/content-schema.ts',
+  'src/storage/version-codec.ts',
+  'src/storage/store-bundle.ts',
+  'src/storage/text-delta.ts',
+  'src/storage/version-diff.ts',
+  'src/storage/session-catalogue.ts',
+  'src/storage/storage-rpc.ts',
+  'src/storage/storage-server.ts',
+  'src/storage/storage-daemon.ts',
+  'src/storage/remote-storage.ts',
   'src/phase3-extension.ts',
   '.pi/live-drive/scm-live-drive.ts',
 ];
@@ -5,7 +5,7 @@ import { createHash } from 'node:crypto';
  *
  * These helpers support the older in-memory object model exported from the
  * package root. They are distinct from the active SQLite object/reference hash
- * machinery implemented in `src/storage/sqlite-storage.ts`.
+ * machinery implemented in `src/storage/version-codec.ts`.
  */
 import type { MemoryObject } from './types.js';
 
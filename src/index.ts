@@ -3,8 +3,96 @@ export * from './hashing.js';
 export * from './context-manager.js';
 export * from './phase3-extension.js';
 export { SqliteStorage } from './storage/sqlite-storage.js';
+export { MemoryStorage } from './storage/memory-storage.js';
+export type { MemoryStorageOptions } from './storage/memory-storage.js';
+export { RemoteStorage } from './storage/remote-storage.js';
+export type { RemoteStorageOptions } from './storage/remote-storage.js';
+export { StorageServer, startStorageDaemon, parseStorageDaemonArgs } from './storage/storage-server.js';
+export type { StorageDaemon, StorageDaemonOptions, StorageServerAddress } from './storage/storage-server.js';
+export { STORAGE_RPC_METHODS } from './storage/storage-rpc.js';
+export type { StorageRpcMethod, StorageRpcRequest, StorageRpcResponse } from './storage/storage-rpc.js';
+export type {
+  ContentSearchHit,
+  ContentSearchOptions,
+  DeltaEncodingOptions,
+  GcPolicy,
+  GcReport,
+  IntegrityIssue,
+  IntegrityReport,
+  SqliteJournalMode,
+  SqliteRetryOptions,
+  SqliteStorageOptions,
+} from './storage/sqlite-storage.js';
+export {
+  parseStoreBundle,
+  verifyStoreBundle,
+  STORE_BUNDLE_FORMAT,
+  STORE_BUNDLE_FORMAT_VERSION,
+} from './storage/store-bundle.js';
+export type {
+  BundleVerificationIssue,
+  StoreBundleFilter,
+  StoreBundleImportResult,
+} from './storage/store-bundle.js';
+export {
+  computeFieldHashes,
+  DEFAULT_HASH_SCHEMA,
+  FIELD_HASH_PREFIX,
+  HASH_SCHEMA_VERSIONS,
+  REF_FIELDS,
+  SHA256_HASHER,
+} from './storage/version-codec.js';
+export type {
+  HashingOptions,
+  HashSchema,
+  HashSchemaVersion,
+  RefFieldSpec,
+  VersionHasher,
+  VersionHashIssue,
+} from './storage/version-codec.js';
+export { CONTENT_SCHEMAS, validateContentStruct } from './storage/content-schema.js';
+export type {
+  ContentFieldSchema,
+  ContentFieldType,
+  ContentSchema,
+  ContentStructError,
+} from './storage/content-schema.js';
+export { SQLITE_SCHEMA_VERSION } from './storage/sqlite-migrations.js';
+export { MAX_TRAVERSAL_DEPTH } from './storage/storage-port.js';
+export { VERSION_DIFF_MAX_LINE_EDITS } from './storage/version-diff.js';
+export type {
+  EnvelopeChange,
+  JsonPointerChange,
+  SessionSetDiff,
+  SessionSetMember,
+  SessionSetName,
+  VersionDiff,
+} from './storage/version-diff.js';
+export type { LineDiffHunk } from './storage/text-delta.js';
+export type {
+  ListSessionsParams,
+  PinnedAnchor,
+  PinnedDifference,
+  SessionComparison,
+  SessionListPage,
+  SessionMembership,
+  SessionSummary,
+  SharedSessionMembership,
+} from './storage/session-catalogue.js';
+export type { SqliteMigrationReport } from './storage/sqlite-migrations.js';
 export type {
   StoragePort,
+  ChangeFeedEntry,
+  ChangeFeedPage,
+  ChangeFeedParams,
+  ChangeListener,
+  ListObjectsParams,
+  ObjectHeadSummary,
+  ObjectListPage,
+  ReferenceGraph,
+  ReferenceGraphEdge,
+  ReferenceGraphNode,
+  TraverseReferencesParams,
   VersionWriteInput,
   VersionRecord,
   ReferenceRecord,
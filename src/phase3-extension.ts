@@ -6,7 +6,8 @@ import { basename, dirname, extname, isAbsolute, resolve } from 'node:path';
 import chokidar, { type FSWatcher } from 'chokidar';
 import type { HarnessMessage, LlmMessage, ContentPart } from './context-manager.js';
 import { SqliteStorage } from './storage/sqlite-storage.js';
-import type { StoragePort, VersionRecord, VersionWriteInput } from './storage/storage-port.js';
+import type { ObjectAttributes, StoragePort, VersionRecord, VersionWriteInput } from './storage/storage-port.js';
+import { canonicalJson, matchesFieldHashes } from './storage/version-codec.js';
 
 type MetadataEntry = {
   id: string;
@@ -17,6 +18,7 @@ type MetadataEntry = {
   char_count?: number;
   tool?: string;
   mtime_ms?: number;
+  deleted_since?: number;
 };
 
 type ObjectState = {
@@ -31,6 +33,7 @@ type Ref = {
   mode: 'dynamic' | 'pinned';
   target_version_id?: string;
   target_object_hash?: string;
+  target_field_hashes?: Record<string, string>;
   ref_kind: string;
   ref_metadata?: Record<string, unknown>;
 };
@@ -50,6 +53,7 @@ type SessionMetadata = {
 type PinnedAnchor = {
   targetVersionId?: string;
   targetObjectHash?: string;
+  targetFieldHashes?: Record<string, string>;
 };
 
 type SessionState = {
@@ -81,9 +85,19 @@ type ResolvedActiveContent = {
   refKind: string;
 };
 
+type RuntimeWrite = Omit<VersionWriteInput, 'requestId' | 'writerId'>;
+
+// An object write that commits with the next session version; `onCommit` sees the stored record.
+type CompanionWrite = RuntimeWrite & { onCommit?: (record: VersionRecord) => void };
+
+// A write fixed to one request id, so retrying it after a failed batch replays instead of duplicating.
+type PendingWrite = CompanionWrite & { requestId: string };
+
+type PersistedAttributes = Pick<ObjectAttributes, 'locked' | 'nickname'>;
+
 // Legacy external backend support was intentionally removed.
-// Any missing historical/as-of behavior must be reintroduced via StoragePort/SQLite,
-// not by re-adding direct external backend clients.
+// Historical/as-of behavior lives behind StoragePort (`getAsOf` / `getSessionAsOf`),
+// not in direct external backend clients.
 /**
  * @impldoc SelfContextManager runtime
  *
@@ -98,6 +112,11 @@ type ResolvedActiveContent = {
  * - observe tracked tool/file activity and sync it back through `StoragePort`
  * - watch tracked file paths for on-disk updates and unlinks
  *
+ * Storage is `options.storage` when given (any `StoragePort`, e.g. a
+ * `RemoteStorage` client of a shared storage daemon); otherwise the runtime
+ * opens the workspace SQLite file in WAL mode with a busy timeout and write
+ * retries, so several Pi windows can share it.
+ *
  * Current assembly order:
  * 1. system prompt
  * 2. metadata block
@@ -120,6 +139,7 @@ export class SelfContextManager {
   private readonly pinnedSet = new Set<string>();
   private readonly pinnedAnchors = new Map<string, PinnedAnchor>();
   private readonly latestVersionByObject = new Map<string, string>();
+  private readonly objectAttributes = new Map<string, PersistedAttributes>();
 
   private readonly chatLog: HarnessMessage[] = [];
   private readonly watcher: FSWatcher;
@@ -131,6 +151,8 @@ export class SelfContextManager {
   private lastCursorSignature: string | null = null;
   private persistChain: Promise<void> = Promise.resolve();
   private persistError: Error | null = null;
+  private pendingWrites: PendingWrite[] = [];
+  private queuedPersists = 0;
 
   readonly sessionObjectId: string;
   readonly chatObjectId: string;
@@ -223,6 +245,10 @@ export class SelfContextManager {
     }
     for (const id of existing.activeIds) this.activeSet.add(id);
 
+    for (const id of new Set([...this.metadataSeen, ...this.activeSet, ...this.pinnedSet])) {
+      if ((await this.loadObjectAttributes(id))?.locked) this.activeSet.add(id);
+    }
+
     for (const id of this.activeSet) {
       if (id === this.chatObjectId || id === this.systemPromptObjectId) continue;
       const object = await this.fetchObjectState(id);
@@ -276,8 +302,13 @@ export class SelfContextManager {
    *
    * These operations persist through session versions, but they are currently a
    * runtime capability rather than a finished model-facing CLI/control surface.
+   *
+   * `activate` / `deactivate` accept an object id or a persisted nickname. An
+   * object locked through `setObjectAttributes` (like the chat and system
+   * prompt) cannot be deactivated.
    */
-  activate(id: string): { ok: boolean; message: string } {
+  activate(idOrNickname: string): { ok: boolean; message: string } {
+    const id = this.resolveObjectId(idOrNickname);
     const object = this.objects.get(id);
     if (!object) return { ok: false, message: `Object not found: ${id}` };
     if (object.content === null) return { ok: false, message: 'Content unavailable (non-text file)' };
@@ -286,7 +317,8 @@ export class SelfContextManager {
     return { ok: true, message: `activated ${id}` };
   }
 
-  deactivate(id: string): { ok: boolean; message: string } {
+  deactivate(idOrNickname: string): { ok: boolean; message: string } {
+    const id = this.resolveObjectId(idOrNickname);
     const object = this.objects.get(id);
     if (!object) return { ok: false, message: `Object not found: ${id}` };
     if (object.locked) return { ok: false, message: `Object is locked: ${id}` };
@@ -295,11 +327,44 @@ export class SelfContextManager {
     return { ok: true, message: `deactivated ${id}` };
   }
 
+  /**
+   * @impldoc Persisted locks and nicknames
+   *
+   * `setObjectAttributes` stores `locked` / `nickname` through
+   * `StoragePort.setObjectAttributes` (audited, outside the version history)
+   * and applies them to the running session: locking an object with text
+   * content activates it. On `load()` the attributes of every known object are
+   * read back and locked objects rejoin the active set. The metadata block
+   * shows `nickname=` and `locked=true` for objects that have them.
+   */
+  async setObjectAttributes(
+    idOrNickname: string,
+    attributes: { locked?: boolean; nickname?: string | null },
+  ): Promise<{ ok: boolean; message: string }> {
+    const id = this.resolveObjectId(idOrNickname);
+    if (!this.knowsObject(id)) return { ok: false, message: `Object not found: ${id}` };
+
+    await this.settlePersists();
+    const stored = await this.storage.setObjectAttributes(id, { ...attributes, writerId: 'self-context-manager' });
+    if (!stored) return { ok: false, message: `Object not found: ${id}` };
+
+    this.objectAttributes.set(id, { locked: stored.locked, nickname: stored.nickname });
+    const object = this.objects.get(id);
+    if (object) {
+      object.locked = this.isLocked(id);
+      if (stored.locked && object.content !== null) this.activeSet.add(id);
+    }
+
+    this.enqueuePersist();
+    return { ok: true, message: `attributes ${id} locked=${stored.locked} nickname=${stored.nickname ?? ''}` };
+  }
+
   pin(id: string): { ok: boolean; message: string } {
     if (!this.knowsObject(id)) return { ok: false, message: `Object not found: ${id}` };
     this.pinnedSet.add(id);
 
-    if (!this.pinnedAnchors.has(id)) {
+    // a pending write will be the version to pin; persistSessionState anchors it once committed
+    if (!this.pinnedAnchors.has(id) && !this.pendingWrites.some((write) => write.objectId === id)) {
       const cached = this.latestVersionByObject.get(id);
       if (cached) this.pinnedAnchors.set(id, { targetVersionId: cached });
     }
@@ -383,6 +448,7 @@ export class SelfContextManager {
   }
 
   async getEntity(id: string): Promise<Record<string, unknown> | null> {
+    await this.settlePersists();
     const latest = await this.storage.getLatest(id);
     if (!latest) return null;
 
@@ -391,6 +457,7 @@ export class SelfContextManager {
   }
 
   async getObjectHistory(id: string): Promise<Record<string, unknown>[]> {
+    await this.settlePersists();
     const history = await this.storage.getHistory(id, 'asc');
     for (const row of history) this.latestVersionByObject.set(id, row.versionId);
     return history.map((row) => this.versionRecordToLegacyEntity(row));
@@ -427,6 +494,7 @@ export class SelfContextManager {
     if (record.toolName !== null) entity.tool_name = record.toolName;
     if (record.status !== null) entity.status = record.status;
     if (record.charCount !== null) entity.char_count = record.charCount;
+    if (record.deleted) entity.deleted = true;
 
     if (type === 'session') {
       entity.active_set = this.refIds(payload.active_set);
@@ -444,7 +512,7 @@ export class SelfContextManager {
     const root = options.workspaceRoot ?? resolve(tmpdir(), 'self-context-manager');
     const dbPath = options.storagePath ?? resolve(root, '.pi', 'self-context-manager.sqlite');
     mkdirSync(dirname(dbPath), { recursive: true });
-    return new SqliteStorage({ path: dbPath });
+    return new SqliteStorage({ path: dbPath, journalMode: 'wal', busyTimeoutMs: 5000, retry: { maxAttempts: 5 } });
   }
 
   private async consumeMessages(messages: HarnessMessage[]): Promise<void> {
@@ -467,7 +535,7 @@ export class SelfContextManager {
       return;
     }
 
-    let mutated = false;
+    const toolcallWrites: RuntimeWrite[] = [];
 
     for (const message of messages.slice(this.cursor)) {
       this.chatLog.push(message);
@@ -476,7 +544,7 @@ export class SelfContextManager {
       const content = this.extractText(message.content);
       const status = message.isError ? 'fail' : 'ok';
 
-      await this.writeVersion({
+      toolcallWrites.push({
         objectId: message.toolCallId,
         objectType: 'toolcall',
         writerKind: 'client',
@@ -496,7 +564,7 @@ export class SelfContextManager {
         id: message.toolCallId,
         type: 'toolcall',
         content,
-        locked: false,
+        locked: this.isLocked(message.toolCallId),
       });
 
       if (!this.metadataSeen.has(message.toolCallId)) {
@@ -510,14 +578,14 @@ export class SelfContextManager {
       }
 
       this.activeSet.add(message.toolCallId);
-      mutated = true;
     }
 
     this.cursor = messages.length;
     this.lastMessagesRef = messages;
     this.lastCursorSignature = this.cursor > 0 ? this.signature(messages[this.cursor - 1]) : null;
 
-    if (mutated) this.enqueuePersist();
+    // Toolcall versions commit atomically with the session version that activates them.
+    if (toolcallWrites.length > 0) this.enqueuePersist(toolcallWrites);
   }
 
   private async indexFileFromDisk(
@@ -529,7 +597,7 @@ export class SelfContextManager {
     const content = await readFile(absolutePath, 'utf8');
     const fileType = this.fileTypeFromPath(absolutePath);
 
-    await this.writeVersion({
+    const fileWrite: CompanionWrite = {
       objectId: id,
       objectType: 'file',
       writerKind,
@@ -544,9 +612,12 @@ export class SelfContextManager {
       path: absolutePath,
       charCount: content.length,
       fileBytes: new TextEncoder().encode(content),
-    });
+      // a tombstone committed after this file was re-read must not leave it marked deleted
+      onCommit: () => this.markDeleted(id, undefined),
+    };
 
-    this.objects.set(id, { id, type: 'file', content, locked: false });
+    if (!this.objectAttributes.has(id) && (await this.loadObjectAttributes(id))?.locked) this.activeSet.add(id);
+    this.objects.set(id, { id, type: 'file', content, locked: this.isLocked(id) });
 
     const fileStat = await stat(absolutePath);
     const existing = this.metadataPool.find((m) => m.id === id);
@@ -555,6 +626,7 @@ export class SelfContextManager {
       existing.file_type = fileType;
       existing.char_count = content.length;
       existing.mtime_ms = fileStat.mtimeMs;
+      existing.deleted_since = undefined;
     } else {
       this.metadataSeen.add(id);
       this.metadataPool.push({
@@ -569,17 +641,18 @@ export class SelfContextManager {
 
     this.watchedPathToId.set(absolutePath, id);
     await this.watcher.add(absolutePath);
-    this.enqueuePersist();
+    this.enqueuePersist([fileWrite]);
   }
 
   private async indexDiscoveredPaths(paths: string[]): Promise<void> {
+    const fileWrites: CompanionWrite[] = [];
     for (const rawPath of paths) {
       const absolutePath = this.resolvePath(rawPath);
       const id = `file:${absolutePath}`;
       if (this.metadataSeen.has(id)) continue;
 
       const fileType = this.fileTypeFromPath(absolutePath);
-      await this.writeVersion({
+      fileWrites.push({
         objectId: id,
         objectType: 'file',
         writerKind: 'client',
@@ -595,7 +668,7 @@ export class SelfContextManager {
         charCount: 0,
       });
 
-      this.objects.set(id, { id, type: 'file', content: null, locked: false });
+      this.objects.set(id, { id, type: 'file', content: null, locked: this.isLocked(id) });
       this.metadataSeen.add(id);
       this.metadataPool.push({
         id,
@@ -608,7 +681,7 @@ export class SelfContextManager {
       await this.watcher.add(absolutePath);
     }
 
-    this.enqueuePersist();
+    this.enqueuePersist(fileWrites);
   }
 
   private async handleWatcherUpsert(path: string): Promise<void> {
@@ -624,44 +697,66 @@ export class SelfContextManager {
     await this.indexFileFromDisk(absolutePath, id, 'watcher', 'watcher_sync');
   }
 
+  /**
+   * @impldoc File deletion and undelete
+   *
+   * A tracked file that disappears from disk gets a tombstone version
+   * (`deleted: true`, no content, the `path` it was deleted from) and leaves
+   * the active set; its metadata entry records the tombstone's `tx_seq` and
+   * renders as `deleted=true since=<tx_seq>`. The path stays watched, so a
+   * file re-created at the same path (or moved there within the rename
+   * window) is re-indexed under the same object id: that live version is the
+   * undelete. On resume, a deleted entry whose file exists again is undeleted
+   * the same way; one that is still missing is left as is.
+   */
   private async handleWatcherUnlink(path: string): Promise<void> {
     const absolutePath = this.resolvePath(path);
     const id = this.watchedPathToId.get(absolutePath);
     if (!id) return;
 
     const existing = this.metadataPool.find((m) => m.id === id);
+    if (existing?.deleted_since !== undefined) return;
+    if (this.pendingWrites.some((write) => write.objectId === id && write.deleted)) return;
     const fileType = existing?.file_type ?? this.fileTypeFromPath(absolutePath);
 
-    await this.writeVersion({
+    const tombstone: CompanionWrite = {
       objectId: id,
       objectType: 'file',
       writerKind: 'watcher',
       writeReason: 'watcher_sync',
       contentStruct: {
         content: null,
-        path: null,
+        path: absolutePath,
         file_type: fileType,
         char_count: 0,
       },
       metadata: {},
-      path: null,
+      path: absolutePath,
       charCount: 0,
-      fileBytes: null,
-    });
+      deleted: true,
+      // the marker names the tombstone's tx_seq, so it is recorded by the session version after this one
+      onCommit: (record) => {
+        this.markDeleted(id, record.txSeq);
+        this.enqueuePersist();
+      },
+    };
 
     if (existing) {
-      existing.path = null;
       existing.char_count = 0;
       existing.mtime_ms = undefined;
     }
 
-    this.objects.set(id, { id, type: 'file', content: null, locked: false });
+    this.objects.set(id, { id, type: 'file', content: null, locked: this.isLocked(id) });
     this.activeSet.delete(id);
-    this.watchedPathToId.delete(absolutePath);
     this.recentUnlinks.push({ id, ts: Date.now() });
     while (this.recentUnlinks.length > 20) this.recentUnlinks.shift();
 
-    this.enqueuePersist();
+    this.enqueuePersist([tombstone]);
+  }
+
+  private markDeleted(id: string, txSeq: number | undefined): void {
+    const entry = this.metadataPool.find((m) => m.id === id);
+    if (entry) entry.deleted_since = txSeq;
   }
 
   private async reconcileKnownFilesAfterResume(): Promise<void> {
@@ -670,7 +765,7 @@ export class SelfContextManager {
 
       try {
         const fileStat = await stat(entry.path);
-        if (!entry.mtime_ms || fileStat.mtimeMs > entry.mtime_ms + 1) {
+        if (entry.deleted_since !== undefined || !entry.mtime_ms || fileStat.mtimeMs > entry.mtime_ms + 1) {
           await this.indexFileFromDisk(entry.path, entry.id, 'watcher', 'watcher_sync');
         }
       } catch {
@@ -679,17 +774,64 @@ export class SelfContextManager {
     }
   }
 
-  private enqueuePersist(): void {
+  /**
+   * Queues a session write. `companionWrites` (file and toolcall versions) stay
+   * pending until they commit: each persist writes every pending write in one
+   * `putVersions` batch with the session version. When that batch fails for a
+   * transient reason (storage or transport error) they stay pending, so the
+   * next persist (or `awaitPersist`) retries them under the same request ids.
+   * When it is refused (a conflict or validation failure, e.g. a stale session
+   * head), each companion write is retried on its own, so only a write that is
+   * itself refused is dropped; the batch error is reported either way.
+   */
+  private enqueuePersist(companionWrites: CompanionWrite[] = []): void {
+    this.pendingWrites.push(...companionWrites.map((write) => ({ ...write, requestId: randomUUID() })));
+    this.queuedPersists += 1;
     this.persistChain = this.persistChain
       .catch(() => undefined)
-      .then(() => this.persistSessionState())
+      .then(async () => {
+        this.queuedPersists -= 1;
+        const batch = [...this.pendingWrites];
+        try {
+          await this.persistSessionState(batch);
+          this.settleWrites(batch);
+        } catch (error) {
+          if (isFinalWriteRejection(error)) await this.persistWritesAlone(batch);
+          throw error;
+        }
+      })
       .catch((error) => {
         this.persistError = asError(error);
       });
   }
 
+  private async persistWritesAlone(writes: PendingWrite[]): Promise<void> {
+    for (const write of writes) {
+      try {
+        await this.writeVersions([write]);
+      } catch (error) {
+        if (!isFinalWriteRejection(error)) return;
+      }
+      this.settleWrites([write]);
+    }
+  }
+
+  private settleWrites(writes: PendingWrite[]): void {
+    this.pendingWrites = this.pendingWrites.filter((write) => !writes.includes(write));
+  }
+
+  /** Waits for every queued persist, including ones queued while waiting; failures stay for `awaitPersist`. */
+  private async settlePersists(): Promise<void> {
+    let chain: Promise<void>;
+    do {
+      chain = this.persistChain;
+      await chain;
+    } while (chain !== this.persistChain);
+  }
+
   private async awaitPersist(): Promise<void> {
-    await this.persistChain;
+    if (this.pendingWrites.length > 0 && this.queuedPersists === 0) this.enqueuePersist();
+    await this.settlePersists();
     if (!this.persistError) return;
 
     const error = this.persistError;
@@ -697,7 +839,16 @@ export class SelfContextManager {
     throw error;
   }
 
-  private async persistSessionState(): Promise<void> {
+  /**
+   * Writes the current session state as a new session version. Object writes
+   * the new state depends on (`companionWrites`) are committed in the same
+   * `putVersions` batch, so the session never points at a half-written action.
+   * A pin without an anchor on an object written in this batch waits for the
+   * next session version, which can anchor it on the committed version.
+   */
+  private async persistSessionState(companionWrites: PendingWrite[] = []): Promise<void> {
+    const batchIds = new Set(companionWrites.map((write) => write.objectId));
+    let deferredPin = false;
     const metadataIds = new Set(this.metadataPool.map((m) => m.id));
     const activeIds = [...this.activeSet].sort((a, b) => a.localeCompare(b));
     const inactiveIds = [...metadataIds].filter((id) => !this.activeSet.has(id)).sort((a, b) => a.localeCompare(b));
@@ -705,7 +856,11 @@ export class SelfContextManager {
     const pinnedRefs: Ref[] = [];
     for (const id of [...this.pinnedSet].sort((a, b) => a.localeCompare(b))) {
       let anchor = this.pinnedAnchors.get(id);
-      if (!anchor?.targetVersionId && !anchor?.targetObjectHash) {
+      if (!anchor?.targetVersionId && !anchor?.targetObjectHash && !anchor?.targetFieldHashes) {
+        if (batchIds.has(id)) {
+          deferredPin = true;
+          continue;
+        }
         const versionId = await this.latestVersionId(id);
         if (!versionId) continue;
         anchor = { targetVersionId: versionId };
@@ -720,6 +875,7 @@ export class SelfContextManager {
 
       if (anchor.targetVersionId) pinnedRef.target_version_id = anchor.targetVersionId;
       if (anchor.targetObjectHash) pinnedRef.target_object_hash = anchor.targetObjectHash;
+      if (anchor.targetFieldHashes) pinnedRef.target_field_hashes = anchor.targetFieldHashes;
       pinnedRefs.push(pinnedRef);
     }
 
@@ -731,18 +887,22 @@ export class SelfContextManager {
       pinned_set: pinnedRefs,
     };
 
-    await this.writeVersion({
-      objectId: this.sessionObjectId,
-      objectType: 'session',
-      writerKind: 'system',
-      writeReason: 'system',
-      expectedCurrentVersionId: this.latestVersionByObject.get(this.sessionObjectId),
-      contentStruct: content,
-      metadata: {
-        metadata_pool: this.sortMetadataEntries(this.metadataPool),
+    await this.writeVersions([
+      ...companionWrites,
+      {
+        objectId: this.sessionObjectId,
+        objectType: 'session',
+        writerKind: 'system',
+        writeReason: 'system',
+        expectedCurrentVersionId: this.latestVersionByObject.get(this.sessionObjectId),
+        contentStruct: content,
+        metadata: {
+          metadata_pool: this.sortMetadataEntries(this.metadataPool),
+        },
+        sessionId: this.options.sessionId,
       },
-      sessionId: this.options.sessionId,
-    });
+    ]);
+    if (deferredPin) this.enqueuePersist();
   }
 
   private async readSessionState(): Promise<SessionState | null> {
@@ -781,6 +941,7 @@ export class SelfContextManager {
         char_count: Number.isInteger(raw.char_count) ? raw.char_count : undefined,
         tool: typeof raw.tool === 'string' ? raw.tool : undefined,
         mtime_ms: typeof raw.mtime_ms === 'number' ? raw.mtime_ms : undefined,
+        deleted_since: Number.isInteger(raw.deleted_since) ? raw.deleted_since : undefined,
       });
     }
 
@@ -817,6 +978,8 @@ export class SelfContextManager {
       const anchor: PinnedAnchor = {};
       if (typeof item.target_version_id === 'string') anchor.targetVersionId = item.target_version_id;
       if (typeof item.target_object_hash === 'string') anchor.targetObjectHash = item.target_object_hash;
+      const fieldHashes = parseFieldHashes(item.target_field_hashes);
+      if (fieldHashes) anchor.targetFieldHashes = fieldHashes;
       pinned.push({ id: item.target_object_id, anchor });
     }
 
@@ -835,11 +998,13 @@ export class SelfContextManager {
     const payload = asRecord(parseJson(latest.contentStructJson), 'object.content_struct_json');
     const content = typeof payload.content === 'string' ? payload.content : null;
 
+    if (!this.objectAttributes.has(objectId)) await this.loadObjectAttributes(objectId);
+
     return {
       id: objectId,
       type,
       content,
-      locked: type === 'chat' || type === 'system_prompt',
+      locked: type === 'chat' || type === 'system_prompt' || this.isLocked(objectId),
     };
   }
 
@@ -853,7 +1018,7 @@ export class SelfContextManager {
     return latest.versionId;
   }
 
-  private async writeVersion(input: Omit<VersionWriteInput, 'requestId' | 'writerId'> & { writerKind: VersionWriteInput['writerKind']; writeReason: VersionWriteInput['writeReason'] }): Promise<VersionRecord> {
+  private async writeVersion(input: RuntimeWrite): Promise<VersionRecord> {
     const result = await this.storage.putVersion({
       ...input,
       requestId: randomUUID(),
@@ -871,6 +1036,28 @@ export class SelfContextManager {
     return result.record;
   }
 
+  private async writeVersions(inputs: Array<CompanionWrite & { requestId?: string }>): Promise<VersionRecord[]> {
+    const result = await this.storage.putVersions(
+      inputs.map(({ onCommit: _onCommit, ...input }) => ({
+        ...input,
+        requestId: input.requestId ?? randomUUID(),
+        writerId: 'self-context-manager',
+      })),
+    );
+
+    if (result.ok === false) {
+      const failure = result.results[result.failedIndex];
+      const objectId = inputs[result.failedIndex].objectId;
+      if ('validation' in failure) throw new Error(`storage_validation:${failure.reason}:${objectId}`);
+      if ('conflict' in failure) throw new Error(`storage_conflict:${failure.reason}:${objectId}`);
+      throw new Error(`storage_batch_aborted:${objectId}`);
+    }
+
+    for (const { record } of result.results) this.latestVersionByObject.set(record.objectId, record.versionId);
+    result.results.forEach(({ record }, index) => inputs[index].onCommit?.(record));
+    return result.results.map(({ record }) => record);
+  }
+
   private makeDynamicRef(targetObjectId: string, refKind: string): Ref {
     return {
       target_object_id: targetObjectId,
@@ -1050,19 +1237,22 @@ export class SelfContextManager {
 
     if (typeof value.target_version_id === 'string') ref.target_version_id = value.target_version_id;
     if (typeof value.target_object_hash === 'string') ref.target_object_hash = value.target_object_hash;
+    const fieldHashes = parseFieldHashes(value.target_field_hashes);
+    if (fieldHashes) ref.target_field_hashes = fieldHashes;
     if (isRecord(value.ref_metadata)) ref.ref_metadata = value.ref_metadata;
 
-    if (ref.mode === 'pinned' && !ref.target_version_id && !ref.target_object_hash) return null;
+    if (ref.mode === 'pinned' && !ref.target_version_id && !ref.target_object_hash && !ref.target_field_hashes) {
+      return null;
+    }
     return ref;
   }
 
   private async resolveSessionRefs(entries: SessionRefEntry[]): Promise<ResolvedSessionRef[]> {
     const latestCache = new Map<string, VersionRecord | null>();
-    const historyCache = new Map<string, VersionRecord[]>();
 
     const resolved: ResolvedSessionRef[] = [];
     for (const entry of entries) {
-      const outcome = await this.resolveRefRecord(entry.ref, latestCache, historyCache);
+      const outcome = await this.resolveRefRecord(entry.ref, latestCache);
       resolved.push({
         ...entry,
         record: outcome.record,
@@ -1073,35 +1263,39 @@ export class SelfContextManager {
     return resolved;
   }
 
+  /**
+   * Pinned anchors are resolved with `getVersion` / `getVersionsByObjectHash`,
+   * so the cost of a ref does not depend on the target's history length. A
+   * hash shared by several versions of the target resolves to the newest one.
+   * A field-hash pin accepts any version whose field hashes contain every
+   * pinned entry: the HEAD when it matches, else the newest matching version
+   * returned by `getVersionByFieldHashes`. That lookup runs in the backend,
+   * which still checks the target's versions newest first, so its cost grows
+   * with the number of versions newer than the match.
+   */
   private async resolveRefRecord(
     ref: Ref,
     latestCache: Map<string, VersionRecord | null>,
-    historyCache: Map<string, VersionRecord[]>,
   ): Promise<{ record: VersionRecord | null; reason?: string }> {
-    if (ref.mode === 'dynamic') {
-      let latest = latestCache.get(ref.target_object_id);
-      if (latest === undefined) {
-        latest = await this.storage.getLatest(ref.target_object_id);
-        latestCache.set(ref.target_object_id, latest);
-      }
+    let latest = latestCache.get(ref.target_object_id);
+    if (latest === undefined) {
+      latest = await this.storage.getLatest(ref.target_object_id);
+      latestCache.set(ref.target_object_id, latest);
+      if (latest) this.latestVersionByObject.set(latest.objectId, latest.versionId);
+    }
 
+    if (ref.mode === 'dynamic') {
       if (!latest) return { record: null, reason: 'missing_target_head' };
-      this.latestVersionByObject.set(latest.objectId, latest.versionId);
       return { record: latest };
     }
 
-    let history = historyCache.get(ref.target_object_id);
-    if (!history) {
-      history = await this.storage.getHistory(ref.target_object_id, 'desc');
-      historyCache.set(ref.target_object_id, history);
-      if (history[0]) this.latestVersionByObject.set(history[0].objectId, history[0].versionId);
-    }
-
-    if (history.length === 0) return { record: null, reason: 'missing_target_object' };
+    if (!latest) return { record: null, reason: 'missing_target_object' };
 
     if (ref.target_version_id) {
-      const byVersion = history.find((version) => version.versionId === ref.target_version_id);
-      if (!byVersion) return { record: null, reason: 'missing_target_version' };
+      const byVersion = await this.storage.getVersion(ref.target_version_id);
+      if (!byVersion || byVersion.objectId !== ref.target_object_id) {
+        return { record: null, reason: 'missing_target_version' };
+      }
       if (ref.target_object_hash && byVersion.objectHash !== ref.target_object_hash) {
         return { record: null, reason: 'pinned_hash_mismatch' };
       }
@@ -1109,11 +1303,21 @@ export class SelfContextManager {
     }
 
     if (ref.target_object_hash) {
-      const byHash = history.find((version) => version.objectHash === ref.target_object_hash);
+      const byHash = (await this.storage.getVersionsByObjectHash(ref.target_object_hash))
+        .filter((version) => version.objectId === ref.target_object_id)
+        .at(-1);
       if (!byHash) return { record: null, reason: 'missing_target_hash' };
       return { record: byHash };
     }
 
+    const anchors = ref.target_field_hashes;
+    if (anchors) {
+      if (matchesFieldHashes(latest.fieldHashesJson, anchors)) return { record: latest };
+      const byFields = await this.storage.getVersionByFieldHashes(ref.target_object_id, anchors);
+      if (!byFields) return { record: null, reason: 'pinned_field_hash_mismatch' };
+      return { record: byFields };
+    }
+
     return { record: null, reason: 'invalid_pinned_anchor' };
   }
 
@@ -1129,6 +1333,7 @@ export class SelfContextManager {
   private refAnchor(ref: Ref): string {
     if (ref.target_version_id) return `version:${ref.target_version_id}`;
     if (ref.target_object_hash) return `hash:${ref.target_object_hash}`;
+    if (ref.target_field_hashes) return `fields:${canonicalJson(ref.target_field_hashes, 'target_field_hashes')}`;
     return 'none';
   }
 
@@ -1183,11 +1388,14 @@ export class SelfContextManager {
     const lines = ['METADATA_POOL'];
 
     for (const entry of entries) {
-      if (entry.type === 'toolcall') {
-        lines.push(`- id=${entry.id} type=toolcall tool=${entry.tool} status=${entry.status}`);
-      } else {
-        lines.push(`- id=${entry.id} type=file path=${entry.path} file_type=${entry.file_type} char_count=${entry.char_count}`);
-      }
+      const line =
+        entry.type === 'toolcall'
+          ? `- id=${entry.id} type=toolcall tool=${entry.tool} status=${entry.status}`
+          : `- id=${entry.id} type=file path=${entry.path} file_type=${entry.file_type} char_count=${entry.char_count}`;
+      const attributes = this.objectAttributes.get(entry.id);
+      const nickname = attributes?.nickname ? ` nickname=${attributes.nickname}` : '';
+      const deleted = entry.deleted_since !== undefined ? ` deleted=true since=${entry.deleted_since}` : '';
+      lines.push(`${line}${deleted}${nickname}${attributes?.locked ? ' locked=true' : ''}`);
     }
 
     if (summaryLines.length > 0) {
@@ -1278,11 +1486,36 @@ export class SelfContextManager {
     return `${message.role}:${message.timestamp}:${this.extractText(message.content)}`;
   }
 
+  private async loadObjectAttributes(id: string): Promise<PersistedAttributes | null> {
+    const attributes = await this.storage.getObjectAttributes(id);
+    if (!attributes) return null;
+
+    const persisted = { locked: attributes.locked, nickname: attributes.nickname };
+    this.objectAttributes.set(id, persisted);
+    return persisted;
+  }
+
+  private isLocked(id: string): boolean {
+    if (id === this.chatObjectId || id === this.systemPromptObjectId) return true;
+    return this.objectAttributes.get(id)?.locked ?? false;
+  }
+
+  /** Maps a persisted nickname to its object id; anything else (including an ambiguous nickname) is returned as is. */
+  private resolveObjectId(idOrNickname: string): string {
+    if (this.knowsObject(idOrNickname)) return idOrNickname;
+    const matches = [...this.objectAttributes].filter(([, attributes]) => attributes.nickname === idOrNickname);
+    return matches.length === 1 ? matches[0][0] : idOrNickname;
+  }
+
   private knowsObject(id: string): boolean {
     return this.objects.has(id) || this.metadataSeen.has(id) || id === this.chatObjectId || id === this.systemPromptObjectId;
   }
 }
 
+function isFinalWriteRejection(error: unknown): boolean {
+  return /^storage_(conflict|validation|batch_aborted):/.test(asError(error).message);
+}
+
 function inferObjectType(objectId: string): ObjectState['type'] | 'session' {
   if (objectId.startsWith('file:')) return 'file';
   if (objectId.startsWith('chat:')) return 'chat';
@@ -1302,6 +1535,13 @@ function asRecord(value: unknown, label: string): Record<string, any> {
   return value;
 }
 
+function parseFieldHashes(value: unknown): Record<string, string> | null {
+  if (!isRecord(value)) return null;
+  const entries = Object.entries(value);
+  if (entries.length === 0 || entries.some(([, hash]) => typeof hash !== 'string')) return null;
+  return Object.fromEntries(entries) as Record<string, string>;
+}
+
 function isRecord(value: unknown): value is Record<string, any> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
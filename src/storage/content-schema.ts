@@ -0,0 +1,124 @@
+import type { ObjectType } from './storage-port.js';
+import { escapePointerToken, isRecord } from './version-codec.js';
+
+/**
+ * @impldoc Content schemas
+ *
+ * `CONTENT_SCHEMAS` declares the payload (`contentStruct`) shape of every
+ * non-session `ObjectType`: the known top-level fields with their accepted
+ * JSON types, which of them are required, and whether other fields may
+ * appear. `putVersion` / `putVersions` check each input against it before any
+ * transactional work and answer
+ * `{ ok: false, validation: true, reason: 'invalid_content_struct', errors }`.
+ *
+ * `errors` lists every violation as `{ path, message }`, `path` being the JSON
+ * pointer of the offending value (`''` for the payload itself) and `message`
+ * one of `expected:<types>` (`|`-joined), `required`, `minimum:<n>` or
+ * `unexpected_field`.
+ *
+ * `session` payloads have no entry: their refs and sets are parsed strictly by
+ * the ref codec (`extractRefs`), which throws on malformed input.
+ */
+export type ContentFieldType = 'string' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface ContentFieldSchema {
+  types: readonly ContentFieldType[];
+  required?: boolean;
+  minimum?: number;
+}
+
+export interface ContentSchema {
+  fields: Readonly<Record<string, ContentFieldSchema>>;
+  allowExtraFields: boolean;
+}
+
+export interface ContentStructError {
+  path: string;
+  message: string;
+}
+
+export const CONTENT_SCHEMAS: Readonly<Record<Exclude<ObjectType, 'session'>, ContentSchema>> = {
+  file: {
+    fields: {
+      content: { types: ['string', 'null'] },
+      // earlier runtimes wrote `path: null` for files indexed before they were read
+      path: { types: ['string', 'null'] },
+      file_type: { types: ['string'] },
+      char_count: { types: ['integer'], minimum: 0 },
+    },
+    allowExtraFields: true,
+  },
+  toolcall: {
+    fields: {
+      content: { types: ['string', 'null'] },
+      tool: { types: ['string'] },
+      status: { types: ['string'] },
+      chat_ref: { types: ['object'] },
+    },
+    allowExtraFields: true,
+  },
+  chat: {
+    fields: {
+      content: { types: ['string', 'null'] },
+      session_ref: { types: ['object'] },
+      turn_count: { types: ['integer'], minimum: 0 },
+      turns: { types: ['array'] },
+      file_refs: { types: ['array'] },
+    },
+    allowExtraFields: true,
+  },
+  system_prompt: {
+    fields: {
+      content: { types: ['string'], required: true },
+    },
+    allowExtraFields: false,
+  },
+};
+
+export function validateContentStruct(objectType: ObjectType, contentStruct: unknown): ContentStructError[] {
+  if (objectType === 'session') return [];
+  const schema = CONTENT_SCHEMAS[objectType];
+  if (!isRecord(contentStruct)) return [{ path: '', message: 'expected:object' }];
+
+  const errors: ContentStructError[] = [];
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    const path = `/${escapePointerToken(field)}`;
+    if (!Object.hasOwn(contentStruct, field)) {
+      if (fieldSchema.required) errors.push({ path, message: 'required' });
+      continue;
+    }
+
+    const value = contentStruct[field];
+    if (!fieldSchema.types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: `expected:${fieldSchema.types.join('|')}` });
+    } else if (fieldSchema.minimum !== undefined && typeof value === 'number' && value < fieldSchema.minimum) {
+      errors.push({ path, message: `minimum:${fieldSchema.minimum}` });
+    }
+  }
+
+  if (!schema.allowExtraFields) {
+    for (const field of Object.keys(contentStruct)) {
+      if (!Object.hasOwn(schema.fields, field)) {
+        errors.push({ path: `/${escapePointerToken(field)}`, message: 'unexpected_field' });
+      }
+    }
+  }
+  return errors;
+}
+
+function matchesType(value: unknown, type: ContentFieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
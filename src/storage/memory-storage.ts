@@ -0,0 +1,738 @@
+import type {
+  AsOfPoint,
+  ChangeFeedEntry,
+  ChangeFeedPage,
+  ChangeFeedParams,
+  ChangeListener,
+  ListObjectsParams,
+  ObjectAttributeChange,
+  ObjectAttributes,
+  ObjectAttributesUpdate,
+  ObjectListPage,
+  ObjectType,
+  PutVersionResult,
+  PutVersionsResult,
+  ReferenceGraph,
+  ReferenceGraphEdge,
+  ReferenceMode,
+  ReferenceRecord,
+  ResolvedReferenceRecord,
+  SessionSnapshot,
+  StoragePort,
+  TraverseReferencesParams,
+  VersionRecord,
+  VersionWriteInput,
+} from './storage-port.js';
+import {
+  ensureString,
+  extractRefs,
+  hashObject,
+  hashRefs,
+  matchesFieldHashes,
+  normalizeHashingOptions,
+  parseFieldHashAnchors,
+  type HashingOptions,
+  type VersionHashing,
+} from './version-codec.js';
+import {
+  compareSessionRecords,
+  sessionChatObjectId,
+  summarizeSession,
+  type ListSessionsParams,
+  type SessionComparison,
+  type SessionListPage,
+  type SessionSummary,
+} from './session-catalogue.js';
+import { diffVersionRecords, type VersionDiff } from './version-diff.js';
+import {
+  abortedBatch,
+  computeIdempotencyFingerprint,
+  isInsideAsOf,
+  normalizeAsOfPoint,
+  normalizeAttributesUpdate,
+  normalizeLimit,
+  normalizeListObjectsParams,
+  normalizePutInput,
+  normalizeTraverseParams,
+  normalizeValidTime,
+  replayMarkersMatch,
+  sortReferenceGraph,
+  toObjectHeadSummary,
+  validateWriteInput,
+  validityOverlaps,
+  versionValidAt,
+} from './version-write.js';
+
+type WriteOutcome = Exclude<PutVersionResult, { validation: true }>;
+
+type MemoryObject = {
+  objectType: ObjectType;
+  locked: boolean;
+  nickname: string | null;
+  createdSeq: number;
+  updatedSeq: number;
+  createdAt: string;
+  updatedAt: string;
+  currentVersionId: string | null;
+};
+
+type MemoryIdempotency = {
+  objectId: string;
+  versionId: string;
+  contentStructHash: string;
+  fileBytesHash: string | null;
+};
+
+const AT_HEAD: AsOfPoint = { txSeq: Number.MAX_SAFE_INTEGER };
+
+const OBJECT_TYPES: readonly ObjectType[] = ['file', 'toolcall', 'chat', 'session', 'system_prompt'];
+const WRITER_KINDS: readonly string[] = ['client', 'watcher', 'system'];
+const WRITE_REASONS: readonly string[] = ['manual', 'watcher_sync', 'import', 'system'];
+
+/**
+ * @impldoc In-memory StoragePort implementation
+ *
+ * `MemoryStorage` implements `StoragePort` without `node:sqlite`, for fast unit
+ * tests and embedders that need no persistent store. It shares the write
+ * contract (`version-write.ts`) and hashing/ref extraction (`version-codec.ts`)
+ * with `SqliteStorage`, so idempotency, conflict, ref-extraction and hash
+ * results are identical for the same sequence of writes.
+ *
+ * Storage model:
+ * - one object table, one version log in `tx_seq` order, version maps keyed
+ *   by `version_id` and by `object_hash`, per-version reference lists, an
+ *   idempotency map, file bytes keyed by `file_bytes_hash` and the object
+ *   attribute audit log, all held in process memory
+ * - `tx_seq` starts at `1` and increases by one per accepted version
+ * - the value checks SQLite enforces with CHECK constraints (object type,
+ *   writer kind, write reason, non-blank `session_id`) are enforced explicitly
+ *
+ * Atomicity: every mutation inside a write records an undo step; a write or
+ * batch that fails or conflicts replays the undo log, so readers never observe
+ * a partial write. `subscribe` follows the `SqliteStorage` contract (post-commit
+ * delivery, replays and rolled-back writes not delivered).
+ *
+ * `hashing` selects the hasher and `object_hash` schema of new versions, as
+ * for `SqliteStorage`.
+ *
+ * Nothing is persisted; the store lives as long as the instance.
+ */
+export interface MemoryStorageOptions {
+  hashing?: HashingOptions;
+}
+
+export class MemoryStorage implements StoragePort {
+  private readonly objects = new Map<string, MemoryObject>();
+  private readonly log: ChangeFeedEntry[] = [];
+  private readonly versions = new Map<string, VersionRecord>();
+  private readonly versionsByObject = new Map<string, VersionRecord[]>();
+  private readonly versionsByObjectHash = new Map<string, VersionRecord[]>();
+  private readonly blobs = new Map<string, Uint8Array>();
+  private readonly refsByVersion = new Map<string, ReferenceRecord[]>();
+  private readonly idempotency = new Map<string, MemoryIdempotency>();
+  private readonly attributeEvents: ObjectAttributeChange[] = [];
+  private readonly listeners = new Set<ChangeListener>();
+  private nextTxSeq = 1;
+  private undo: Array<() => void> = [];
+  private pendingChanges: ChangeFeedEntry[] = [];
+  private readonly hashing: VersionHashing;
+
+  constructor(options: MemoryStorageOptions = {}) {
+    this.hashing = normalizeHashingOptions(options.hashing);
+  }
+
+  close(): void {
+    this.listeners.clear();
+  }
+
+  async putVersion(input: VersionWriteInput): Promise<PutVersionResult> {
+    const invalid = validateWriteInput(input);
+    if (invalid) return invalid;
+
+    ensureString(input.requestId, 'requestId', true);
+    ensureString(input.objectId, 'objectId', true);
+
+    return this.tx(() => this.writeVersionInTx(input), (result) => result.ok);
+  }
+
+  async putVersions(inputs: VersionWriteInput[]): Promise<PutVersionsResult> {
+    for (const input of inputs) {
+      ensureString(input.requestId, 'requestId', true);
+      ensureString(input.objectId, 'objectId', true);
+    }
+
+    for (const [index, input] of inputs.entries()) {
+      const invalid = validateWriteInput(input);
+      if (invalid) return abortedBatch(inputs.length, index, invalid);
+    }
+
+    return this.tx<PutVersionsResult>(
+      () => {
+        const results: Array<Extract<PutVersionResult, { ok: true }>> = [];
+        for (const [index, input] of inputs.entries()) {
+          const result = this.writeVersionInTx(input);
+          if (!result.ok) return abortedBatch(inputs.length, index, result);
+          results.push(result);
+        }
+        return { ok: true, results };
+      },
+      (result) => result.ok,
+    );
+  }
+
+  async getLatest(objectId: string): Promise<VersionRecord | null> {
+    const versionId = this.objects.get(objectId)?.currentVersionId;
+    return versionId ? (this.versions.get(versionId) ?? null) : null;
+  }
+
+  async getHistory(objectId: string, order: 'asc' | 'desc' = 'desc'): Promise<VersionRecord[]> {
+    const history = [...(this.versionsByObject.get(objectId) ?? [])];
+    return order === 'asc' ? history : history.reverse();
+  }
+
+  async getVersion(versionId: string): Promise<VersionRecord | null> {
+    return this.versions.get(versionId) ?? null;
+  }
+
+  async getVersionsByObjectHash(objectHash: string): Promise<VersionRecord[]> {
+    return [...(this.versionsByObjectHash.get(objectHash) ?? [])];
+  }
+
+  async getVersionByFieldHashes(
+    objectId: string,
+    fieldHashes: Record<string, string>,
+    at?: AsOfPoint,
+  ): Promise<VersionRecord | null> {
+    const anchors = parseFieldHashAnchors(fieldHashes, 'fieldHashes');
+    const point = normalizeAsOfPoint(at ?? { txSeq: Number.MAX_SAFE_INTEGER });
+    return this.latestInside(objectId, point, (record) => matchesFieldHashes(record.fieldHashesJson, anchors));
+  }
+
+  async diffVersions(fromVersionId: string, toVersionId: string): Promise<VersionDiff | null> {
+    const from = this.versions.get(fromVersionId);
+    const to = this.versions.get(toVersionId);
+    if (!from || !to) return null;
+    return diffVersionRecords(this.objects.get(from.objectId)!.objectType, from, to);
+  }
+
+  async getAsOf(objectId: string, at: AsOfPoint): Promise<VersionRecord | null> {
+    const point = normalizeAsOfPoint(at);
+    return this.latestInside(objectId, point, () => true);
+  }
+
+  async getAsOfValidTime(objectId: string, validTime: string, at?: AsOfPoint): Promise<VersionRecord | null> {
+    const time = normalizeValidTime(validTime);
+    const point = normalizeAsOfPoint(at ?? { txSeq: Number.MAX_SAFE_INTEGER });
+    const known = (this.versionsByObject.get(objectId) ?? []).filter((version) => isInsideAsOf(version, point));
+    return versionValidAt(known, time);
+  }
+
+  async getSessionAsOf(sessionObjectId: string, at: AsOfPoint): Promise<SessionSnapshot | null> {
+    const point = normalizeAsOfPoint(at);
+    if (this.objects.get(sessionObjectId)?.objectType !== 'session') return null;
+
+    const session = await this.getAsOf(sessionObjectId, point);
+    if (!session) return null;
+
+    const references: ResolvedReferenceRecord[] = [];
+    for (const reference of await this.queryReferences({ fromVersionId: session.versionId })) {
+      references.push({ reference, target: await this.resolveReferenceAsOf(reference, point) });
+    }
+
+    return { session, references };
+  }
+
+  async readChanges(params: ChangeFeedParams = {}): Promise<ChangeFeedPage> {
+    const afterTxSeq = params.afterTxSeq ?? 0;
+    if (!Number.isInteger(afterTxSeq) || afterTxSeq < 0) throw new Error(`invalid_cursor:${afterTxSeq}`);
+    const limit = normalizeLimit(params.limit ?? 100);
+
+    const changes: ChangeFeedEntry[] = [];
+    for (const change of this.log) {
+      if (changes.length >= limit) break;
+      if (change.record.txSeq <= afterTxSeq) continue;
+      if (params.objectType !== undefined && change.objectType !== params.objectType) continue;
+      if (params.sessionId !== undefined && change.record.sessionId !== params.sessionId) continue;
+      changes.push(change);
+    }
+
+    return { changes, cursor: changes.at(-1)?.record.txSeq ?? afterTxSeq };
+  }
+
+  async listObjects(params: ListObjectsParams = {}): Promise<ObjectListPage> {
+    const query = normalizeListObjectsParams(params);
+
+    const matches = [...this.objects.entries()]
+      .filter(([objectId, object]) => {
+        const head = object.currentVersionId ? this.versions.get(object.currentVersionId) : undefined;
+        return (
+          head !== undefined &&
+          (query.cursor === undefined || compareText(objectId, query.cursor) > 0) &&
+          (query.objectType === undefined || object.objectType === query.objectType) &&
+          (query.sessionId === undefined || head.sessionId === query.sessionId) &&
+          (query.pathPrefix === undefined || (head.path?.startsWith(query.pathPrefix) ?? false)) &&
+          (query.toolName === undefined || head.toolName === query.toolName) &&
+          (query.status === undefined || head.status === query.status) &&
+          (query.updatedAfterTxSeq === undefined || head.txSeq > query.updatedAfterTxSeq) &&
+          (query.deleted === undefined || head.deleted === query.deleted)
+        );
+      })
+      .sort(([left], [right]) => compareText(left, right));
+
+    const objects = matches
+      .slice(0, query.limit)
+      .map(([, object]) =>
+        toObjectHeadSummary(object.objectType, this.versions.get(object.currentVersionId!)!, object),
+      );
+    return { objects, cursor: matches.length > query.limit ? objects.at(-1)!.objectId : null };
+  }
+
+  async listSessions(params: ListSessionsParams = {}): Promise<SessionListPage> {
+    const page = await this.listObjects({ objectType: 'session', cursor: params.cursor, limit: params.limit });
+
+    const sessions: SessionSummary[] = [];
+    for (const object of page.objects) {
+      const head = this.versions.get(object.versionId)!;
+      const chatObjectId = sessionChatObjectId(head);
+      sessions.push(summarizeSession(head, chatObjectId ? await this.getLatest(chatObjectId) : null));
+    }
+    return { sessions, cursor: page.cursor };
+  }
+
+  async compareSessions(sessionObjectIdA: string, sessionObjectIdB: string): Promise<SessionComparison | null> {
+    const heads: VersionRecord[] = [];
+    for (const objectId of [sessionObjectIdA, sessionObjectIdB]) {
+      const object = this.objects.get(objectId);
+      if (!object?.currentVersionId) return null;
+      if (object.objectType !== 'session') throw new Error(`compare_not_session:${objectId}`);
+      heads.push(this.versions.get(object.currentVersionId)!);
+    }
+    return compareSessionRecords(heads[0], heads[1]);
+  }
+
+  async getObjectAttributes(objectId: string): Promise<ObjectAttributes | null> {
+    const object = this.objects.get(objectId);
+    if (!object?.currentVersionId) return null;
+    return { objectId, locked: object.locked, nickname: object.nickname };
+  }
+
+  async setObjectAttributes(objectId: string, update: ObjectAttributesUpdate): Promise<ObjectAttributes | null> {
+    const { locked, nickname, writerId } = normalizeAttributesUpdate(update);
+    const object = this.objects.get(objectId);
+    if (!object?.currentVersionId) return null;
+
+    const next = { locked: locked ?? object.locked, nickname: nickname === undefined ? object.nickname : nickname };
+    if (next.locked !== object.locked || next.nickname !== object.nickname) {
+      Object.assign(object, next);
+      this.attributeEvents.push({
+        eventSeq: this.attributeEvents.length + 1,
+        objectId,
+        ...next,
+        writerId,
+        changedAt: new Date().toISOString(),
+      });
+    }
+    return { objectId, locked: object.locked, nickname: object.nickname };
+  }
+
+  async getObjectAttributeHistory(objectId: string): Promise<ObjectAttributeChange[]> {
+    return this.attributeEvents.filter((event) => event.objectId === objectId).map((event) => ({ ...event }));
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async queryReferences(params: {
+    fromVersionId?: string;
+    fromPathPrefix?: string;
+    targetObjectId?: string;
+    targetVersionId?: string;
+    targetObjectHash?: string;
+    mode?: ReferenceMode;
+    resolved?: boolean;
+    limit?: number;
+  }): Promise<ReferenceRecord[]> {
+    const limit = params.limit === undefined ? undefined : normalizeLimit(params.limit);
+    const sources =
+      params.fromVersionId !== undefined
+        ? [this.refsByVersion.get(params.fromVersionId) ?? []]
+        : [...this.refsByVersion.values()];
+
+    const matches = sources
+      .flat()
+      .filter(
+        (ref) =>
+          (params.fromPathPrefix === undefined || ref.fromPath.startsWith(params.fromPathPrefix)) &&
+          (params.targetObjectId === undefined || ref.targetObjectId === params.targetObjectId) &&
+          (params.targetVersionId === undefined || ref.targetVersionId === params.targetVersionId) &&
+          (params.targetObjectHash === undefined || ref.targetObjectHash === params.targetObjectHash) &&
+          (params.mode === undefined || ref.mode === params.mode) &&
+          (params.resolved === undefined || ref.resolved === params.resolved),
+      )
+      .sort(
+        (left, right) =>
+          compareText(left.fromVersionId, right.fromVersionId) ||
+          compareText(left.fromPath, right.fromPath) ||
+          compareText(left.refId, right.refId),
+      );
+
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+
+  async getReferrersByTargetVersion(
+    targetVersionId: string,
+    params?: { mode?: ReferenceMode; resolved?: boolean; limit?: number },
+  ): Promise<ReferenceRecord[]> {
+    return this.queryReferences({
+      targetVersionId,
+      mode: params?.mode,
+      resolved: params?.resolved,
+      limit: params?.limit,
+    });
+  }
+
+  async getReferrersByTargetHash(
+    targetObjectHash: string,
+    params?: { mode?: ReferenceMode; resolved?: boolean; limit?: number },
+  ): Promise<ReferenceRecord[]> {
+    return this.queryReferences({
+      targetObjectHash,
+      mode: params?.mode,
+      resolved: params?.resolved,
+      limit: params?.limit,
+    });
+  }
+
+  async traverseReferences(params: TraverseReferencesParams): Promise<ReferenceGraph | null> {
+    const query = normalizeTraverseParams(params);
+    const root =
+      'versionId' in query.from
+        ? this.versions.get(query.from.versionId)?.versionId
+        : this.objects.get(query.from.objectId)?.currentVersionId;
+    if (!root) return null;
+
+    const follows = (reference: ReferenceRecord) =>
+      (query.mode === undefined || reference.mode === query.mode) &&
+      (query.refKinds === undefined || query.refKinds.includes(reference.refKind));
+
+    // breadth-first, so the first time a node or edge is seen is at its smallest depth
+    const depths = new Map<string, number>([[root, 0]]);
+    const edges = new Map<string, ReferenceGraphEdge>();
+    let frontier = [root];
+    for (let depth = 1; depth <= query.depth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const versionId of frontier) {
+        for (const [reference, resolvedVersionId, neighbour] of await this.referenceSteps(versionId, query.direction)) {
+          if (!follows(reference)) continue;
+          if (!edges.has(reference.refId)) edges.set(reference.refId, { reference, resolvedVersionId, depth });
+          if (neighbour === null || depths.has(neighbour)) continue;
+          depths.set(neighbour, depth);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+
+    const nodes = [...depths].map(([versionId, depth]) => {
+      const version = this.versions.get(versionId)!;
+      const object = this.objects.get(version.objectId)!;
+      return {
+        versionId,
+        objectId: version.objectId,
+        objectType: object.objectType,
+        versionNo: version.versionNo,
+        isHead: object.currentVersionId === versionId,
+        depth,
+      };
+    });
+    return { rootVersionId: root, ...sortReferenceGraph(nodes, [...edges.values()]) };
+  }
+
+  private tx<T>(fn: () => T, shouldCommit: (result: T) => boolean = () => true): T {
+    this.undo = [];
+    this.pendingChanges = [];
+    try {
+      const result = fn();
+      if (shouldCommit(result)) this.publishChanges();
+      else this.rollback();
+      return result;
+    } catch (error) {
+      this.rollback();
+      throw error;
+    } finally {
+      this.undo = [];
+      this.pendingChanges = [];
+    }
+  }
+
+  private rollback(): void {
+    for (const step of this.undo.reverse()) step();
+  }
+
+  private publishChanges(): void {
+    for (const change of this.pendingChanges) {
+      for (const listener of this.listeners) {
+        try {
+          listener(change);
+        } catch {
+          // listeners must not fail a committed write
+        }
+      }
+    }
+  }
+
+  private writeVersionInTx(input: VersionWriteInput): WriteOutcome {
+    const txTime = input.txTime ?? new Date().toISOString();
+    const idem = this.idempotency.get(input.requestId);
+    if (idem) {
+      const replay = this.versions.get(idem.versionId);
+      if (!replay) throw new Error(`idempotency_missing_version:${idem.versionId}`);
+      const replayHasher = this.hashing.hashers.find((hasher) => hasher.algo === replay.hashAlgo);
+      const fingerprint = replayHasher ? computeIdempotencyFingerprint(input, replayHasher) : null;
+      const matches =
+        fingerprint !== null &&
+        idem.objectId === input.objectId &&
+        idem.contentStructHash === fingerprint.contentStructHash &&
+        idem.fileBytesHash === fingerprint.fileBytesHash;
+
+      if (!matches || !replayMarkersMatch(replay, input)) {
+        return { ok: false, conflict: true, reason: 'idempotency_mismatch' };
+      }
+      return { ok: true, record: replay, idempotentReplay: true };
+    }
+
+    assertOneOf(input.objectType, OBJECT_TYPES, 'object_type');
+    assertOneOf(input.writerKind, WRITER_KINDS, 'writer_kind');
+    assertOneOf(input.writeReason, WRITE_REASONS, 'write_reason');
+    if (typeof input.sessionId === 'string' && input.sessionId.trim().length === 0) {
+      throw new Error('invalid_session_id');
+    }
+
+    const txSeq = this.nextTxSeq;
+    let object = this.objects.get(input.objectId);
+    if (!object) {
+      object = {
+        objectType: input.objectType,
+        locked: false,
+        nickname: null,
+        createdSeq: txSeq,
+        updatedSeq: txSeq,
+        createdAt: txTime,
+        updatedAt: txTime,
+        currentVersionId: null,
+      };
+      this.objects.set(input.objectId, object);
+      this.undo.push(() => this.objects.delete(input.objectId));
+    }
+    if (object.objectType !== input.objectType) {
+      throw new Error(`object_type_mismatch:${input.objectId}:${object.objectType}:${input.objectType}`);
+    }
+    if (input.expectedCurrentVersionId !== undefined && input.expectedCurrentVersionId !== object.currentVersionId) {
+      return { ok: false, conflict: true, reason: 'version_conflict' };
+    }
+
+    const history = this.versionsByObject.get(input.objectId) ?? [];
+    const versionNo = (history.at(-1)?.versionNo ?? 0) + 1;
+
+    const hashSchema = this.hashing.write;
+    const normalized = normalizePutInput(input, txTime, hashSchema.hasher);
+    if (history.some((version) => validityOverlaps(version, normalized))) {
+      return { ok: false, conflict: true, reason: 'validity_overlap' };
+    }
+
+    const refs = extractRefs(input.objectType, input.contentStruct);
+    const refsHash = hashRefs(refs, hashSchema.hasher);
+    const versionId = crypto.randomUUID();
+
+    const record: VersionRecord = {
+      txSeq,
+      versionId,
+      objectId: input.objectId,
+      versionNo,
+      txTime: normalized.txTime,
+      writerId: input.writerId,
+      writerKind: input.writerKind,
+      writeReason: input.writeReason,
+      contentStructJson: normalized.contentStructJson,
+      fileBytesHash: normalized.fileBytesHash,
+      path: input.path ?? null,
+      sessionId: input.sessionId ?? null,
+      toolName: input.toolName ?? null,
+      status: input.status ?? null,
+      charCount: normalized.charCount,
+      deleted: normalized.deleted,
+      validFrom: normalized.validFrom,
+      validTo: normalized.validTo,
+      metadataJson: normalized.metadataJson,
+      fieldHashesJson: normalized.fieldHashesJson,
+      contentStructHash: normalized.contentStructHash,
+      metadataHash: normalized.metadataHash,
+      refsHash,
+      objectHash: hashObject(
+        {
+          objectId: input.objectId,
+          versionNo,
+          contentStructHash: normalized.contentStructHash,
+          fileBytesHash: normalized.fileBytesHash,
+          metadataHash: normalized.metadataHash,
+          refsHash,
+          envelope: {
+            path: input.path ?? null,
+            sessionId: input.sessionId ?? null,
+            toolName: input.toolName ?? null,
+            status: input.status ?? null,
+            charCount: normalized.charCount,
+          },
+        },
+        hashSchema,
+      ),
+      hashAlgo: hashSchema.hasher.algo,
+      hashSchemaVersion: hashSchema.version,
+    };
+
+    const references: ReferenceRecord[] = refs.map((ref) => ({
+      refId: crypto.randomUUID(),
+      fromVersionId: versionId,
+      fromPath: ref.fromPath,
+      targetObjectId: ref.targetObjectId,
+      targetVersionId: ref.targetVersionId ?? undefined,
+      targetObjectHash: ref.targetObjectHash ?? undefined,
+      targetFieldHashes:
+        ref.targetFieldHashesJson === null
+          ? undefined
+          : (JSON.parse(ref.targetFieldHashesJson) as Record<string, string>),
+      refKind: ref.refKind,
+      mode: ref.mode,
+      resolved: this.objects.has(ref.targetObjectId),
+      refMetadataJson: ref.refMetadataJson ?? undefined,
+    }));
+
+    const previousHead = {
+      currentVersionId: object.currentVersionId,
+      updatedSeq: object.updatedSeq,
+      updatedAt: object.updatedAt,
+    };
+    const headObject = object;
+
+    this.nextTxSeq += 1;
+    this.versions.set(versionId, record);
+    this.versionsByObject.set(input.objectId, [...history, record]);
+    const sameHash = this.versionsByObjectHash.get(record.objectHash) ?? [];
+    this.versionsByObjectHash.set(record.objectHash, [...sameHash, record]);
+    this.refsByVersion.set(versionId, references);
+    const newBlobHash =
+      normalized.fileBytesBlob && normalized.fileBytesHash && !this.blobs.has(normalized.fileBytesHash)
+        ? normalized.fileBytesHash
+        : null;
+    if (newBlobHash && normalized.fileBytesBlob) this.blobs.set(newBlobHash, normalized.fileBytesBlob);
+    this.idempotency.set(input.requestId, {
+      objectId: input.objectId,
+      versionId,
+      contentStructHash: normalized.contentStructHash,
+      fileBytesHash: normalized.fileBytesHash,
+    });
+    this.log.push({ objectType: input.objectType, record });
+    Object.assign(headObject, { currentVersionId: versionId, updatedSeq: txSeq, updatedAt: normalized.txTime });
+    if (previousHead.currentVersionId === null) this.resolveReferencesTo(input.objectId);
+
+    this.undo.push(() => {
+      this.nextTxSeq = txSeq;
+      this.versions.delete(versionId);
+      if (history.length > 0) this.versionsByObject.set(input.objectId, history);
+      else this.versionsByObject.delete(input.objectId);
+      if (sameHash.length > 0) this.versionsByObjectHash.set(record.objectHash, sameHash);
+      else this.versionsByObjectHash.delete(record.objectHash);
+      this.refsByVersion.delete(versionId);
+      if (newBlobHash) this.blobs.delete(newBlobHash);
+      this.idempotency.delete(input.requestId);
+      this.log.pop();
+      Object.assign(headObject, previousHead);
+    });
+
+    this.pendingChanges.push({ objectType: input.objectType, record });
+    return { ok: true, record, idempotentReplay: false };
+  }
+
+  private resolveReferencesTo(targetObjectId: string): void {
+    for (const [fromVersionId, references] of this.refsByVersion) {
+      const pending = (ref: ReferenceRecord) => !ref.resolved && ref.targetObjectId === targetObjectId;
+      if (!references.some(pending)) continue;
+      this.refsByVersion.set(
+        fromVersionId,
+        references.map((ref) => (pending(ref) ? { ...ref, resolved: true } : ref)),
+      );
+      this.undo.push(() => this.refsByVersion.set(fromVersionId, references));
+    }
+  }
+
+  /** `[reference, resolved target, next node]` for every reference leaving (`out`) or reaching (`in`) a version. */
+  private async referenceSteps(
+    versionId: string,
+    direction: 'out' | 'in',
+  ): Promise<Array<[ReferenceRecord, string | null, string | null]>> {
+    const steps: Array<[ReferenceRecord, string | null, string | null]> = [];
+    if (direction === 'out') {
+      for (const reference of this.refsByVersion.get(versionId) ?? []) {
+        const target = (await this.resolveReferenceAsOf(reference, AT_HEAD))?.versionId ?? null;
+        steps.push([reference, target, target]);
+      }
+      return steps;
+    }
+
+    const objectId = this.versions.get(versionId)?.objectId;
+    for (const reference of [...this.refsByVersion.values()].flat()) {
+      if (reference.targetObjectId !== objectId) continue;
+      if ((await this.resolveReferenceAsOf(reference, AT_HEAD))?.versionId !== versionId) continue;
+      steps.push([reference, versionId, reference.fromVersionId]);
+    }
+    return steps;
+  }
+
+  private latestInside(
+    objectId: string,
+    point: AsOfPoint,
+    predicate: (record: VersionRecord) => boolean,
+  ): VersionRecord | null {
+    const history = this.versionsByObject.get(objectId) ?? [];
+    let found: VersionRecord | null = null;
+    for (const record of history) {
+      if (isInsideAsOf(record, point) && predicate(record) && (!found || record.txSeq > found.txSeq)) found = record;
+    }
+    return found;
+  }
+
+  private async resolveReferenceAsOf(reference: ReferenceRecord, point: AsOfPoint): Promise<VersionRecord | null> {
+    if (reference.mode === 'dynamic') return this.getAsOf(reference.targetObjectId, point);
+
+    if (reference.targetVersionId !== undefined) {
+      const pinned = this.versions.get(reference.targetVersionId) ?? null;
+      if (!pinned || pinned.objectId !== reference.targetObjectId) return null;
+      if (!isInsideAsOf(pinned, point)) return null;
+      if (reference.targetObjectHash !== undefined && pinned.objectHash !== reference.targetObjectHash) return null;
+      return pinned;
+    }
+
+    if (reference.targetFieldHashes !== undefined) {
+      const anchors = reference.targetFieldHashes;
+      return this.latestInside(reference.targetObjectId, point, (record) =>
+        matchesFieldHashes(record.fieldHashesJson, anchors),
+      );
+    }
+
+    if (reference.targetObjectHash === undefined) return null;
+    const targetObjectHash = reference.targetObjectHash;
+    return this.latestInside(reference.targetObjectId, point, (record) => record.objectHash === targetObjectHash);
+  }
+}
+
+function assertOneOf(value: string, allowed: readonly string[], field: string): void {
+  if (!allowed.includes(value)) throw new Error(`invalid_${field}:${value}`);
+}
+
+function compareText(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
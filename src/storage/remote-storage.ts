@@ -0,0 +1,224 @@
+import { Agent, request as httpRequest } from 'node:http';
+import type {
+  AsOfPoint,
+  ChangeFeedPage,
+  ChangeFeedParams,
+  ListObjectsParams,
+  ObjectAttributeChange,
+  ObjectAttributes,
+  ObjectAttributesUpdate,
+  ObjectListPage,
+  PutVersionResult,
+  PutVersionsResult,
+  ReferenceGraph,
+  ReferenceMode,
+  ReferenceRecord,
+  SessionSnapshot,
+  StoragePort,
+  TraverseReferencesParams,
+  VersionRecord,
+  VersionWriteInput,
+} from './storage-port.js';
+import type { ListSessionsParams, SessionComparison, SessionListPage } from './session-catalogue.js';
+import { encodeRpcParams, type StorageRpcMethod, type StorageRpcResponse } from './storage-rpc.js';
+import type { StorageServerAddress } from './storage-server.js';
+import type { VersionDiff } from './version-diff.js';
+
+/**
+ * @impldoc Remote storage client
+ *
+ * `RemoteStorage` implements `StoragePort` by forwarding every call to a
+ * `StorageServer` at the given address, so a process can hand it to
+ * `SelfContextManager` (`options.storage`) in place of a local store. Calls
+ * share one keep-alive connection pool; `close()` releases it. A TCP address
+ * carries the listener's `token` (as returned by `StorageServer.listen` or
+ * printed by the daemon), sent as a bearer token.
+ *
+ * An error the server's storage threw is rethrown with the same message.
+ * Transport failures surface as the underlying socket error, and a reply that
+ * is not a JSON-RPC response as `storage_rpc_bad_response:<status>`. A call
+ * whose reply has not fully arrived within `timeoutMs` (default 30 s) is
+ * aborted and rejects with `storage_rpc_timeout:<method>:<timeoutMs>`; the
+ * server may still have applied a write, so callers retry with the same
+ * `requestId`.
+ */
+export interface RemoteStorageOptions {
+  timeoutMs?: number;
+}
+
+export class RemoteStorage implements StoragePort {
+  private readonly agent = new Agent({ keepAlive: true });
+  private readonly timeoutMs: number;
+  private nextId = 1;
+
+  constructor(
+    private readonly address: StorageServerAddress,
+    options: RemoteStorageOptions = {},
+  ) {
+    const timeoutMs = options.timeoutMs ?? 30_000;
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) throw new Error(`invalid_rpc_timeout:${timeoutMs}`);
+    this.timeoutMs = timeoutMs;
+  }
+
+  close(): void {
+    this.agent.destroy();
+  }
+
+  putVersion(input: VersionWriteInput): Promise<PutVersionResult> {
+    return this.call('putVersion', input);
+  }
+
+  putVersions(inputs: VersionWriteInput[]): Promise<PutVersionsResult> {
+    return this.call('putVersions', inputs);
+  }
+
+  getLatest(objectId: string): Promise<VersionRecord | null> {
+    return this.call('getLatest', objectId);
+  }
+
+  getHistory(objectId: string, order?: 'asc' | 'desc'): Promise<VersionRecord[]> {
+    return this.call('getHistory', objectId, order);
+  }
+
+  getVersion(versionId: string): Promise<VersionRecord | null> {
+    return this.call('getVersion', versionId);
+  }
+
+  getVersionsByObjectHash(objectHash: string): Promise<VersionRecord[]> {
+    return this.call('getVersionsByObjectHash', objectHash);
+  }
+
+  getVersionByFieldHashes(
+    objectId: string,
+    fieldHashes: Record<string, string>,
+    at?: AsOfPoint,
+  ): Promise<VersionRecord | null> {
+    return this.call('getVersionByFieldHashes', objectId, fieldHashes, at);
+  }
+
+  getAsOf(objectId: string, at: AsOfPoint): Promise<VersionRecord | null> {
+    return this.call('getAsOf', objectId, at);
+  }
+
+  getAsOfValidTime(objectId: string, validTime: string, at?: AsOfPoint): Promise<VersionRecord | null> {
+    return this.call('getAsOfValidTime', objectId, validTime, at);
+  }
+
+  getSessionAsOf(sessionObjectId: string, at: AsOfPoint): Promise<SessionSnapshot | null> {
+    return this.call('getSessionAsOf', sessionObjectId, at);
+  }
+
+  readChanges(params?: ChangeFeedParams): Promise<ChangeFeedPage> {
+    return this.call('readChanges', params);
+  }
+
+  listObjects(params?: ListObjectsParams): Promise<ObjectListPage> {
+    return this.call('listObjects', params);
+  }
+
+  listSessions(params?: ListSessionsParams): Promise<SessionListPage> {
+    return this.call('listSessions', params);
+  }
+
+  compareSessions(sessionObjectIdA: string, sessionObjectIdB: string): Promise<SessionComparison | null> {
+    return this.call('compareSessions', sessionObjectIdA, sessionObjectIdB);
+  }
+
+  getObjectAttributes(objectId: string): Promise<ObjectAttributes | null> {
+    return this.call('getObjectAttributes', objectId);
+  }
+
+  setObjectAttributes(objectId: string, update: ObjectAttributesUpdate): Promise<ObjectAttributes | null> {
+    return this.call('setObjectAttributes', objectId, update);
+  }
+
+  getObjectAttributeHistory(objectId: string): Promise<ObjectAttributeChange[]> {
+    return this.call('getObjectAttributeHistory', objectId);
+  }
+
+  queryReferences(params: Parameters<StoragePort['queryReferences']>[0]): Promise<ReferenceRecord[]> {
+    return this.call('queryReferences', params);
+  }
+
+  getReferrersByTargetVersion(
+    targetVersionId: string,
+    params?: { mode?: ReferenceMode; resolved?: boolean; limit?: number },
+  ): Promise<ReferenceRecord[]> {
+    return this.call('getReferrersByTargetVersion', targetVersionId, params);
+  }
+
+  getReferrersByTargetHash(
+    targetObjectHash: string,
+    params?: { mode?: ReferenceMode; resolved?: boolean; limit?: number },
+  ): Promise<ReferenceRecord[]> {
+    return this.call('getReferrersByTargetHash', targetObjectHash, params);
+  }
+
+  traverseReferences(params: TraverseReferencesParams): Promise<ReferenceGraph | null> {
+    return this.call('traverseReferences', params);
+  }
+
+  diffVersions(fromVersionId: string, toVersionId: string): Promise<VersionDiff | null> {
+    return this.call('diffVersions', fromVersionId, toVersionId);
+  }
+
+  private async call<T>(method: StorageRpcMethod, ...args: unknown[]): Promise<T> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params: encodeRpcParams(method, args) });
+    const { status, text } = await this.post(method, body);
+
+    let reply: StorageRpcResponse;
+    try {
+      reply = JSON.parse(text) as StorageRpcResponse;
+    } catch {
+      throw new Error(`storage_rpc_bad_response:${status}`);
+    }
+    if (reply === null || typeof reply !== 'object') throw new Error(`storage_rpc_bad_response:${status}`);
+    if ('error' in reply) throw new Error(reply.error.message);
+    if (!('result' in reply)) throw new Error(`storage_rpc_bad_response:${status}`);
+    return reply.result as T;
+  }
+
+  private post(method: StorageRpcMethod, body: string): Promise<{ status: number; text: string }> {
+    const target =
+      'socketPath' in this.address
+        ? { socketPath: this.address.socketPath }
+        : { host: this.address.host ?? '127.0.0.1', port: this.address.port };
+
+    return new Promise((resolve, reject) => {
+      const req = httpRequest(
+        {
+          ...target,
+          agent: this.agent,
+          method: 'POST',
+          path: '/',
+          headers: {
+            'content-type': 'application/json',
+            'content-length': Buffer.byteLength(body),
+            ...('token' in this.address && this.address.token ? { authorization: `Bearer ${this.address.token}` } : {}),
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => {
+            clearTimeout(timer);
+            resolve({ status: res.statusCode ?? 0, text: Buffer.concat(chunks).toString('utf8') });
+          });
+          res.on('error', (error) => {
+            clearTimeout(timer);
+            reject(error);
+          });
+        },
+      );
+      const timer = setTimeout(() => {
+        reject(new Error(`storage_rpc_timeout:${method}:${this.timeoutMs}`));
+        req.destroy();
+      }, this.timeoutMs);
+      req.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,191 @@
+import type { VersionRecord } from './storage-port.js';
+import { extractRefs, isRecord } from './version-codec.js';
+import type { SessionSetName } from './version-diff.js';
+
+/**
+ * @impldoc Session catalogue
+ *
+ * `listSessions` enumerates `session` objects by their HEAD version, ordered
+ * and paged by `objectId` exactly like `listObjects` (`cursor`, `limit`). Each
+ * `SessionSummary` carries the HEAD envelope (`versionId`, `versionNo`,
+ * `txSeq` / `txTime` of the last session write), the number of refs in each
+ * session set, and the chat behind `chat_ref`: its object id and the HEAD
+ * payload's `turn_count` (`null` when the chat has no version or no integer
+ * count).
+ *
+ * `compareSessions(a, b)` compares the working sets of two session HEADs. An
+ * object belongs to a working set when `active_set`, `inactive_set` or
+ * `pinned_set` references it; each entry lists the sets it appears in.
+ * - `shared`: objects in both working sets
+ * - `onlyInA` / `onlyInB`: objects in one working set only
+ * - `pinnedDifferences`: objects pinned in at least one session whose pinned
+ *   anchors differ; the side that does not pin the object has `null`
+ *
+ * All lists are ordered by `objectId`. Returns `null` when either session has
+ * no version; `compare_not_session:<objectId>` when either object is not a
+ * `session`.
+ */
+export interface ListSessionsParams {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SessionSummary {
+  objectId: string;
+  sessionId: string | null;
+  versionId: string;
+  versionNo: number;
+  txSeq: number;
+  txTime: string;
+  activeCount: number;
+  inactiveCount: number;
+  pinnedCount: number;
+  chatObjectId: string | null;
+  chatTurnCount: number | null;
+}
+
+export interface SessionListPage {
+  sessions: SessionSummary[];
+  cursor: string | null;
+}
+
+export interface PinnedAnchor {
+  targetVersionId?: string;
+  targetObjectHash?: string;
+  targetFieldHashes?: Record<string, string>;
+}
+
+export interface SessionMembership {
+  objectId: string;
+  sets: SessionSetName[];
+}
+
+export interface SharedSessionMembership {
+  objectId: string;
+  a: SessionSetName[];
+  b: SessionSetName[];
+}
+
+export interface PinnedDifference {
+  objectId: string;
+  a: PinnedAnchor[] | null;
+  b: PinnedAnchor[] | null;
+}
+
+export interface SessionComparison {
+  a: { objectId: string; versionId: string };
+  b: { objectId: string; versionId: string };
+  shared: SharedSessionMembership[];
+  onlyInA: SessionMembership[];
+  onlyInB: SessionMembership[];
+  pinnedDifferences: PinnedDifference[];
+}
+
+const SESSION_SETS: readonly SessionSetName[] = ['active_set', 'inactive_set', 'pinned_set'];
+
+interface WorkingSet {
+  sets: Map<string, SessionSetName[]>;
+  pinned: Map<string, PinnedAnchor[]>;
+}
+
+export function sessionChatObjectId(session: VersionRecord): string | null {
+  const refs = extractRefs('session', JSON.parse(session.contentStructJson));
+  return refs.find((ref) => ref.fromPath === '/chat_ref')?.targetObjectId ?? null;
+}
+
+export function summarizeSession(session: VersionRecord, chat: VersionRecord | null): SessionSummary {
+  const counts = { active_set: 0, inactive_set: 0, pinned_set: 0 };
+  for (const ref of extractRefs('session', JSON.parse(session.contentStructJson))) {
+    const name = sessionSetOf(ref.fromPath);
+    if (name) counts[name] += 1;
+  }
+
+  const chatPayload = chat ? (JSON.parse(chat.contentStructJson) as unknown) : null;
+  const turnCount = isRecord(chatPayload) ? chatPayload.turn_count : undefined;
+
+  return {
+    objectId: session.objectId,
+    sessionId: session.sessionId,
+    versionId: session.versionId,
+    versionNo: session.versionNo,
+    txSeq: session.txSeq,
+    txTime: session.txTime,
+    activeCount: counts.active_set,
+    inactiveCount: counts.inactive_set,
+    pinnedCount: counts.pinned_set,
+    chatObjectId: sessionChatObjectId(session),
+    chatTurnCount: Number.isInteger(turnCount) && (turnCount as number) >= 0 ? (turnCount as number) : null,
+  };
+}
+
+export function compareSessionRecords(a: VersionRecord, b: VersionRecord): SessionComparison {
+  const left = workingSet(a);
+  const right = workingSet(b);
+
+  const shared: SharedSessionMembership[] = [];
+  const onlyInA: SessionMembership[] = [];
+  const onlyInB: SessionMembership[] = [];
+  for (const objectId of sortedUnion(left.sets, right.sets)) {
+    const inA = left.sets.get(objectId);
+    const inB = right.sets.get(objectId);
+    if (inA && inB) shared.push({ objectId, a: inA, b: inB });
+    else if (inA) onlyInA.push({ objectId, sets: inA });
+    else onlyInB.push({ objectId, sets: inB! });
+  }
+
+  const pinnedDifferences: PinnedDifference[] = [];
+  for (const objectId of sortedUnion(left.pinned, right.pinned)) {
+    const inA = left.pinned.get(objectId) ?? null;
+    const inB = right.pinned.get(objectId) ?? null;
+    if (JSON.stringify(inA) !== JSON.stringify(inB)) pinnedDifferences.push({ objectId, a: inA, b: inB });
+  }
+
+  return {
+    a: { objectId: a.objectId, versionId: a.versionId },
+    b: { objectId: b.objectId, versionId: b.versionId },
+    shared,
+    onlyInA,
+    onlyInB,
+    pinnedDifferences,
+  };
+}
+
+function workingSet(session: VersionRecord): WorkingSet {
+  const working: WorkingSet = { sets: new Map(), pinned: new Map() };
+
+  for (const ref of extractRefs('session', JSON.parse(session.contentStructJson))) {
+    const name = sessionSetOf(ref.fromPath);
+    if (!name) continue;
+
+    const sets = working.sets.get(ref.targetObjectId) ?? [];
+    if (!sets.includes(name)) sets.push(name);
+    working.sets.set(ref.targetObjectId, sets);
+
+    if (ref.mode !== 'pinned') continue;
+    const anchor: PinnedAnchor = {};
+    if (ref.targetVersionId !== null) anchor.targetVersionId = ref.targetVersionId;
+    if (ref.targetObjectHash !== null) anchor.targetObjectHash = ref.targetObjectHash;
+    if (ref.targetFieldHashesJson !== null) anchor.targetFieldHashes = JSON.parse(ref.targetFieldHashesJson);
+    working.pinned.set(ref.targetObjectId, [...(working.pinned.get(ref.targetObjectId) ?? []), anchor]);
+  }
+
+  for (const sets of working.sets.values()) sets.sort((x, y) => SESSION_SETS.indexOf(x) - SESSION_SETS.indexOf(y));
+  for (const anchors of working.pinned.values()) {
+    anchors.sort((x, y) => JSON.stringify(x).localeCompare(JSON.stringify(y)));
+  }
+  return working;
+}
+
+function sessionSetOf(fromPath: string): SessionSetName | null {
+  const name = fromPath.split('/')[1] as SessionSetName;
+  return SESSION_SETS.includes(name) ? name : null;
+}
+
+function sortedUnion(left: Map<string, unknown>, right: Map<string, unknown>): string[] {
+  return [...new Set([...left.keys(), ...right.keys()])].sort(compareIds);
+}
+
+function compareIds(left: string, right: string): number {
+  if (left === right) return 0;
+  return left < right ? -1 : 1;
+}
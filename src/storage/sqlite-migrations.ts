@@ -0,0 +1,236 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { decodeContentDelta } from './text-delta.js';
+import { canonicalJson, computeFieldHashes } from './version-codec.js';
+import {
+  SQLITE_ATTRIBUTE_EVENTS_SQL,
+  SQLITE_BLOB_SQL,
+  SQLITE_BLOB_TRIGGER_SQL,
+  SQLITE_DELTA_SQL,
+  SQLITE_FIELD_HASH_REFERENCES_SQL,
+  SQLITE_FIELD_HASHES_SQL,
+  SQLITE_FTS_SQL,
+  SQLITE_INDEX_SQL,
+  SQLITE_OBJECT_HASH_INDEX_SQL,
+  SQLITE_RESOLVE_REFERENCES_SQL,
+  SQLITE_SCHEMA_SQL,
+  SQLITE_TOMBSTONE_SQL,
+  SQLITE_VALIDITY_SQL,
+} from './sqlite-schema.js';
+
+/**
+ * @impldoc SQLite schema migrations
+ *
+ * The schema version of a store is tracked in `PRAGMA user_version`. Schema
+ * changes are appended to `SQLITE_MIGRATIONS` as numbered steps; existing steps
+ * are never edited once released.
+ *
+ * On open, `runSqliteMigrations`:
+ * - refuses a DB whose `user_version` is newer than `SQLITE_SCHEMA_VERSION`
+ *   (`schema_too_new:<db>:<supported>`) before touching it
+ * - applies each pending step in order, each in its own `BEGIN IMMEDIATE`
+ *   transaction that also bumps `user_version`, so a failed step leaves the DB
+ *   at the previous version
+ * - re-reads `user_version` inside each transaction, so concurrent openers do
+ *   not apply a step twice
+ *
+ * Stores created before migrations were tracked have `user_version = 0` and
+ * already hold the core tables; step 1 uses `IF NOT EXISTS` throughout and
+ * adopts them unchanged.
+ */
+export interface SqliteMigration {
+  version: number;
+  name: string;
+  up(db: DatabaseSync): void;
+}
+
+export interface SqliteMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; name: string }>;
+}
+
+export const SQLITE_MIGRATIONS: readonly SqliteMigration[] = [
+  {
+    version: 1,
+    name: 'core_schema',
+    up: (db) => {
+      db.exec(SQLITE_SCHEMA_SQL);
+      db.exec(SQLITE_INDEX_SQL);
+    },
+  },
+  {
+    version: 2,
+    name: 'version_content_fts',
+    up: (db) => db.exec(SQLITE_FTS_SQL),
+  },
+  {
+    version: 3,
+    name: 'content_addressed_blobs',
+    up: moveInlineBlobsToBlobStore,
+  },
+  {
+    version: 4,
+    name: 'file_content_delta',
+    up: addContentDeltaColumns,
+  },
+  {
+    version: 5,
+    name: 'version_object_hash_index',
+    up: (db) => db.exec(SQLITE_OBJECT_HASH_INDEX_SQL),
+  },
+  {
+    version: 6,
+    name: 'reresolve_references',
+    up: (db) => db.exec(SQLITE_RESOLVE_REFERENCES_SQL),
+  },
+  {
+    version: 7,
+    name: 'object_attribute_events',
+    up: (db) => db.exec(SQLITE_ATTRIBUTE_EVENTS_SQL),
+  },
+  {
+    version: 8,
+    name: 'version_tombstones',
+    up: addTombstoneColumn,
+  },
+  {
+    version: 9,
+    name: 'version_validity',
+    up: addValidityColumns,
+  },
+  {
+    version: 10,
+    name: 'field_hash_anchors',
+    up: addFieldHashAnchors,
+  },
+];
+
+export const SQLITE_SCHEMA_VERSION = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+
+/**
+ * Step 3: copies each distinct inline `file_bytes_blob` into `blobs` with its
+ * reference count, then drops the inline column. The triggers are created
+ * after the backfill so existing rows are counted exactly once.
+ */
+function moveInlineBlobsToBlobStore(db: DatabaseSync): void {
+  const columns = db.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+  const hasInlineBlobs = columns.some((column) => column.name === 'file_bytes_blob');
+
+  db.exec(SQLITE_BLOB_SQL);
+  if (hasInlineBlobs) {
+    db.exec(`
+      INSERT INTO blobs (hash, bytes, byte_size, ref_count)
+      SELECT file_bytes_hash, file_bytes_blob, length(file_bytes_blob), COUNT(*)
+      FROM object_versions
+      WHERE file_bytes_hash IS NOT NULL
+      GROUP BY file_bytes_hash;
+
+      ALTER TABLE object_versions DROP COLUMN file_bytes_blob;
+    `);
+  }
+  db.exec(SQLITE_BLOB_TRIGGER_SQL);
+}
+
+/**
+ * Step 4: adds the delta columns unless a store adopted at `user_version = 0`
+ * already has them. Existing rows stay full rows.
+ */
+function addContentDeltaColumns(db: DatabaseSync): void {
+  const columns = db.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+  if (columns.some((column) => column.name === 'content_delta_base')) return;
+  db.exec(SQLITE_DELTA_SQL);
+}
+
+/** Step 8: adds `deleted` unless a store adopted at `user_version = 0` already has it. */
+function addTombstoneColumn(db: DatabaseSync): void {
+  const columns = db.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+  if (columns.some((column) => column.name === 'deleted')) return;
+  db.exec(SQLITE_TOMBSTONE_SQL);
+}
+
+/** Step 9: adds `valid_from` / `valid_to` unless a store adopted at `user_version = 0` already has them. */
+function addValidityColumns(db: DatabaseSync): void {
+  const columns = db.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+  if (columns.some((column) => column.name === 'valid_from')) return;
+  db.exec(SQLITE_VALIDITY_SQL);
+}
+
+/**
+ * Step 10: adds `field_hashes_json` and backfills it from each version's full
+ * payload (delta rows are decoded against their keyframe), then rebuilds
+ * `doc_references` with `target_field_hashes_json`. Each part is skipped when
+ * a store adopted at `user_version = 0` already has its column.
+ */
+function addFieldHashAnchors(db: DatabaseSync): void {
+  const versionColumns = db.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+  if (!versionColumns.some((column) => column.name === 'field_hashes_json')) {
+    db.exec(SQLITE_FIELD_HASHES_SQL);
+    const rows = db
+      .prepare(
+        `SELECT v.version_id, v.content_struct_json, v.content_delta_json, k.content_struct_json AS keyframe_json
+         FROM object_versions v
+         LEFT JOIN object_versions k ON k.version_id = v.content_delta_base`,
+      )
+      .all() as Array<{
+      version_id: string;
+      content_struct_json: string;
+      content_delta_json: string | null;
+      keyframe_json: string | null;
+    }>;
+    const update = db.prepare('UPDATE object_versions SET field_hashes_json = ? WHERE version_id = ?');
+    for (const row of rows) {
+      const contentStructJson =
+        row.content_delta_json === null || row.keyframe_json === null
+          ? row.content_struct_json
+          : decodeContentDelta(row.keyframe_json, row.content_struct_json, row.content_delta_json);
+      const fieldHashes = computeFieldHashes(JSON.parse(contentStructJson));
+      update.run(canonicalJson(fieldHashes, 'fieldHashes'), row.version_id);
+    }
+  }
+
+  const refColumns = db.prepare("PRAGMA table_info('doc_references')").all() as Array<{ name: string }>;
+  if (refColumns.some((column) => column.name === 'target_field_hashes_json')) return;
+  db.exec(SQLITE_FIELD_HASH_REFERENCES_SQL);
+  db.exec(SQLITE_INDEX_SQL);
+}
+
+export function readSchemaVersion(db: DatabaseSync): number {
+  return Number((db.prepare('PRAGMA user_version').get() as { user_version: number }).user_version);
+}
+
+export function assertSchemaSupported(db: DatabaseSync): void {
+  const version = readSchemaVersion(db);
+  if (version > SQLITE_SCHEMA_VERSION) throw new Error(`schema_too_new:${version}:${SQLITE_SCHEMA_VERSION}`);
+}
+
+export function runSqliteMigrations(
+  db: DatabaseSync,
+  migrations: readonly SqliteMigration[] = SQLITE_MIGRATIONS,
+): SqliteMigrationReport {
+  assertSchemaSupported(db);
+  const fromVersion = readSchemaVersion(db);
+  const applied: SqliteMigrationReport['applied'] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      if (readSchemaVersion(db) < migration.version) {
+        migration.up(db);
+        db.exec(`PRAGMA user_version = ${migration.version}`);
+        applied.push({ version: migration.version, name: migration.name });
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      try {
+        db.exec('ROLLBACK');
+      } catch {
+        // no-op
+      }
+      throw new Error(`migration_failed:${migration.version}:${migration.name}:${(error as Error).message}`);
+    }
+  }
+
+  return { fromVersion, toVersion: readSchemaVersion(db), applied };
+}
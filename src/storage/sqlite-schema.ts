@@ -13,6 +13,10 @@
  * Session identity is defended at the DB boundary with:
  * - a `session_id` CHECK constraint
  * - trigger `trg_session_version_requires_session_id`
+ *
+ * This is the step-1 baseline. File bytes were later moved out of
+ * `object_versions.file_bytes_blob` into the content-addressed `blobs` table
+ * (see `SQLITE_BLOB_SQL`); migration step 3 drops that column.
  */
 export const SQLITE_SCHEMA_SQL = `
 CREATE TABLE IF NOT EXISTS objects (
@@ -120,9 +124,6 @@ END;
  * - session/path/tool envelope filtering
  * - reference traversal by source, target, mode, and unresolved status
  * - idempotency lookups by request and object identity
- *
- * This is intentionally a minimal profile; features such as FTS and GC remain
- * out of scope for the current implementation.
  */
 export const SQLITE_INDEX_SQL = `
 CREATE INDEX IF NOT EXISTS idx_versions_object_seq_desc ON object_versions(object_id, version_no DESC);
@@ -141,3 +142,226 @@ CREATE INDEX IF NOT EXISTS idx_refs_resolved ON doc_references(resolved) WHERE r
 CREATE INDEX IF NOT EXISTS idx_objects_type ON objects(object_type);
 CREATE INDEX IF NOT EXISTS idx_idempotency_object ON write_idempotency(object_id);
 `;
+
+/**
+ * @impldoc SQLite content search table
+ *
+ * Full-text search over each version's `content` uses FTS5 table
+ * `version_content_fts`, keyed by `rowid = object_versions.tx_seq`. It holds
+ * one row per version whose `content_struct_json.content` is a string, so
+ * HEAD-only and historical searches share one index.
+ *
+ * Versions written before the table existed are backfilled when it is created;
+ * the backfill only inserts versions whose `tx_seq` has no FTS row yet.
+ */
+export const SQLITE_FTS_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS version_content_fts USING fts5(content, tokenize = 'unicode61');
+
+INSERT INTO version_content_fts (rowid, content)
+SELECT v.tx_seq, json_extract(v.content_struct_json, '$.content')
+FROM object_versions v
+WHERE json_type(v.content_struct_json, '$.content') = 'text'
+  AND NOT EXISTS (SELECT 1 FROM version_content_fts f WHERE f.rowid = v.tx_seq);
+`;
+
+/**
+ * @impldoc SQLite blob store
+ *
+ * File bytes are stored once per distinct content in `blobs`, keyed by
+ * `hash = object_versions.file_bytes_hash`. Versions with identical bytes (a
+ * watcher re-syncing an unchanged file, or two objects with the same bytes)
+ * share one row.
+ *
+ * `ref_count` is the number of `object_versions` rows naming the blob and is
+ * maintained by triggers, not by application code:
+ * - `trg_blob_requires_row` rejects a version whose `file_bytes_hash` has no
+ *   blob row (`missing_blob`), so writers insert the blob first
+ * - `trg_blob_ref_insert` / `trg_blob_ref_delete` adjust `ref_count`; a blob
+ *   whose count drops to zero is deleted with the last version naming it
+ */
+export const SQLITE_BLOB_SQL = `
+CREATE TABLE IF NOT EXISTS blobs (
+  hash                TEXT PRIMARY KEY,
+  bytes               BLOB NOT NULL,
+  byte_size           INTEGER NOT NULL,
+  ref_count           INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0)
+);
+`;
+
+export const SQLITE_BLOB_TRIGGER_SQL = `
+CREATE TRIGGER IF NOT EXISTS trg_blob_requires_row
+BEFORE INSERT ON object_versions
+FOR EACH ROW
+WHEN NEW.file_bytes_hash IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM blobs b WHERE b.hash = NEW.file_bytes_hash)
+BEGIN
+  SELECT RAISE(ABORT, 'missing_blob');
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_blob_ref_insert
+AFTER INSERT ON object_versions
+FOR EACH ROW
+WHEN NEW.file_bytes_hash IS NOT NULL
+BEGIN
+  UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.file_bytes_hash;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_blob_ref_delete
+AFTER DELETE ON object_versions
+FOR EACH ROW
+WHEN OLD.file_bytes_hash IS NOT NULL
+BEGIN
+  UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.file_bytes_hash;
+  DELETE FROM blobs WHERE hash = OLD.file_bytes_hash AND ref_count = 0;
+END;
+`;
+
+/**
+ * @impldoc SQLite content delta columns
+ *
+ * A delta-encoded version stores `content_struct_json` without its `content`
+ * key, `content_delta_json` holding a `TextDelta` (see `text-delta.ts`) and
+ * `content_delta_base` naming the keyframe version whose full `content` the
+ * delta applies to. Full rows (keyframes and every non-delta version) have
+ * both columns `NULL`.
+ *
+ * The foreign key keeps a keyframe from being deleted while a delta still
+ * depends on it; `idx_versions_delta_base` serves that check and GC.
+ */
+export const SQLITE_DELTA_SQL = `
+ALTER TABLE object_versions ADD COLUMN content_delta_base TEXT REFERENCES object_versions(version_id);
+ALTER TABLE object_versions ADD COLUMN content_delta_json TEXT
+  CHECK (content_delta_json IS NULL OR (json_valid(content_delta_json) AND content_delta_base IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_versions_delta_base ON object_versions(content_delta_base)
+  WHERE content_delta_base IS NOT NULL;
+`;
+
+/**
+ * @impldoc SQLite version lookup index
+ *
+ * `getVersion` is served by the `UNIQUE` constraint on `version_id`;
+ * `idx_versions_object_hash` serves `getVersionsByObjectHash`, so pinned-ref
+ * resolution is a point lookup regardless of history length.
+ */
+export const SQLITE_OBJECT_HASH_INDEX_SQL = `
+CREATE INDEX IF NOT EXISTS idx_versions_object_hash ON object_versions(object_hash);
+`;
+
+/**
+ * @impldoc SQLite reference re-resolution backfill
+ *
+ * `doc_references.resolved` records whether the target object exists. Writes
+ * now flip a target's unresolved refs when the target is created; stores
+ * written before that kept `resolved = 0` on refs whose targets appeared
+ * later. This backfill corrects them once. `resolved` is not part of
+ * `refs_hash`, so no hash changes.
+ */
+export const SQLITE_RESOLVE_REFERENCES_SQL = `
+UPDATE doc_references SET resolved = 1
+WHERE resolved = 0 AND target_object_id IN (SELECT object_id FROM objects);
+`;
+
+/**
+ * @impldoc SQLite object attribute audit trail
+ *
+ * `objects.locked` / `objects.nickname` hold the current attributes;
+ * `object_attribute_events` keeps one row per change with the resulting
+ * values, the writer and the wall-clock time, in `event_seq` order.
+ */
+export const SQLITE_ATTRIBUTE_EVENTS_SQL = `
+CREATE TABLE IF NOT EXISTS object_attribute_events (
+  event_seq   INTEGER PRIMARY KEY AUTOINCREMENT,
+  object_id   TEXT NOT NULL,
+  locked      INTEGER NOT NULL CHECK (locked IN (0, 1)),
+  nickname    TEXT,
+  writer_id   TEXT NOT NULL,
+  changed_at  TEXT NOT NULL,
+  FOREIGN KEY (object_id) REFERENCES objects(object_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attribute_events_object ON object_attribute_events(object_id, event_seq);
+`;
+
+/**
+ * @impldoc SQLite tombstone marker
+ *
+ * `object_versions.deleted` is `1` on tombstone versions. It is a typed
+ * envelope column like `path` or `status`: immutable per version and not a
+ * hash input. Whether an object is deleted is read from its HEAD row.
+ */
+export const SQLITE_TOMBSTONE_SQL = `
+ALTER TABLE object_versions ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0 CHECK (deleted IN (0, 1));
+`;
+
+/**
+ * @impldoc SQLite validity intervals
+ *
+ * `object_versions.valid_from` / `valid_to` hold a version's optional validity
+ * interval as canonical ISO-8601 UTC text, so lexical order is time order.
+ * Like `deleted` they are typed envelope columns, immutable per version and not
+ * hash inputs. An open interval's close is never written back: readers take
+ * the latest `valid_from` at or before the valid time. `idx_versions_validity`
+ * serves the per-object overlap check and valid-time lookups over versions
+ * that claim an interval.
+ */
+export const SQLITE_VALIDITY_SQL = `
+ALTER TABLE object_versions ADD COLUMN valid_from TEXT;
+ALTER TABLE object_versions ADD COLUMN valid_to TEXT CHECK (valid_to IS NULL OR (valid_from IS NOT NULL AND valid_to > valid_from));
+CREATE INDEX IF NOT EXISTS idx_versions_validity ON object_versions(object_id, valid_from) WHERE valid_from IS NOT NULL;
+`;
+
+/**
+ * @impldoc SQLite field-hash anchors
+ *
+ * `object_versions.field_hashes_json` holds each version's canonical
+ * `field_hash:<field>` map (see `computeFieldHashes`); like the other derived
+ * columns it is immutable per version and not an `object_hash` input.
+ *
+ * `doc_references.target_field_hashes_json` holds the anchors of a field-hash
+ * pin. A pinned row needs one anchor kind, and field anchors are exclusive with
+ * `target_version_id` / `target_object_hash`. SQLite cannot alter a CHECK, so
+ * `doc_references` is rebuilt as `SQLITE_FIELD_HASH_REFERENCES_SQL` and its
+ * rows copied across; the refs indexes are recreated from `SQLITE_INDEX_SQL`.
+ */
+export const SQLITE_FIELD_HASHES_SQL = `
+ALTER TABLE object_versions ADD COLUMN field_hashes_json TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(field_hashes_json));
+`;
+
+export const SQLITE_FIELD_HASH_REFERENCES_SQL = `
+CREATE TABLE doc_references_next (
+  ref_id                  TEXT PRIMARY KEY,
+
+  from_version_id         TEXT NOT NULL,
+  from_path               TEXT NOT NULL,
+
+  target_object_id        TEXT NOT NULL,
+  target_version_id       TEXT,
+  target_object_hash      TEXT,
+  target_field_hashes_json TEXT,
+
+  ref_kind                TEXT NOT NULL,
+  mode                    TEXT NOT NULL CHECK (mode IN ('dynamic', 'pinned')),
+  resolved                INTEGER NOT NULL CHECK (resolved IN (0,1)),
+  ref_metadata_json       TEXT,
+
+  CHECK (ref_metadata_json IS NULL OR json_valid(ref_metadata_json)),
+  CHECK (target_field_hashes_json IS NULL OR json_valid(target_field_hashes_json)),
+  CHECK (mode != 'pinned' OR target_version_id IS NOT NULL OR target_object_hash IS NOT NULL OR target_field_hashes_json IS NOT NULL),
+  CHECK (target_field_hashes_json IS NULL OR (mode = 'pinned' AND target_version_id IS NULL AND target_object_hash IS NULL)),
+
+  FOREIGN KEY (from_version_id) REFERENCES object_versions(version_id)
+);
+
+INSERT INTO doc_references_next (
+  ref_id, from_version_id, from_path, target_object_id, target_version_id, target_object_hash,
+  ref_kind, mode, resolved, ref_metadata_json
+)
+SELECT
+  ref_id, from_version_id, from_path, target_object_id, target_version_id, target_object_hash,
+  ref_kind, mode, resolved, ref_metadata_json
+FROM doc_references;
+
+DROP TABLE doc_references;
+ALTER TABLE doc_references_next RENAME TO doc_references;
+`;
@@ -1,22 +1,100 @@
-import { createHash, randomUUID } from 'node:crypto';
+import { randomUUID } from 'node:crypto';
 import { DatabaseSync } from 'node:sqlite';
-import { SQLITE_INDEX_SQL, SQLITE_SCHEMA_SQL } from './sqlite-schema.js';
+import { assertSchemaSupported, runSqliteMigrations, type SqliteMigrationReport } from './sqlite-migrations.js';
 import type {
+  AsOfPoint,
+  ChangeFeedEntry,
+  ChangeFeedPage,
+  ChangeListener,
+  ChangeFeedParams,
+  ListObjectsParams,
+  ObjectAttributeChange,
+  ObjectAttributes,
+  ObjectAttributesUpdate,
+  ObjectHeadSummary,
+  ObjectListPage,
   ObjectType,
+  PutVersionResult,
+  PutVersionsResult,
+  ReferenceGraph,
+  ReferenceGraphEdge,
+  ReferenceGraphNode,
   ReferenceMode,
   ReferenceRecord,
+  ResolvedReferenceRecord,
+  SessionSnapshot,
   StoragePort,
+  TraverseReferencesParams,
   VersionRecord,
   VersionWriteInput,
 } from './storage-port.js';
+import {
+  bundledRefs,
+  bundleVersionToWriteInput,
+  parseStoreBundle,
+  serializeStoreBundle,
+  STORE_BUNDLE_FORMAT,
+  STORE_BUNDLE_FORMAT_VERSION,
+  verifyStoreBundle,
+  type BundleBlobLine,
+  type BundleObjectLine,
+  type BundleReferenceLine,
+  type BundleVersionLine,
+  type StoreBundleFilter,
+  type StoreBundleImportResult,
+} from './store-bundle.js';
+import {
+  compareSessionRecords,
+  sessionChatObjectId,
+  summarizeSession,
+  type ListSessionsParams,
+  type SessionComparison,
+  type SessionListPage,
+  type SessionSummary,
+} from './session-catalogue.js';
+import { decodeContentDelta, encodeContentDelta } from './text-delta.js';
+import { diffVersionRecords, type VersionDiff } from './version-diff.js';
+import {
+  canonicalJson,
+  checkVersionHashes,
+  ensureString,
+  extractRefs,
+  hashObject,
+  hashRefs,
+  normalizeHashingOptions,
+  parseFieldHashAnchors,
+  resolveHashSchema,
+  type HashingOptions,
+  type HashSchema,
+  type VersionHashing,
+  type RefDraft,
+  type VersionHashIssue,
+} from './version-codec.js';
+import {
+  abortedBatch,
+  computeIdempotencyFingerprint,
+  isInsideAsOf,
+  normalizeAsOfPoint,
+  normalizeAttributesUpdate,
+  normalizeLimit,
+  normalizeListObjectsParams,
+  normalizePutInput,
+  normalizeTraverseParams,
+  normalizeValidTime,
+  replayMarkersMatch,
+  sortReferenceGraph,
+  validateWriteInput,
+} from './version-write.js';
 
 type Prepared = ReturnType<DatabaseSync['prepare']>;
 type SqlArg = string | number | Uint8Array | null;
 
-type PutResult =
-  | { ok: true; record: VersionRecord; idempotentReplay: boolean }
-  | { ok: false; validation: true; reason: 'invalid_session_id' }
-  | { ok: false; conflict: true; reason: 'version_conflict' | 'idempotency_mismatch' };
+type PutResult = PutVersionResult;
+
+/** Preserved identity, hash schema and stored refs for versions replayed from another store (bundle import). */
+type VersionPlacement = { versionId: string; versionNo: number; hashSchema: HashSchema; refs: RefDraft[] };
+
+type WriteOutcome = Exclude<PutResult, { validation: true }>;
 
 type ObjectRow = { object_type: ObjectType; current_version_id: string | null };
 type IdemRow = { object_id: string; version_id: string; content_struct_hash: string; file_bytes_hash: string | null };
@@ -36,13 +114,60 @@ type VersionRow = {
   tool_name: string | null;
   status: string | null;
   char_count: number | null;
+  deleted: number;
+  valid_from: string | null;
+  valid_to: string | null;
   metadata_json: string;
+  field_hashes_json: string;
   content_struct_hash: string;
   metadata_hash: string;
   refs_hash: string;
   object_hash: string;
+  hash_algo: string;
+  hash_schema_version: number;
+  content_delta_base: string | null;
+  content_delta_json: string | null;
 };
 
+type ChangeRow = VersionRow & { object_type: ObjectType };
+
+type ObjectHeadRow = {
+  object_id: string;
+  object_type: ObjectType;
+  locked: number;
+  nickname: string | null;
+  version_id: string;
+  version_no: number;
+  tx_seq: number;
+  tx_time: string;
+  path: string | null;
+  session_id: string | null;
+  tool_name: string | null;
+  status: string | null;
+  char_count: number | null;
+  object_hash: string;
+  deleted: number;
+};
+
+type AttributeEventRow = {
+  event_seq: number;
+  object_id: string;
+  locked: number;
+  nickname: string | null;
+  writer_id: string;
+  changed_at: string;
+};
+
+type FullObjectRow = {
+  object_id: string;
+  object_type: ObjectType;
+  locked: number;
+  nickname: string | null;
+  current_version_id: string | null;
+};
+
+type ExportVersionRow = VersionRow & { file_bytes: Uint8Array | null };
+
 type RefRow = {
   ref_id: string;
   from_version_id: string;
@@ -50,22 +175,208 @@ type RefRow = {
   target_object_id: string;
   target_version_id: string | null;
   target_object_hash: string | null;
+  target_field_hashes_json: string | null;
   ref_kind: string;
   mode: ReferenceMode;
   resolved: 0 | 1;
   ref_metadata_json: string | null;
 };
 
-type RefDraft = {
-  fromPath: string;
-  targetObjectId: string;
-  targetVersionId: string | null;
-  targetObjectHash: string | null;
-  refKind: string;
-  mode: ReferenceMode;
-  refMetadataJson: string | null;
+type WalkRow = Partial<RefRow> & {
+  walk_node_id: string | null;
+  walk_resolved_id: string | null;
+  walk_depth: number;
+  node_object_id: string | null;
+  node_object_type: ObjectType | null;
+  node_version_no: number | null;
+  node_head_id: string | null;
 };
 
+type SearchRow = {
+  tx_seq: number;
+  version_id: string;
+  object_id: string;
+  object_type: ObjectType;
+  version_no: number;
+  path: string | null;
+  session_id: string | null;
+  is_head: 0 | 1;
+  rank: number;
+  snippet: string;
+};
+
+/**
+ * @impldoc Content search hits
+ *
+ * `ContentSearchHit` is one ranked FTS5 match over a version's `content`.
+ * `rank` is the FTS5 `bm25()` score (lower is a better match) and `snippet`
+ * marks matched terms with `[` / `]`.
+ */
+export interface ContentSearchHit {
+  txSeq: number;
+  versionId: string;
+  objectId: string;
+  objectType: ObjectType;
+  versionNo: number;
+  path: string | null;
+  sessionId: string | null;
+  isHead: boolean;
+  rank: number;
+  snippet: string;
+}
+
+export interface ContentSearchOptions {
+  objectType?: ObjectType;
+  sessionId?: string;
+  headOnly?: boolean;
+  deleted?: boolean;
+  limit?: number;
+}
+
+type GcCandidateRow = {
+  tx_seq: number;
+  version_id: string;
+  file_bytes_hash: string | null;
+};
+
+/**
+ * @impldoc GC retention policy
+ *
+ * A version is a GC candidate only when it is not its object's HEAD, is not
+ * the target of any pinned `doc_references` row (by `target_version_id`, by
+ * `target_object_id` + `target_object_hash`, or a version of `target_object_id`
+ * matching every `target_field_hashes_json` entry), is not the keyframe of a
+ * delta-encoded version, does not define a valid-time interval, and falls
+ * outside every retention window set on the policy:
+ * - `keepVersionsPerObject`: the newest N versions of each object are kept
+ * - `retainSinceTxSeq`: versions with `tx_seq >= retainSinceTxSeq` are kept
+ * - `retainSinceTxTime`: versions with `tx_time >= retainSinceTxTime` are kept
+ *
+ * Versions with a `valid_from` are kept because an open interval is closed
+ * by the next later `validFrom` of its object: pruning one would change what
+ * `getAsOfValidTime` answers for the versions around it.
+ *
+ * `objectTypes` narrows the pass to the listed object types.
+ */
+export interface GcPolicy {
+  keepVersionsPerObject?: number;
+  retainSinceTxSeq?: number;
+  retainSinceTxTime?: string;
+  objectTypes?: ObjectType[];
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  prunedVersionIds: string[];
+  rows: {
+    objectVersions: number;
+    docReferences: number;
+    versionContentFts: number;
+    blobs: number;
+  };
+  blobBytes: number;
+}
+
+/**
+ * @impldoc SQLite integrity verification
+ *
+ * `verifyIntegrity` walks every `object_versions` row in `tx_seq` order and
+ * recomputes its hashes from stored state only (`checkVersionHashes`):
+ * `content_struct_hash`, `file_bytes_hash` from the version's `blobs` row,
+ * `metadata_hash`, `refs_hash` from that version's `doc_references` rows and
+ * `object_hash` from the preimage of its `hash_schema_version`, each with the
+ * hasher named by its `hash_algo` (see "Hash schemas"), and `field_hashes_json`
+ * from the decoded payload. It then checks that every
+ * `objects.current_version_id` names the version with the highest
+ * `version_no` (`current_version_id` issues carry `versionId: null`).
+ *
+ * It is read-only and reports every discrepancy instead of stopping at the
+ * first one; `ok` is `true` only when `issues` is empty.
+ */
+export type IntegrityIssue =
+  | VersionHashIssue
+  | { versionId: null; objectId: string; check: 'current_version_id'; stored: string | null; computed: string | null };
+
+export interface IntegrityReport {
+  ok: boolean;
+  checkedObjects: number;
+  checkedVersions: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * @impldoc SQLite delta encoding
+ *
+ * With `deltaEncoding` set, a new `file` version whose `content` is a string is
+ * stored as a line delta against the object's latest keyframe (a full row)
+ * instead of in full. A version is written as a new keyframe when the object
+ * has no keyframe with string `content`, when it is `keyframeInterval` or more
+ * versions past the latest keyframe, or when the delta would not be smaller
+ * than the content.
+ *
+ * Encoding only changes how a row is stored. Hashes, FTS rows and the change
+ * feed are computed from the full canonical JSON, and every read
+ * (`getLatest`, `getHistory`, as-of reads, `readChanges`, bundle export,
+ * `verifyIntegrity`) reconstructs it. A store opened without `deltaEncoding`
+ * still reads delta rows and simply writes full rows. GC never prunes a
+ * keyframe that a remaining delta depends on.
+ */
+export interface DeltaEncodingOptions {
+  /** Maximum versions between keyframes of one object (default 16). */
+  keyframeInterval?: number;
+}
+
+/**
+ * @impldoc SQLite concurrent writers
+ *
+ * Several processes may open the same DB file. Three options govern how a
+ * writer behaves when another connection holds the write lock:
+ * - `journalMode` sets `PRAGMA journal_mode` on open; `'wal'` lets readers run
+ *   alongside the single writer (an in-memory DB stays in `memory` mode)
+ * - `busyTimeoutMs` sets `PRAGMA busy_timeout`, how long SQLite itself waits
+ *   for a lock before failing with `SQLITE_BUSY` (default `0`)
+ * - `retry` re-runs a write transaction that still failed with `SQLITE_BUSY`,
+ *   up to `maxAttempts` attempts in total (default `1`, no retry), sleeping an
+ *   exponential backoff with jitter between attempts, starting at
+ *   `initialDelayMs` and capped at `maxDelayMs`
+ *
+ * A failed attempt is rolled back before the next one starts, and each attempt
+ * runs the whole transaction again, idempotency lookup first. A write whose
+ * `requestId` another process committed in the meantime is therefore answered
+ * as an idempotent replay rather than written twice. Other errors are never
+ * retried.
+ */
+export type SqliteJournalMode = 'delete' | 'truncate' | 'persist' | 'memory' | 'wal';
+
+export interface SqliteRetryOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface SqliteStorageOptions {
+  path?: string;
+  migrate?: boolean;
+  deltaEncoding?: DeltaEncodingOptions;
+  journalMode?: SqliteJournalMode;
+  busyTimeoutMs?: number;
+  retry?: SqliteRetryOptions;
+  hashing?: HashingOptions;
+}
+
+const DEFAULT_KEYFRAME_INTERVAL = 16;
+const JOURNAL_MODES: readonly SqliteJournalMode[] = ['delete', 'truncate', 'persist', 'memory', 'wal'];
+const DEFAULT_RETRY: Required<SqliteRetryOptions> = { maxAttempts: 1, initialDelayMs: 10, maxDelayMs: 500 };
+const SQLITE_BUSY = 5;
+
+/** SQL predicate: version alias `version` carries every `field_hash:*` entry of the JSON object `anchors`. */
+function fieldHashesMatchSql(version: string, anchors: string): string {
+  return (
+    `NOT EXISTS (SELECT 1 FROM json_each(${anchors}) fa WHERE NOT EXISTS ` +
+    `(SELECT 1 FROM json_each(${version}.field_hashes_json) fh WHERE fh.key = fa.key AND fh.value = fa.value))`
+  );
+}
+
 const SQL = {
   idempotencyByRequest:
     'SELECT object_id, version_id, content_struct_hash, file_bytes_hash FROM write_idempotency WHERE request_id = ?',
@@ -74,11 +385,17 @@ const SQL = {
   objectById: 'SELECT object_type, current_version_id FROM objects WHERE object_id = ?',
   nextVersionNo: 'SELECT COALESCE(MAX(version_no), 0) + 1 AS next_version_no FROM object_versions WHERE object_id = ?',
   insertVersion:
-    "INSERT INTO object_versions (version_id, object_id, version_no, tx_time, writer_id, writer_kind, write_reason, content_struct_json, file_bytes_blob, path, session_id, tool_name, status, char_count, metadata_json, content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash, hash_algo, hash_schema_version) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'sha256', 1)",
+    "INSERT INTO object_versions (version_id, object_id, version_no, tx_time, writer_id, writer_kind, write_reason, content_struct_json, content_delta_base, content_delta_json, path, session_id, tool_name, status, char_count, metadata_json, field_hashes_json, content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash, hash_algo, hash_schema_version, deleted, valid_from, valid_to) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+  insertBlobIfMissing:
+    'INSERT INTO blobs (hash, bytes, byte_size, ref_count) VALUES (?, ?, ?, 0) ON CONFLICT(hash) DO NOTHING',
+  blobByHash: 'SELECT hash, byte_size, ref_count FROM blobs WHERE hash = ?',
+  latestKeyframe:
+    'SELECT version_id, version_no, content_struct_json FROM object_versions WHERE object_id = ? AND content_delta_base IS NULL ORDER BY version_no DESC LIMIT 1',
+  keyframeContent: 'SELECT content_struct_json FROM object_versions WHERE version_id = ?',
   updateObjectHead:
     'UPDATE objects SET current_version_id = ?, updated_seq = ?, updated_at = ?, created_seq = CASE WHEN created_seq = 0 THEN ? ELSE created_seq END, created_at = CASE WHEN created_seq = 0 THEN ? ELSE created_at END WHERE object_id = ?',
   insertRef:
-    'INSERT INTO doc_references (ref_id, from_version_id, from_path, target_object_id, target_version_id, target_object_hash, ref_kind, mode, resolved, ref_metadata_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    'INSERT INTO doc_references (ref_id, from_version_id, from_path, target_object_id, target_version_id, target_object_hash, target_field_hashes_json, ref_kind, mode, resolved, ref_metadata_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
   insertIdempotency:
     'INSERT INTO write_idempotency (request_id, object_id, version_id, content_struct_hash, file_bytes_hash, created_seq, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
   versionById: 'SELECT * FROM object_versions WHERE version_id = ?',
@@ -86,7 +403,49 @@ const SQL = {
     'SELECT v.* FROM objects o JOIN object_versions v ON v.version_id = o.current_version_id WHERE o.object_id = ?',
   historyAsc: 'SELECT * FROM object_versions WHERE object_id = ? ORDER BY version_no ASC',
   historyDesc: 'SELECT * FROM object_versions WHERE object_id = ? ORDER BY version_no DESC',
+  versionsByObjectHash: 'SELECT * FROM object_versions WHERE object_hash = ? ORDER BY tx_seq ASC',
   objectExists: 'SELECT 1 AS ok FROM objects WHERE object_id = ? LIMIT 1',
+  resolveReferencesTo: 'UPDATE doc_references SET resolved = 1 WHERE resolved = 0 AND target_object_id = ?',
+  insertContentFts: 'INSERT INTO version_content_fts (rowid, content) VALUES (?, ?)',
+  countRefsFromVersion: 'SELECT COUNT(*) AS n FROM doc_references WHERE from_version_id = ?',
+  countContentFts: 'SELECT COUNT(*) AS n FROM version_content_fts WHERE rowid = ?',
+  deleteRefsFromVersion: 'DELETE FROM doc_references WHERE from_version_id = ?',
+  refsByFromVersion: 'SELECT * FROM doc_references WHERE from_version_id = ?',
+  deleteContentFts: 'DELETE FROM version_content_fts WHERE rowid = ?',
+  deleteVersion: 'DELETE FROM object_versions WHERE version_id = ?',
+  allObjectIds: 'SELECT object_id FROM objects ORDER BY object_id ASC',
+  objectIdsBySession: 'SELECT DISTINCT object_id FROM object_versions WHERE session_id = ?',
+  refTargetsFromObject:
+    'SELECT DISTINCT r.target_object_id FROM doc_references r JOIN object_versions v ON v.version_id = r.from_version_id WHERE v.object_id = ?',
+  fullObjectById: 'SELECT * FROM objects WHERE object_id = ?',
+  updateObjectAttributes: 'UPDATE objects SET locked = ?, nickname = ? WHERE object_id = ?',
+  insertAttributeEvent:
+    'INSERT INTO object_attribute_events (object_id, locked, nickname, writer_id, changed_at) VALUES (?, ?, ?, ?, ?)',
+  attributeEventsByObject: 'SELECT * FROM object_attribute_events WHERE object_id = ? ORDER BY event_seq ASC',
+  exportVersionsByObject:
+    'SELECT v.*, b.bytes AS file_bytes FROM object_versions v LEFT JOIN blobs b ON b.hash = v.file_bytes_hash WHERE v.object_id = ? ORDER BY v.tx_seq ASC',
+  integrityVersions:
+    'SELECT v.*, b.bytes AS file_bytes FROM object_versions v LEFT JOIN blobs b ON b.hash = v.file_bytes_hash ORDER BY v.tx_seq ASC',
+  integrityHeads: `
+    SELECT o.object_id, o.current_version_id,
+      (SELECT v.version_id FROM object_versions v WHERE v.object_id = o.object_id ORDER BY v.version_no DESC LIMIT 1) AS head_version_id
+    FROM objects o
+    ORDER BY o.object_id ASC
+  `,
+  validityOverlap:
+    'SELECT 1 AS ok FROM object_versions WHERE object_id = ? AND (valid_from = ? OR (valid_from < ? AND valid_to > ?) OR (valid_from > ? AND valid_from < ?)) LIMIT 1',
+  validAtBySeq:
+    'SELECT * FROM (SELECT * FROM object_versions WHERE object_id = ? AND valid_from <= ? AND tx_seq <= ? ORDER BY valid_from DESC LIMIT 1) WHERE valid_to IS NULL OR valid_to > ?',
+  validAtByTime:
+    'SELECT * FROM (SELECT * FROM object_versions WHERE object_id = ? AND valid_from <= ? AND tx_time <= ? ORDER BY valid_from DESC LIMIT 1) WHERE valid_to IS NULL OR valid_to > ?',
+  asOfBySeq: 'SELECT * FROM object_versions WHERE object_id = ? AND tx_seq <= ? ORDER BY tx_seq DESC LIMIT 1',
+  asOfByTime: 'SELECT * FROM object_versions WHERE object_id = ? AND tx_time <= ? ORDER BY tx_seq DESC LIMIT 1',
+  asOfByHashAndSeq:
+    'SELECT * FROM object_versions WHERE object_id = ? AND object_hash = ? AND tx_seq <= ? ORDER BY tx_seq DESC LIMIT 1',
+  asOfByHashAndTime:
+    'SELECT * FROM object_versions WHERE object_id = ? AND object_hash = ? AND tx_time <= ? ORDER BY tx_seq DESC LIMIT 1',
+  asOfByFieldHashesAndSeq: `SELECT v.* FROM object_versions v WHERE v.object_id = ? AND v.tx_seq <= ? AND ${fieldHashesMatchSql('v', '?')} ORDER BY v.tx_seq DESC LIMIT 1`,
+  asOfByFieldHashesAndTime: `SELECT v.* FROM object_versions v WHERE v.object_id = ? AND v.tx_time <= ? AND ${fieldHashesMatchSql('v', '?')} ORDER BY v.tx_seq DESC LIMIT 1`,
 } as const;
 
 /**
@@ -98,25 +457,61 @@ const SQL = {
  * - one schema for file/toolcall/chat/session/system-prompt objects
  * - immutable version rows with per-object `version_no` and global `tx_seq`
  * - explicit reference extraction/storage from structured payload refs
- * - unresolved references are stored rather than rejected
+ * - unresolved references are stored rather than rejected, and flip to resolved
+ *   when their target object receives its first version
  * - object/session separation happens through object identity inside a shared DB
+ * - FTS5 content search kept in sync inside the `putVersion` transaction
+ * - file bytes deduplicated into the content-addressed, refcounted `blobs` table
+ * - optional keyframe + line-delta storage of `file` content (`deltaEncoding`)
+ * - a `tx_seq`-keyed change feed plus in-process post-commit subscriptions
  *
- * This class owns SQLite migration, transactional writes, and query methods. It
- * does not define runtime context assembly policy.
+ * This class owns SQLite migration (see `sqlite-migrations.ts`), transactional
+ * writes, and query methods. It does not define runtime context assembly
+ * policy.
  */
 export class SqliteStorage implements StoragePort {
   private readonly db: DatabaseSync;
   private readonly cache = new Map<string, Prepared>();
+  private readonly listeners = new Set<ChangeListener>();
+  private pendingChanges: ChangeFeedEntry[] = [];
+
+  /** Migrations applied when this instance opened the DB (`null` with `migrate: false`). */
+  readonly migrationReport: SqliteMigrationReport | null = null;
+
+  private readonly keyframeInterval: number | null;
+  private readonly retry: Required<SqliteRetryOptions>;
+  private readonly hashing: VersionHashing;
+
+  constructor(options: SqliteStorageOptions = {}) {
+    this.keyframeInterval = options.deltaEncoding
+      ? (options.deltaEncoding.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL)
+      : null;
+    if (this.keyframeInterval !== null && (!Number.isInteger(this.keyframeInterval) || this.keyframeInterval < 1)) {
+      throw new Error(`invalid_delta_encoding:keyframeInterval:${this.keyframeInterval}`);
+    }
+    this.retry = normalizeRetryOptions(options.retry);
+    this.hashing = normalizeHashingOptions(options.hashing);
+    const busyTimeoutMs = options.busyTimeoutMs ?? 0;
+    if (!Number.isInteger(busyTimeoutMs) || busyTimeoutMs < 0) throw new Error(`invalid_busy_timeout:${busyTimeoutMs}`);
+    if (options.journalMode !== undefined && !JOURNAL_MODES.includes(options.journalMode)) {
+      throw new Error(`invalid_journal_mode:${String(options.journalMode)}`);
+    }
 
-  constructor(options: { path?: string; migrate?: boolean } = {}) {
     this.db = new DatabaseSync(options.path ?? ':memory:');
     this.db.exec('PRAGMA foreign_keys = ON;');
-    if (options.migrate ?? true) this.migrate();
+    try {
+      this.db.exec(`PRAGMA busy_timeout = ${busyTimeoutMs}`);
+      if (options.journalMode) this.db.exec(`PRAGMA journal_mode = ${options.journalMode}`);
+      if (options.migrate ?? true) this.migrationReport = this.migrate();
+      else assertSchemaSupported(this.db);
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
   }
 
-  migrate(): void {
-    this.db.exec(SQLITE_SCHEMA_SQL);
-    this.db.exec(SQLITE_INDEX_SQL);
+  migrate(): SqliteMigrationReport {
+    return runSqliteMigrations(this.db);
   }
 
   close(): void {
@@ -128,150 +523,414 @@ export class SqliteStorage implements StoragePort {
    * @impldoc SQLite `putVersion` transaction ordering
    *
    * Current write ordering is deliberate:
-   * 1. reject invalid session identity before transactional work
+   * 1. reject invalid session identity or content struct before transactional work
    * 2. resolve request idempotency before optimistic head conflict checks
    * 3. ensure the object row exists and object type matches
    * 4. allocate the next per-object version number
-   * 5. insert the immutable version row and update object HEAD
-   * 6. extract/store explicit refs for the new version
-   * 7. persist the idempotency record
+   * 5. store file bytes in `blobs` unless that hash is already stored, then
+   *    insert the immutable version row and update object HEAD
+   * 6. extract/store explicit refs for the new version; when this is the
+   *    object's first version, flip earlier `resolved = 0` refs that target it
+   * 7. index string `content` into `version_content_fts`
+   * 8. persist the idempotency record
    *
    * This ordering preserves the intended difference between validation failure,
    * idempotent replay, and optimistic conflict.
    */
   async putVersion(input: VersionWriteInput): Promise<PutResult> {
-    if (isInvalidSessionIdentity(input)) {
-      return { ok: false, validation: true, reason: 'invalid_session_id' };
-    }
+    const invalid = validateWriteInput(input);
+    if (invalid) return invalid;
 
     ensureString(input.requestId, 'requestId', true);
     ensureString(input.objectId, 'objectId', true);
-    const txTime = input.txTime ?? new Date().toISOString();
 
-    return this.tx(() => {
-      const idem = this.stmt(SQL.idempotencyByRequest).get(input.requestId) as IdemRow | undefined;
-      if (idem) {
-        const fingerprint = computeIdempotencyFingerprint(input);
-        const matches =
-          idem.object_id === input.objectId &&
-          idem.content_struct_hash === fingerprint.contentStructHash &&
-          (idem.file_bytes_hash ?? null) === fingerprint.fileBytesHash;
-
-        if (!matches) return { ok: false, conflict: true, reason: 'idempotency_mismatch' } as const;
-
-        const replay = this.fetchVersion(idem.version_id);
-        if (!replay) throw new Error(`idempotency_missing_version:${idem.version_id}`);
-        return { ok: true, record: replay, idempotentReplay: true } as const;
-      }
+    return this.tx(
+      () => this.writeVersionInTx(input),
+      (result) => result.ok,
+    );
+  }
 
-      this.stmt(SQL.insertObjectIfMissing).run(input.objectId, input.objectType, txTime, txTime);
+  async putVersions(inputs: VersionWriteInput[]): Promise<PutVersionsResult> {
+    for (const input of inputs) {
+      ensureString(input.requestId, 'requestId', true);
+      ensureString(input.objectId, 'objectId', true);
+    }
 
-      const objectRow = this.stmt(SQL.objectById).get(input.objectId) as ObjectRow | undefined;
-      if (!objectRow) throw new Error(`missing_object_row:${input.objectId}`);
-      if (objectRow.object_type !== input.objectType) {
-        throw new Error(`object_type_mismatch:${input.objectId}:${objectRow.object_type}:${input.objectType}`);
-      }
-      if (
-        input.expectedCurrentVersionId !== undefined &&
-        input.expectedCurrentVersionId !== objectRow.current_version_id
-      ) {
-        return { ok: false, conflict: true, reason: 'version_conflict' } as const;
-      }
+    for (const [index, input] of inputs.entries()) {
+      const invalid = validateWriteInput(input);
+      if (invalid) return abortedBatch(inputs.length, index, invalid);
+    }
 
-      const versionNo = Number(
-        (this.stmt(SQL.nextVersionNo).get(input.objectId) as { next_version_no: number }).next_version_no,
-      );
+    return this.tx<PutVersionsResult>(
+      () => {
+        const results: Array<Extract<PutResult, { ok: true }>> = [];
+        for (const [index, input] of inputs.entries()) {
+          const result = this.writeVersionInTx(input);
+          if (!result.ok) return abortedBatch(inputs.length, index, result);
+          results.push(result);
+        }
+        return { ok: true, results };
+      },
+      (result) => result.ok,
+    );
+  }
 
-      const normalized = normalizePutInput(input, txTime);
-      const refs = extractRefs(input.objectType, input.contentStruct);
-      const refsHash = hashRefs(refs);
+  async getLatest(objectId: string): Promise<VersionRecord | null> {
+    const row = this.stmt(SQL.latestByObject).get(objectId) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
 
-      const versionId = randomUUID();
-      const resolvedRefs = refs.map((ref) => ({ ...ref, resolved: this.objectExists(ref.targetObjectId) }));
+  async getHistory(objectId: string, order: 'asc' | 'desc' = 'desc'): Promise<VersionRecord[]> {
+    const rows = this.stmt(order === 'asc' ? SQL.historyAsc : SQL.historyDesc).all(objectId) as VersionRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
 
-      const objectHash = hashObject({
-        objectId: input.objectId,
-        versionNo,
-        contentStructHash: normalized.contentStructHash,
-        fileBytesHash: normalized.fileBytesHash,
-        metadataHash: normalized.metadataHash,
-        refsHash,
-      });
+  /**
+   * @impldoc SQLite as-of reads
+   *
+   * `getAsOf` returns the highest-`tx_seq` version of one object inside the
+   * requested cut, reading through `idx_versions_object_txseq_desc`.
+   *
+   * `getSessionAsOf` first reads the session version inside the cut and then
+   * resolves that version's stored `doc_references` rows against the same cut:
+   * - dynamic refs resolve to the target's as-of version
+   * - pinned refs resolve to the anchored version (by `target_version_id`,
+   *   else by `target_object_hash`) only when it lies inside the cut, and a
+   *   pinned hash must match the anchored version when both anchors are set
+   * - field-hash pins resolve to the newest version inside the cut whose
+   *   `field_hashes_json` contains every pinned entry
+   *
+   * Field hashes are not indexed: a field-hash pin (and
+   * `getVersionByFieldHashes`) walks the object's versions newest first through
+   * `idx_versions_object_txseq_desc` and checks each `field_hashes_json` with
+   * `json_each`, stopping at the first match. Its cost is the number of
+   * versions newer than the match, or every version inside the cut when none
+   * matches.
+   *
+   * Both methods are pure reads; they never consult `objects.current_version_id`.
+   */
+  async getAsOf(objectId: string, at: AsOfPoint): Promise<VersionRecord | null> {
+    const point = normalizeAsOfPoint(at);
+    const row = (
+      'txSeq' in point
+        ? this.stmt(SQL.asOfBySeq).get(objectId, point.txSeq)
+        : this.stmt(SQL.asOfByTime).get(objectId, point.txTime)
+    ) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
 
-      const insert = this.stmt(SQL.insertVersion).run(
-        versionId,
-        input.objectId,
-        versionNo,
-        normalized.txTime,
-        input.writerId,
-        input.writerKind,
-        input.writeReason,
-        normalized.contentStructJson,
-        normalized.fileBytesBlob,
-        input.path ?? null,
-        input.sessionId ?? null,
-        input.toolName ?? null,
-        input.status ?? null,
-        normalized.charCount,
-        normalized.metadataJson,
-        normalized.contentStructHash,
-        normalized.fileBytesHash,
-        normalized.metadataHash,
-        refsHash,
-        objectHash,
-      ) as { lastInsertRowid: number | bigint };
+  async getAsOfValidTime(objectId: string, validTime: string, at?: AsOfPoint): Promise<VersionRecord | null> {
+    const time = normalizeValidTime(validTime);
+    const point = normalizeAsOfPoint(at ?? { txSeq: Number.MAX_SAFE_INTEGER });
+    const row = (
+      'txSeq' in point
+        ? this.stmt(SQL.validAtBySeq).get(objectId, time, point.txSeq, time)
+        : this.stmt(SQL.validAtByTime).get(objectId, time, point.txTime, time)
+    ) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
 
-      const txSeq = Number(insert.lastInsertRowid);
+  async getSessionAsOf(sessionObjectId: string, at: AsOfPoint): Promise<SessionSnapshot | null> {
+    const point = normalizeAsOfPoint(at);
+    const objectRow = this.stmt(SQL.objectById).get(sessionObjectId) as ObjectRow | undefined;
+    if (!objectRow || objectRow.object_type !== 'session') return null;
 
-      this.stmt(SQL.updateObjectHead).run(
-        versionId,
-        txSeq,
-        normalized.txTime,
-        txSeq,
-        normalized.txTime,
-        input.objectId,
-      );
+    const session = await this.getAsOf(sessionObjectId, point);
+    if (!session) return null;
+
+    const references: ResolvedReferenceRecord[] = [];
+    for (const reference of await this.queryReferences({ fromVersionId: session.versionId })) {
+      references.push({ reference, target: await this.resolveReferenceAsOf(reference, point) });
+    }
+
+    return { session, references };
+  }
+
+  async getVersion(versionId: string): Promise<VersionRecord | null> {
+    return this.fetchVersion(versionId);
+  }
+
+  async getVersionsByObjectHash(objectHash: string): Promise<VersionRecord[]> {
+    const rows = this.stmt(SQL.versionsByObjectHash).all(objectHash) as VersionRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async getVersionByFieldHashes(
+    objectId: string,
+    fieldHashes: Record<string, string>,
+    at?: AsOfPoint,
+  ): Promise<VersionRecord | null> {
+    const anchors = canonicalJson(parseFieldHashAnchors(fieldHashes, 'fieldHashes'), 'fieldHashes');
+    const point = normalizeAsOfPoint(at ?? { txSeq: Number.MAX_SAFE_INTEGER });
+    const row = (
+      'txSeq' in point
+        ? this.stmt(SQL.asOfByFieldHashesAndSeq).get(objectId, point.txSeq, anchors)
+        : this.stmt(SQL.asOfByFieldHashesAndTime).get(objectId, point.txTime, anchors)
+    ) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  async diffVersions(fromVersionId: string, toVersionId: string): Promise<VersionDiff | null> {
+    const from = this.fetchVersion(fromVersionId);
+    const to = this.fetchVersion(toVersionId);
+    if (!from || !to) return null;
+
+    const objectRow = this.stmt(SQL.objectById).get(from.objectId) as ObjectRow;
+    return diffVersionRecords(objectRow.object_type, from, to);
+  }
+
+  /**
+   * @impldoc SQLite content search
+   *
+   * `searchContent` runs an FTS5 `MATCH` query (FTS5 query syntax) over the
+   * indexed `content` of stored versions and returns ranked snippets.
+   *
+   * Scope rules:
+   * - `headOnly` (default `true`) restricts hits to each object's HEAD version
+   * - `headOnly: false` also searches superseded versions
+   * - `objectType` / `sessionId` filter on `objects.object_type` and the
+   *   version's typed `session_id` envelope field
+   * - `deleted: true` / `false` keeps only hits on objects whose HEAD is / is
+   *   not a tombstone (tombstones themselves carry no content); with
+   *   `headOnly: false` this finds what a deleted object used to contain
+   *
+   * Malformed FTS5 queries (syntax errors, unknown column filters, unterminated
+   * strings) fail with `invalid_search_query:<query>`; any other SQLite error
+   * is rethrown unchanged.
+   */
+  async searchContent(query: string, options: ContentSearchOptions = {}): Promise<ContentSearchHit[]> {
+    ensureString(query, 'query', true);
+
+    const where = ['version_content_fts MATCH ?'];
+    const args: SqlArg[] = [query];
+
+    if (options.headOnly ?? true) where.push('o.current_version_id = v.version_id');
+    if (options.objectType !== undefined) {
+      where.push('o.object_type = ?');
+      args.push(options.objectType);
+    }
+    if (options.sessionId !== undefined) {
+      where.push('v.session_id = ?');
+      args.push(options.sessionId);
+    }
+    if (options.deleted !== undefined) {
+      where.push('(SELECT h.deleted FROM object_versions h WHERE h.version_id = o.current_version_id) = ?');
+      args.push(options.deleted ? 1 : 0);
+    }
+    args.push(normalizeLimit(options.limit ?? 20));
+
+    const sql =
+      "SELECT v.tx_seq, v.version_id, v.object_id, o.object_type, v.version_no, v.path, v.session_id, " +
+      '(o.current_version_id = v.version_id) AS is_head, bm25(version_content_fts) AS rank, ' +
+      "snippet(version_content_fts, 0, '[', ']', '…', 12) AS snippet " +
+      'FROM version_content_fts ' +
+      'JOIN object_versions v ON v.tx_seq = version_content_fts.rowid ' +
+      'JOIN objects o ON o.object_id = v.object_id ' +
+      `WHERE ${where.join(' AND ')} ` +
+      'ORDER BY rank ASC, v.tx_seq DESC LIMIT ?';
+
+    let rows: SearchRow[];
+    try {
+      rows = this.db.prepare(sql).all(...args) as SearchRow[];
+    } catch (error) {
+      if (isFtsQueryError(error)) throw new Error(`invalid_search_query:${query}`);
+      throw error;
+    }
+
+    return rows.map((row) => ({
+      txSeq: Number(row.tx_seq),
+      versionId: row.version_id,
+      objectId: row.object_id,
+      objectType: row.object_type,
+      versionNo: Number(row.version_no),
+      path: row.path,
+      sessionId: row.session_id,
+      isHead: Number(row.is_head) === 1,
+      rank: Number(row.rank),
+      snippet: row.snippet,
+    }));
+  }
+
+  async readChanges(params: ChangeFeedParams = {}): Promise<ChangeFeedPage> {
+    const afterTxSeq = params.afterTxSeq ?? 0;
+    if (!Number.isInteger(afterTxSeq) || afterTxSeq < 0) throw new Error(`invalid_cursor:${afterTxSeq}`);
+
+    const where = ['v.tx_seq > ?'];
+    const args: SqlArg[] = [afterTxSeq];
+    if (params.objectType !== undefined) {
+      where.push('o.object_type = ?');
+      args.push(params.objectType);
+    }
+    if (params.sessionId !== undefined) {
+      where.push('v.session_id = ?');
+      args.push(params.sessionId);
+    }
+    args.push(normalizeLimit(params.limit ?? 100));
+
+    const rows = this.db
+      .prepare(
+        `SELECT v.*, o.object_type FROM object_versions v JOIN objects o ON o.object_id = v.object_id WHERE ${where.join(' AND ')} ORDER BY v.tx_seq ASC LIMIT ?`,
+      )
+      .all(...args) as ChangeRow[];
 
-      const insertRef = this.stmt(SQL.insertRef);
-      for (const ref of resolvedRefs) {
-        insertRef.run(
-          randomUUID(),
-          versionId,
-          ref.fromPath,
-          ref.targetObjectId,
-          ref.targetVersionId,
-          ref.targetObjectHash,
-          ref.refKind,
-          ref.mode,
-          ref.resolved ? 1 : 0,
-          ref.refMetadataJson,
-        );
+    const changes = rows.map((row) => ({ objectType: row.object_type, record: this.toRecord(row) }));
+    return { changes, cursor: changes.at(-1)?.record.txSeq ?? afterTxSeq };
+  }
+
+  /**
+   * @impldoc SQLite object listing
+   *
+   * `listObjects` joins each object to its HEAD row
+   * (`objects.current_version_id`) and filters on the HEAD's typed envelope
+   * columns, so `sessionId`, `pathPrefix` and `toolName` / `status` are served
+   * by `idx_versions_session_id`, `idx_versions_path` and
+   * `idx_versions_tool_name_status`. `pathPrefix` is evaluated as a half-open
+   * range (`path >= prefix AND path < successor(prefix)`) rather than `LIKE`,
+   * so it stays case-sensitive and index-backed. One extra row is read to decide
+   * whether a next-page `cursor` is returned.
+   */
+  async listObjects(params: ListObjectsParams = {}): Promise<ObjectListPage> {
+    const query = normalizeListObjectsParams(params);
+
+    const where = ['o.current_version_id = v.version_id'];
+    const args: SqlArg[] = [];
+    if (query.cursor !== undefined) {
+      where.push('o.object_id > ?');
+      args.push(query.cursor);
+    }
+    if (query.objectType !== undefined) {
+      where.push('o.object_type = ?');
+      args.push(query.objectType);
+    }
+    if (query.sessionId !== undefined) {
+      where.push('v.session_id = ?');
+      args.push(query.sessionId);
+    }
+    if (query.pathPrefix !== undefined) {
+      where.push('v.path >= ?');
+      args.push(query.pathPrefix);
+      const upper = prefixUpperBound(query.pathPrefix);
+      if (upper !== null) {
+        where.push('v.path < ?');
+        args.push(upper);
       }
+    }
+    if (query.toolName !== undefined) {
+      where.push('v.tool_name = ?');
+      args.push(query.toolName);
+    }
+    if (query.status !== undefined) {
+      where.push('v.status = ?');
+      args.push(query.status);
+    }
+    if (query.updatedAfterTxSeq !== undefined) {
+      where.push('v.tx_seq > ?');
+      args.push(query.updatedAfterTxSeq);
+    }
+    if (query.deleted !== undefined) {
+      where.push('v.deleted = ?');
+      args.push(query.deleted ? 1 : 0);
+    }
+    args.push(query.limit + 1);
 
-      this.stmt(SQL.insertIdempotency).run(
-        input.requestId,
-        input.objectId,
-        versionId,
-        normalized.contentStructHash,
-        normalized.fileBytesHash,
-        txSeq,
-        normalized.txTime,
-      );
+    const rows = this.db
+      .prepare(
+        `SELECT o.object_id, o.object_type, o.locked, o.nickname, v.version_id, v.version_no, v.tx_seq, v.tx_time, v.path, v.session_id, v.tool_name, v.status, v.char_count, v.object_hash, v.deleted FROM object_versions v JOIN objects o ON o.object_id = v.object_id WHERE ${where.join(' AND ')} ORDER BY o.object_id ASC LIMIT ?`,
+      )
+      .all(...args) as ObjectHeadRow[];
 
-      const record = this.fetchVersion(versionId);
-      if (!record) throw new Error(`missing_inserted_version:${versionId}`);
-      return { ok: true, record, idempotentReplay: false } as const;
-    });
+    const objects = rows.slice(0, query.limit).map(mapObjectHead);
+    return { objects, cursor: rows.length > query.limit ? objects.at(-1)!.objectId : null };
   }
 
-  async getLatest(objectId: string): Promise<VersionRecord | null> {
-    const row = this.stmt(SQL.latestByObject).get(objectId) as VersionRow | undefined;
-    return row ? mapVersion(row) : null;
+  async listSessions(params: ListSessionsParams = {}): Promise<SessionListPage> {
+    const page = await this.listObjects({ objectType: 'session', cursor: params.cursor, limit: params.limit });
+
+    const sessions: SessionSummary[] = [];
+    for (const object of page.objects) {
+      const head = this.fetchVersion(object.versionId)!;
+      const chatObjectId = sessionChatObjectId(head);
+      sessions.push(summarizeSession(head, chatObjectId ? await this.getLatest(chatObjectId) : null));
+    }
+    return { sessions, cursor: page.cursor };
   }
 
-  async getHistory(objectId: string, order: 'asc' | 'desc' = 'desc'): Promise<VersionRecord[]> {
-    const rows = this.stmt(order === 'asc' ? SQL.historyAsc : SQL.historyDesc).all(objectId) as VersionRow[];
-    return rows.map(mapVersion);
+  async compareSessions(sessionObjectIdA: string, sessionObjectIdB: string): Promise<SessionComparison | null> {
+    const heads: VersionRecord[] = [];
+    for (const objectId of [sessionObjectIdA, sessionObjectIdB]) {
+      const object = this.stmt(SQL.objectById).get(objectId) as ObjectRow | undefined;
+      if (!object?.current_version_id) return null;
+      if (object.object_type !== 'session') throw new Error(`compare_not_session:${objectId}`);
+      heads.push(this.fetchVersion(object.current_version_id)!);
+    }
+    return compareSessionRecords(heads[0], heads[1]);
+  }
+
+  async getObjectAttributes(objectId: string): Promise<ObjectAttributes | null> {
+    const object = this.stmt(SQL.fullObjectById).get(objectId) as FullObjectRow | undefined;
+    if (!object?.current_version_id) return null;
+    return { objectId, locked: Number(object.locked) === 1, nickname: object.nickname };
+  }
+
+  async setObjectAttributes(objectId: string, update: ObjectAttributesUpdate): Promise<ObjectAttributes | null> {
+    const normalized = normalizeAttributesUpdate(update);
+    return this.tx(() => this.setObjectAttributesInTx(objectId, normalized));
+  }
+
+  private setObjectAttributesInTx(objectId: string, update: ObjectAttributesUpdate): ObjectAttributes | null {
+    const { locked, nickname, writerId } = update;
+    const object = this.stmt(SQL.fullObjectById).get(objectId) as FullObjectRow | undefined;
+    if (!object?.current_version_id) return null;
+
+    const current = { objectId, locked: Number(object.locked) === 1, nickname: object.nickname };
+    const next = {
+      objectId,
+      locked: locked ?? current.locked,
+      nickname: nickname === undefined ? current.nickname : nickname,
+    };
+    if (next.locked === current.locked && next.nickname === current.nickname) return current;
+
+    this.stmt(SQL.updateObjectAttributes).run(next.locked ? 1 : 0, next.nickname, objectId);
+    this.stmt(SQL.insertAttributeEvent).run(
+      objectId,
+      next.locked ? 1 : 0,
+      next.nickname,
+      writerId,
+      new Date().toISOString(),
+    );
+    return next;
+  }
+
+  async getObjectAttributeHistory(objectId: string): Promise<ObjectAttributeChange[]> {
+    const rows = this.stmt(SQL.attributeEventsByObject).all(objectId) as AttributeEventRow[];
+    return rows.map((row) => ({
+      eventSeq: Number(row.event_seq),
+      objectId: row.object_id,
+      locked: Number(row.locked) === 1,
+      nickname: row.nickname,
+      writerId: row.writer_id,
+      changedAt: row.changed_at,
+    }));
+  }
+
+  /**
+   * @impldoc SQLite change subscriptions
+   *
+   * `subscribe(listener)` registers an in-process listener that receives one
+   * `ChangeFeedEntry` per version written by this `SqliteStorage` instance
+   * (`putVersion`, `putVersions`, `importBundle`), in `tx_seq` order, after the
+   * transaction has committed. Idempotent replays and rolled-back writes are
+   * not delivered. Listener errors are swallowed so they cannot fail a write
+   * that has already committed. The returned function unsubscribes.
+   *
+   * Writes made by other connections are not observed; tail those with
+   * `readChanges` and a persisted cursor.
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   async queryReferences(params: {
@@ -292,8 +951,14 @@ export class SqliteStorage implements StoragePort {
       args.push(params.fromVersionId);
     }
     if (params.fromPathPrefix !== undefined) {
-      where.push(`from_path LIKE ? ESCAPE '\\'`);
-      args.push(`${escapeLike(params.fromPathPrefix)}%`);
+      // a range like listObjects' pathPrefix: LIKE would fold ASCII case
+      where.push('from_path >= ?');
+      args.push(params.fromPathPrefix);
+      const upper = prefixUpperBound(params.fromPathPrefix);
+      if (upper !== null) {
+        where.push('from_path < ?');
+        args.push(upper);
+      }
     }
     if (params.targetObjectId !== undefined) {
       where.push('target_object_id = ?');
@@ -353,11 +1018,504 @@ export class SqliteStorage implements StoragePort {
     });
   }
 
-  private tx<T>(fn: () => T): T {
+  /**
+   * @impldoc SQLite reference traversal
+   *
+   * `traverseReferences` runs one `WITH RECURSIVE` query over `doc_references`.
+   * Each step resolves the references of the current frontier with the same
+   * rules as as-of resolution at HEAD: `dynamic` through
+   * `objects.current_version_id`, `pinned` through `target_version_id`, the
+   * newest `object_hash` match (`idx_versions_object_hash`) or the newest
+   * version matching every pinned field hash. Outgoing steps use
+   * `idx_refs_from_version_path`, incoming steps `idx_refs_target_object`.
+   *
+   * The walk rows are `(ref, node, depth)` combined with `UNION`, and `depth`
+   * stops at the requested bound, so a cycle adds at most one row per edge and
+   * depth; the final `GROUP BY` keeps each node and edge at its smallest depth.
+   */
+  async traverseReferences(params: TraverseReferencesParams): Promise<ReferenceGraph | null> {
+    const query = normalizeTraverseParams(params);
+    const root =
+      'versionId' in query.from
+        ? (this.stmt(SQL.versionById).get(query.from.versionId) as VersionRow | undefined)?.version_id
+        : (this.stmt(SQL.objectById).get(query.from.objectId) as ObjectRow | undefined)?.current_version_id;
+    if (!root) return null;
+
+    const filters: string[] = [];
+    const filterArgs: SqlArg[] = [];
+    if (query.mode !== undefined) {
+      filters.push('r.mode = ?');
+      filterArgs.push(query.mode);
+    }
+    if (query.refKinds !== undefined) {
+      filters.push(`r.ref_kind IN (${query.refKinds.map(() => '?').join(', ') || 'NULL'})`);
+      filterArgs.push(...query.refKinds);
+    }
+    const filterSql = filters.map((filter) => ` AND ${filter}`).join('');
+
+    const newestByHash =
+      '(SELECT h.version_id FROM object_versions h WHERE h.object_hash = r.target_object_hash AND h.object_id = r.target_object_id ORDER BY h.tx_seq DESC LIMIT 1)';
+    const newestByFields = `(SELECT h.version_id FROM object_versions h WHERE h.object_id = r.target_object_id AND ${fieldHashesMatchSql('h', 'r.target_field_hashes_json')} ORDER BY h.tx_seq DESC LIMIT 1)`;
+    const step =
+      query.direction === 'out'
+        ? `SELECT r.ref_id, t.version_id, t.version_id, w.depth + 1
+           FROM walk w
+           JOIN doc_references r ON r.from_version_id = w.node_id
+           LEFT JOIN objects o ON o.object_id = r.target_object_id
+           LEFT JOIN object_versions t ON t.object_id = r.target_object_id
+             AND t.version_id = CASE
+               WHEN r.mode = 'dynamic' THEN o.current_version_id
+               WHEN r.target_version_id IS NOT NULL THEN r.target_version_id
+               WHEN r.target_field_hashes_json IS NOT NULL THEN ${newestByFields}
+               ELSE ${newestByHash}
+             END
+             AND (r.mode = 'dynamic' OR r.target_object_hash IS NULL OR t.object_hash = r.target_object_hash)
+           WHERE w.depth < ?${filterSql}`
+        : `SELECT r.ref_id, r.from_version_id, t.version_id, w.depth + 1
+           FROM walk w
+           JOIN object_versions t ON t.version_id = w.node_id
+           JOIN objects o ON o.object_id = t.object_id
+           JOIN doc_references r ON r.target_object_id = t.object_id
+           WHERE w.depth < ?${filterSql}
+             AND CASE
+               WHEN r.mode = 'dynamic' THEN o.current_version_id = t.version_id
+               WHEN r.target_version_id IS NOT NULL THEN r.target_version_id = t.version_id
+                 AND (r.target_object_hash IS NULL OR r.target_object_hash = t.object_hash)
+               WHEN r.target_field_hashes_json IS NOT NULL THEN t.version_id = ${newestByFields}
+               ELSE r.target_object_hash = t.object_hash AND t.version_id = ${newestByHash}
+             END`;
+
+    const rows = this.db
+      .prepare(
+        `WITH RECURSIVE walk(ref_id, node_id, resolved_id, depth) AS (
+           SELECT NULL, ?, NULL, 0
+           UNION
+           ${step}
+         )
+         SELECT r.*, w.node_id AS walk_node_id, w.resolved_id AS walk_resolved_id, MIN(w.depth) AS walk_depth,
+           n.object_id AS node_object_id, n.version_no AS node_version_no,
+           no.object_type AS node_object_type, no.current_version_id AS node_head_id
+         FROM walk w
+         LEFT JOIN doc_references r ON r.ref_id = w.ref_id
+         LEFT JOIN object_versions n ON n.version_id = w.node_id
+         LEFT JOIN objects no ON no.object_id = n.object_id
+         GROUP BY w.ref_id, w.node_id`,
+      )
+      .all(root, query.depth, ...filterArgs) as WalkRow[];
+
+    const nodes = new Map<string, ReferenceGraphNode>();
+    const edges: ReferenceGraphEdge[] = [];
+    for (const row of rows) {
+      const depth = Number(row.walk_depth);
+      if (row.ref_id) {
+        edges.push({ reference: mapRef(row as RefRow), resolvedVersionId: row.walk_resolved_id, depth });
+      }
+      if (row.walk_node_id === null || row.node_object_id === null) continue;
+      const known = nodes.get(row.walk_node_id);
+      if (known && known.depth <= depth) continue;
+      nodes.set(row.walk_node_id, {
+        versionId: row.walk_node_id,
+        objectId: row.node_object_id,
+        objectType: row.node_object_type!,
+        versionNo: Number(row.node_version_no),
+        isHead: row.node_head_id === row.walk_node_id,
+        depth,
+      });
+    }
+
+    return { rootVersionId: root, ...sortReferenceGraph([...nodes.values()], edges) };
+  }
+
+  /**
+   * @impldoc SQLite garbage collection
+   *
+   * `gcDryRun` reports what `gcExecute` would prune under a `GcPolicy`;
+   * `gcExecute` prunes the same set inside one `BEGIN IMMEDIATE` transaction.
+   *
+   * Pruning a version removes its `object_versions` row together with the rows
+   * keyed by it: outgoing `doc_references` and its `version_content_fts` row.
+   * Its `write_idempotency` record is kept, so a retry of that request id is
+   * refused as `idempotency_pruned` instead of writing a duplicate. A `blobs`
+   * row is released when the pruned versions hold its last references (the
+   * blob triggers delete it); `rows.blobs` / `blobBytes` count the released
+   * blobs and their bytes, so bytes still shared with a kept version are not
+   * counted.
+   *
+   * Kept versions stay verifiable: HEAD is never pruned, so per-object
+   * `version_no` allocation is unchanged, and a kept version's `refs_hash` /
+   * `object_hash` inputs live only on that version's own row and refs. Pins
+   * held by versions pruned in the same pass still protect their targets, and
+   * so do delta versions pruned with their keyframe; a later pass can release
+   * them.
+   */
+  async gcDryRun(policy: GcPolicy): Promise<GcReport> {
+    const candidates = this.gcCandidates(policy);
+    const released = this.releasedBlobs(candidates);
+    const rows = {
+      objectVersions: candidates.length,
+      docReferences: 0,
+      versionContentFts: 0,
+      blobs: released.blobs,
+    };
+
+    for (const candidate of candidates) {
+      rows.docReferences += countOf(this.stmt(SQL.countRefsFromVersion).get(candidate.version_id));
+      rows.versionContentFts += countOf(this.stmt(SQL.countContentFts).get(candidate.tx_seq));
+    }
+
+    return gcReport(true, candidates, rows, released.blobBytes);
+  }
+
+  async gcExecute(policy: GcPolicy): Promise<GcReport> {
+    return this.tx(() => {
+      const candidates = this.gcCandidates(policy);
+      const released = this.releasedBlobs(candidates);
+      const rows = { objectVersions: 0, docReferences: 0, versionContentFts: 0, blobs: released.blobs };
+
+      for (const candidate of candidates) {
+        rows.docReferences += changesOf(this.stmt(SQL.deleteRefsFromVersion).run(candidate.version_id));
+        rows.versionContentFts += changesOf(this.stmt(SQL.deleteContentFts).run(candidate.tx_seq));
+        rows.objectVersions += changesOf(this.stmt(SQL.deleteVersion).run(candidate.version_id));
+      }
+
+      return gcReport(false, candidates, rows, released.blobBytes);
+    });
+  }
+
+  async verifyIntegrity(): Promise<IntegrityReport> {
+    const issues: IntegrityIssue[] = [];
+    let checkedVersions = 0;
+
+    for (const row of this.stmt(SQL.integrityVersions).iterate() as Iterable<ExportVersionRow>) {
+      checkedVersions += 1;
+      const refs = (this.stmt(SQL.refsByFromVersion).all(row.version_id) as RefRow[]).map(refRowToDraft);
+      let contentStructJson: string;
+      try {
+        contentStructJson = this.inflate(row).content_struct_json;
+      } catch {
+        contentStructJson = ''; // an undecodable delta hashes to `null` and is reported as content_struct_hash
+      }
+      issues.push(
+        ...checkVersionHashes(
+          {
+            versionId: row.version_id,
+            objectId: row.object_id,
+            versionNo: Number(row.version_no),
+            contentStructJson,
+            metadataJson: row.metadata_json,
+            fileBytes: row.file_bytes ?? null,
+            refs,
+            envelope: {
+              path: row.path,
+              sessionId: row.session_id,
+              toolName: row.tool_name,
+              status: row.status,
+              charCount: row.char_count === null ? null : Number(row.char_count),
+            },
+            contentStructHash: row.content_struct_hash,
+            fileBytesHash: row.file_bytes_hash,
+            metadataHash: row.metadata_hash,
+            refsHash: row.refs_hash,
+            objectHash: row.object_hash,
+            hashAlgo: row.hash_algo,
+            hashSchemaVersion: Number(row.hash_schema_version),
+            fieldHashesJson: row.field_hashes_json,
+          },
+          this.hashing.hashers,
+        ),
+      );
+    }
+
+    const heads = this.stmt(SQL.integrityHeads).all() as Array<{
+      object_id: string;
+      current_version_id: string | null;
+      head_version_id: string | null;
+    }>;
+    for (const head of heads) {
+      if (head.current_version_id === head.head_version_id) continue;
+      issues.push({
+        versionId: null,
+        objectId: head.object_id,
+        check: 'current_version_id',
+        stored: head.current_version_id,
+        computed: head.head_version_id,
+      });
+    }
+
+    return { ok: issues.length === 0, checkedObjects: heads.length, checkedVersions, issues };
+  }
+
+  /**
+   * @impldoc SQLite bundle export/import
+   *
+   * `exportBundle` writes the selected objects with their full stored history,
+   * references and blobs as a store bundle (see `store-bundle.ts`). Selection:
+   * - no filter: every object in the store
+   * - `sessionId`: objects with any version whose typed `session_id` matches
+   * - `objectIds`: the listed objects
+   * - `followReferences` (default `true`): add every object referenced from a
+   *   selected object's versions, transitively
+   *
+   * `importBundle` verifies the whole bundle and validates every version as
+   * `putVersion` would, then replays each version in source `tx_seq` order
+   * through the `putVersion` write path inside one transaction, with
+   * `writeReason: 'import'` and request id `import:<version_id>`. The source
+   * `version_id`, `version_no` and stored refs (the bundled `reference` rows,
+   * rather than a fresh extraction of the payload) are kept so pinned refs and
+   * `object_hash` values stay valid; the recomputed `object_hash` must equal
+   * the bundled one. Each bundled object's `locked` / `nickname` is then
+   * applied like `setObjectAttributes` with writer id `import`, so a change
+   * shows up in the attribute audit trail.
+   */
+  async exportBundle(filter: StoreBundleFilter = {}): Promise<string> {
+    const objects: BundleObjectLine[] = [];
+    const versions: BundleVersionLine[] = [];
+    const references: BundleReferenceLine[] = [];
+    const blobs = new Map<string, BundleBlobLine>();
+
+    for (const objectId of this.selectBundleObjects(filter)) {
+      const object = this.stmt(SQL.fullObjectById).get(objectId) as FullObjectRow;
+      objects.push({
+        kind: 'object',
+        object_id: object.object_id,
+        object_type: object.object_type,
+        locked: Number(object.locked) === 1,
+        nickname: object.nickname,
+        current_version_id: object.current_version_id,
+      });
+
+      for (const row of this.stmt(SQL.exportVersionsByObject).all(objectId) as ExportVersionRow[]) {
+        const {
+          file_bytes: blob,
+          content_delta_base: _deltaBase,
+          content_delta_json: _deltaJson,
+          ...version
+        } = this.inflate(row);
+        versions.push({
+          kind: 'version',
+          ...version,
+          tx_seq: Number(version.tx_seq),
+          version_no: Number(version.version_no),
+          char_count: version.char_count === null ? null : Number(version.char_count),
+          deleted: Number(version.deleted) === 1,
+          hash_schema_version: Number(version.hash_schema_version),
+        });
+        if (blob && version.file_bytes_hash && !blobs.has(version.file_bytes_hash)) {
+          blobs.set(version.file_bytes_hash, {
+            kind: 'blob',
+            hash: version.file_bytes_hash,
+            bytes_base64: Buffer.from(blob).toString('base64'),
+          });
+        }
+      }
+    }
+
+    versions.sort((left, right) => left.tx_seq - right.tx_seq);
+    for (const version of versions) {
+      for (const ref of await this.queryReferences({ fromVersionId: version.version_id })) {
+        references.push({
+          kind: 'reference',
+          ref_id: ref.refId,
+          from_version_id: ref.fromVersionId,
+          from_path: ref.fromPath,
+          target_object_id: ref.targetObjectId,
+          target_version_id: ref.targetVersionId ?? null,
+          target_object_hash: ref.targetObjectHash ?? null,
+          target_field_hashes_json:
+            ref.targetFieldHashes === undefined ? null : canonicalJson(ref.targetFieldHashes, 'target_field_hashes'),
+          ref_kind: ref.refKind,
+          mode: ref.mode,
+          resolved: ref.resolved,
+          ref_metadata_json: ref.refMetadataJson ?? null,
+        });
+      }
+    }
+
+    return serializeStoreBundle([
+      {
+        kind: 'header',
+        format: STORE_BUNDLE_FORMAT,
+        format_version: STORE_BUNDLE_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        filter,
+        counts: { objects: objects.length, versions: versions.length, references: references.length, blobs: blobs.size },
+      },
+      ...objects,
+      ...versions,
+      ...references,
+      ...blobs.values(),
+    ]);
+  }
+
+  async importBundle(bundleText: string): Promise<StoreBundleImportResult> {
+    const bundle = parseStoreBundle(bundleText);
+    const issues = verifyStoreBundle(bundle, this.hashing.hashers);
+    if (issues.length > 0) return { ok: false, verification: true, reason: 'bundle_verification_failed', issues };
+
+    const inputs = bundle.versions.map((version) => {
+      const objectType = bundle.objects.get(version.object_id)?.object_type;
+      if (!objectType) throw new Error(`invalid_bundle:missing_object:${version.object_id}`);
+      return bundleVersionToWriteInput(version, objectType, bundle.blobs);
+    });
+    for (const [index, input] of inputs.entries()) {
+      const invalid = validateWriteInput(input);
+      if (invalid) return { ...invalid, versionId: bundle.versions[index].version_id };
+    }
+    const attributes = [...bundle.objects.values()].map((object) => ({
+      objectId: object.object_id,
+      update: normalizeAttributesUpdate({ locked: object.locked, nickname: object.nickname, writerId: 'import' }),
+    }));
+
+    return this.tx<StoreBundleImportResult>(
+      () => {
+        let imported = 0;
+        let skipped = 0;
+
+        for (const [index, version] of bundle.versions.entries()) {
+          const existing = this.fetchVersion(version.version_id);
+          if (existing) {
+            if (existing.objectId !== version.object_id || existing.objectHash !== version.object_hash) {
+              return { ok: false, conflict: true, reason: 'version_id_collision', versionId: version.version_id };
+            }
+            skipped += 1;
+            continue;
+          }
+
+          // verifyStoreBundle has already rejected versions whose schema this store cannot resolve
+          const hashSchema = resolveHashSchema(version.hash_algo, version.hash_schema_version, this.hashing.hashers);
+          if (!hashSchema) throw new Error(`invalid_bundle:hash_schema:${version.version_id}`);
+          const result = this.writeVersionInTx(inputs[index], {
+            versionId: version.version_id,
+            versionNo: version.version_no,
+            hashSchema,
+            refs: bundledRefs(bundle, version.version_id),
+          });
+          if (!result.ok) return { ok: false, conflict: true, reason: result.reason, versionId: version.version_id };
+          if (result.record.objectHash !== version.object_hash) {
+            throw new Error(`import_object_hash_mismatch:${version.version_id}`);
+          }
+          imported += 1;
+        }
+
+        for (const { objectId, update } of attributes) this.setObjectAttributesInTx(objectId, update);
+        return { ok: true, imported, skipped };
+      },
+      (result) => result.ok,
+    );
+  }
+
+  private selectBundleObjects(filter: StoreBundleFilter): string[] {
+    const selected = new Set<string>();
+
+    if (filter.sessionId === undefined && filter.objectIds === undefined) {
+      for (const row of this.stmt(SQL.allObjectIds).all() as Array<{ object_id: string }>) selected.add(row.object_id);
+      return [...selected];
+    }
+
+    if (filter.sessionId !== undefined) {
+      for (const row of this.stmt(SQL.objectIdsBySession).all(filter.sessionId) as Array<{ object_id: string }>) {
+        selected.add(row.object_id);
+      }
+    }
+    for (const objectId of filter.objectIds ?? []) {
+      if (this.objectExists(objectId)) selected.add(objectId);
+    }
+
+    if (filter.followReferences ?? true) {
+      const frontier = [...selected];
+      while (frontier.length > 0) {
+        const objectId = frontier.pop() as string;
+        for (const row of this.stmt(SQL.refTargetsFromObject).all(objectId) as Array<{ target_object_id: string }>) {
+          if (selected.has(row.target_object_id) || !this.objectExists(row.target_object_id)) continue;
+          selected.add(row.target_object_id);
+          frontier.push(row.target_object_id);
+        }
+      }
+    }
+
+    return [...selected].sort((a, b) => a.localeCompare(b));
+  }
+
+  private gcCandidates(policy: GcPolicy): GcCandidateRow[] {
+    const where = [
+      'o.current_version_id IS NOT v.version_id',
+      'v.valid_from IS NULL',
+      'NOT EXISTS (SELECT 1 FROM object_versions d WHERE d.content_delta_base = v.version_id)',
+      "NOT EXISTS (SELECT 1 FROM doc_references r WHERE r.mode = 'pinned' AND r.target_version_id = v.version_id)",
+      "NOT EXISTS (SELECT 1 FROM doc_references r WHERE r.mode = 'pinned' AND r.target_object_hash = v.object_hash AND r.target_object_id = v.object_id)",
+      `NOT EXISTS (SELECT 1 FROM doc_references r WHERE r.mode = 'pinned' AND r.target_field_hashes_json IS NOT NULL AND r.target_object_id = v.object_id AND ${fieldHashesMatchSql('v', 'r.target_field_hashes_json')})`,
+    ];
+    const args: SqlArg[] = [];
+
+    if (policy.keepVersionsPerObject !== undefined) {
+      if (!Number.isInteger(policy.keepVersionsPerObject) || policy.keepVersionsPerObject <= 0) {
+        throw new Error(`invalid_gc_policy:keepVersionsPerObject:${policy.keepVersionsPerObject}`);
+      }
+      where.push('(SELECT COUNT(*) FROM object_versions n WHERE n.object_id = v.object_id AND n.version_no > v.version_no) >= ?');
+      args.push(policy.keepVersionsPerObject);
+    }
+    if (policy.retainSinceTxSeq !== undefined) {
+      if (!Number.isInteger(policy.retainSinceTxSeq) || policy.retainSinceTxSeq < 0) {
+        throw new Error(`invalid_gc_policy:retainSinceTxSeq:${policy.retainSinceTxSeq}`);
+      }
+      where.push('v.tx_seq < ?');
+      args.push(policy.retainSinceTxSeq);
+    }
+    if (policy.retainSinceTxTime !== undefined) {
+      where.push('v.tx_time < ?');
+      args.push(ensureString(policy.retainSinceTxTime, 'retainSinceTxTime', true));
+    }
+    if (policy.objectTypes !== undefined) {
+      if (policy.objectTypes.length === 0) return [];
+      where.push(`o.object_type IN (${policy.objectTypes.map(() => '?').join(', ')})`);
+      args.push(...policy.objectTypes);
+    }
+
+    const sql =
+      'SELECT v.tx_seq, v.version_id, v.file_bytes_hash ' +
+      'FROM object_versions v JOIN objects o ON o.object_id = v.object_id ' +
+      `WHERE ${where.join(' AND ')} ORDER BY v.tx_seq ASC`;
+
+    return this.db.prepare(sql).all(...args) as GcCandidateRow[];
+  }
+
+  private releasedBlobs(candidates: GcCandidateRow[]): { blobs: number; blobBytes: number } {
+    const prunedRefs = new Map<string, number>();
+    for (const candidate of candidates) {
+      if (candidate.file_bytes_hash === null) continue;
+      prunedRefs.set(candidate.file_bytes_hash, (prunedRefs.get(candidate.file_bytes_hash) ?? 0) + 1);
+    }
+
+    let blobs = 0;
+    let blobBytes = 0;
+    for (const [hash, count] of prunedRefs) {
+      const blob = this.stmt(SQL.blobByHash).get(hash) as { byte_size: number; ref_count: number } | undefined;
+      if (!blob || Number(blob.ref_count) > count) continue;
+      blobs += 1;
+      blobBytes += Number(blob.byte_size);
+    }
+    return { blobs, blobBytes };
+  }
+
+  private async tx<T>(fn: () => T, shouldCommit: (result: T) => boolean = () => true): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return this.txOnce(fn, shouldCommit);
+      } catch (error) {
+        if (!isBusyError(error) || attempt >= this.retry.maxAttempts) throw error;
+        await sleep(backoffDelay(this.retry, attempt));
+      }
+    }
+  }
+
+  private txOnce<T>(fn: () => T, shouldCommit: (result: T) => boolean): T {
     this.db.exec('BEGIN IMMEDIATE');
+    this.pendingChanges = [];
     try {
       const result = fn();
-      this.db.exec('COMMIT');
+      const commit = shouldCommit(result);
+      this.db.exec(commit ? 'COMMIT' : 'ROLLBACK');
+      if (commit) this.publishChanges();
       return result;
     } catch (error) {
       try {
@@ -366,204 +1524,277 @@ export class SqliteStorage implements StoragePort {
         // no-op
       }
       throw error;
+    } finally {
+      this.pendingChanges = [];
     }
   }
 
-  private stmt(sql: string): Prepared {
-    let prepared = this.cache.get(sql);
-    if (!prepared) {
-      prepared = this.db.prepare(sql);
-      this.cache.set(sql, prepared);
+  private publishChanges(): void {
+    for (const change of this.pendingChanges) {
+      for (const listener of this.listeners) {
+        try {
+          listener(change);
+        } catch {
+          // listeners must not fail a committed write
+        }
+      }
     }
-    return prepared;
   }
 
-  private fetchVersion(versionId: string): VersionRecord | null {
-    const row = this.stmt(SQL.versionById).get(versionId) as VersionRow | undefined;
-    return row ? mapVersion(row) : null;
-  }
+  private writeVersionInTx(input: VersionWriteInput, placement?: VersionPlacement): WriteOutcome {
+    const txTime = input.txTime ?? new Date().toISOString();
+    const idem = this.stmt(SQL.idempotencyByRequest).get(input.requestId) as IdemRow | undefined;
+    if (idem) {
+      const replay = this.fetchVersion(idem.version_id);
+      if (!replay) return { ok: false, conflict: true, reason: 'idempotency_pruned' } as const;
+      const replayHasher = this.hashing.hashers.find((hasher) => hasher.algo === replay.hashAlgo);
+      const fingerprint = replayHasher ? computeIdempotencyFingerprint(input, replayHasher) : null;
+      const matches =
+        fingerprint !== null &&
+        idem.object_id === input.objectId &&
+        idem.content_struct_hash === fingerprint.contentStructHash &&
+        (idem.file_bytes_hash ?? null) === fingerprint.fileBytesHash;
+
+      if (!matches || !replayMarkersMatch(replay, input)) {
+        return { ok: false, conflict: true, reason: 'idempotency_mismatch' } as const;
+      }
+      return { ok: true, record: replay, idempotentReplay: true } as const;
+    }
 
-  private objectExists(objectId: string): boolean {
-    return Boolean((this.stmt(SQL.objectExists).get(objectId) as { ok: number } | undefined)?.ok);
-  }
-}
+    this.stmt(SQL.insertObjectIfMissing).run(input.objectId, input.objectType, txTime, txTime);
 
-function isInvalidSessionIdentity(input: VersionWriteInput): boolean {
-  if (input.objectType !== 'session') return false;
-  return typeof input.sessionId !== 'string' || input.sessionId.trim().length === 0;
-}
+    const objectRow = this.stmt(SQL.objectById).get(input.objectId) as ObjectRow | undefined;
+    if (!objectRow) throw new Error(`missing_object_row:${input.objectId}`);
+    if (objectRow.object_type !== input.objectType) {
+      throw new Error(`object_type_mismatch:${input.objectId}:${objectRow.object_type}:${input.objectType}`);
+    }
+    if (
+      input.expectedCurrentVersionId !== undefined &&
+      input.expectedCurrentVersionId !== objectRow.current_version_id
+    ) {
+      return { ok: false, conflict: true, reason: 'version_conflict' } as const;
+    }
 
-function computeIdempotencyFingerprint(input: VersionWriteInput): {
-  contentStructHash: string;
-  fileBytesHash: string | null;
-} {
-  const contentStructJson = canonicalJson(input.contentStruct, 'contentStruct');
-  const fileBytesBlob = input.fileBytes == null ? null : Buffer.from(input.fileBytes);
+    const nextVersionNo = Number(
+      (this.stmt(SQL.nextVersionNo).get(input.objectId) as { next_version_no: number }).next_version_no,
+    );
+    if (placement && placement.versionNo < nextVersionNo) {
+      return { ok: false, conflict: true, reason: 'version_conflict' } as const;
+    }
+    const versionNo = placement?.versionNo ?? nextVersionNo;
+
+    const hashSchema = placement?.hashSchema ?? this.hashing.write;
+    const normalized = normalizePutInput(input, txTime, hashSchema.hasher);
+    const { validFrom, validTo } = normalized;
+    if (
+      validFrom !== null &&
+      this.stmt(SQL.validityOverlap).get(input.objectId, validFrom, validFrom, validFrom, validFrom, validTo)
+    ) {
+      return { ok: false, conflict: true, reason: 'validity_overlap' } as const;
+    }
 
-  return {
-    contentStructHash: sha256(contentStructJson),
-    fileBytesHash: fileBytesBlob ? sha256(fileBytesBlob) : null,
-  };
-}
+    const refs = placement?.refs ?? extractRefs(input.objectType, input.contentStruct);
+    const refsHash = hashRefs(refs, hashSchema.hasher);
 
-function normalizePutInput(input: VersionWriteInput, txTime: string): {
-  txTime: string;
-  charCount: number | null;
-  contentStructJson: string;
-  metadataJson: string;
-  fileBytesBlob: Uint8Array | null;
-  contentStructHash: string;
-  fileBytesHash: string | null;
-  metadataHash: string;
-} {
-  ensureString(input.requestId, 'requestId', true);
-  ensureString(input.objectId, 'objectId', true);
-  ensureString(input.writerId, 'writerId', true);
-  ensureString(input.path, 'path');
-  ensureString(input.sessionId, 'sessionId');
-  ensureString(input.toolName, 'toolName');
-  ensureString(input.status, 'status');
-
-  validateEnvelopeConsistency(input.contentStruct, {
-    path: input.path,
-    sessionId: input.sessionId,
-    toolName: input.toolName,
-    status: input.status,
-    charCount: input.charCount,
-  });
-
-  const charCount = normalizeCharCount(input.charCount);
-  const contentStructJson = canonicalJson(input.contentStruct, 'contentStruct');
-  const metadataJson = canonicalJson(input.metadata, 'metadata');
-  const fileBytesBlob = input.fileBytes == null ? null : Buffer.from(input.fileBytes);
+    if (normalized.fileBytesBlob && normalized.fileBytesHash) {
+      this.stmt(SQL.insertBlobIfMissing).run(
+        normalized.fileBytesHash,
+        normalized.fileBytesBlob,
+        normalized.fileBytesBlob.byteLength,
+      );
+    }
 
-  return {
-    txTime,
-    charCount,
-    contentStructJson,
-    metadataJson,
-    fileBytesBlob,
-    contentStructHash: sha256(contentStructJson),
-    fileBytesHash: fileBytesBlob ? sha256(fileBytesBlob) : null,
-    metadataHash: sha256(metadataJson),
-  };
-}
+    const versionId = placement?.versionId ?? randomUUID();
+    const resolvedRefs = refs.map((ref) => ({ ...ref, resolved: this.objectExists(ref.targetObjectId) }));
 
-function validateEnvelopeConsistency(
-  contentStruct: unknown,
-  envelope: {
-    path?: string | null;
-    sessionId?: string | null;
-    toolName?: string | null;
-    status?: string | null;
-    charCount?: number | null;
-  },
-): void {
-  if (!isRecord(contentStruct)) return;
-
-  const checks: Array<[unknown, unknown, string]> = [
-    [contentStruct.path, envelope.path, 'path'],
-    [contentStruct.session_id, envelope.sessionId, 'session_id'],
-    [contentStruct.tool_name, envelope.toolName, 'tool_name'],
-    [contentStruct.status, envelope.status, 'status'],
-    [contentStruct.char_count, envelope.charCount, 'char_count'],
-  ];
-
-  for (const [payload, typed, key] of checks) {
-    if (payload === undefined || typed === undefined) continue;
-    if (payload !== typed) throw new Error(`typed_envelope_mismatch:${key}`);
-  }
-}
+    const objectHash = hashObject(
+      {
+        objectId: input.objectId,
+        versionNo,
+        contentStructHash: normalized.contentStructHash,
+        fileBytesHash: normalized.fileBytesHash,
+        metadataHash: normalized.metadataHash,
+        refsHash,
+        envelope: {
+          path: input.path ?? null,
+          sessionId: input.sessionId ?? null,
+          toolName: input.toolName ?? null,
+          status: input.status ?? null,
+          charCount: normalized.charCount,
+        },
+      },
+      hashSchema,
+    );
+
+    const stored = this.encodeStoredContent(input.objectType, input.objectId, versionNo, normalized.contentStructJson);
+
+    const insert = this.stmt(SQL.insertVersion).run(
+      versionId,
+      input.objectId,
+      versionNo,
+      normalized.txTime,
+      input.writerId,
+      input.writerKind,
+      input.writeReason,
+      stored.contentStructJson,
+      stored.deltaBase,
+      stored.deltaJson,
+      input.path ?? null,
+      input.sessionId ?? null,
+      input.toolName ?? null,
+      input.status ?? null,
+      normalized.charCount,
+      normalized.metadataJson,
+      normalized.fieldHashesJson,
+      normalized.contentStructHash,
+      normalized.fileBytesHash,
+      normalized.metadataHash,
+      refsHash,
+      objectHash,
+      hashSchema.hasher.algo,
+      hashSchema.version,
+      normalized.deleted ? 1 : 0,
+      normalized.validFrom,
+      normalized.validTo,
+    ) as { lastInsertRowid: number | bigint };
+
+    const txSeq = Number(insert.lastInsertRowid);
+
+    this.stmt(SQL.updateObjectHead).run(
+      versionId,
+      txSeq,
+      normalized.txTime,
+      txSeq,
+      normalized.txTime,
+      input.objectId,
+    );
+
+    const insertRef = this.stmt(SQL.insertRef);
+    for (const ref of resolvedRefs) {
+      insertRef.run(
+        randomUUID(),
+        versionId,
+        ref.fromPath,
+        ref.targetObjectId,
+        ref.targetVersionId,
+        ref.targetObjectHash,
+        ref.targetFieldHashesJson,
+        ref.refKind,
+        ref.mode,
+        ref.resolved ? 1 : 0,
+        ref.refMetadataJson,
+      );
+    }
+    if (objectRow.current_version_id === null) this.stmt(SQL.resolveReferencesTo).run(input.objectId);
 
-function extractRefs(objectType: ObjectType, contentStruct: unknown): RefDraft[] {
-  if (objectType !== 'session') return [];
+    if (normalized.searchableContent !== null) {
+      this.stmt(SQL.insertContentFts).run(txSeq, normalized.searchableContent);
+    }
 
-  const payload = asRecord(contentStruct, 'contentStruct');
-  const refs: RefDraft[] = [parseRef(payload.chat_ref, '/chat_ref')];
+    this.stmt(SQL.insertIdempotency).run(
+      input.requestId,
+      input.objectId,
+      versionId,
+      normalized.contentStructHash,
+      normalized.fileBytesHash,
+      txSeq,
+      normalized.txTime,
+    );
+
+    const record = this.fetchVersion(versionId);
+    if (!record) throw new Error(`missing_inserted_version:${versionId}`);
+    this.pendingChanges.push({ objectType: input.objectType, record });
+    return { ok: true, record, idempotentReplay: false } as const;
+  }
 
-  if (payload.system_prompt_ref !== undefined && payload.system_prompt_ref !== null) {
-    refs.push(parseRef(payload.system_prompt_ref, '/system_prompt_ref'));
+  private stmt(sql: string): Prepared {
+    let prepared = this.cache.get(sql);
+    if (!prepared) {
+      prepared = this.db.prepare(sql);
+      this.cache.set(sql, prepared);
+    }
+    return prepared;
   }
 
-  refs.push(...parseRefArray(payload.active_set, '/active_set'));
-  refs.push(...parseRefArray(payload.inactive_set, '/inactive_set'));
-  refs.push(...parseRefArray(payload.pinned_set, '/pinned_set'));
-  return refs;
-}
+  private encodeStoredContent(
+    objectType: ObjectType,
+    objectId: string,
+    versionNo: number,
+    contentStructJson: string,
+  ): { contentStructJson: string; deltaBase: string | null; deltaJson: string | null } {
+    const full = { contentStructJson, deltaBase: null, deltaJson: null };
+    if (this.keyframeInterval === null || objectType !== 'file') return full;
+
+    const keyframe = this.stmt(SQL.latestKeyframe).get(objectId) as
+      | { version_id: string; version_no: number; content_struct_json: string }
+      | undefined;
+    if (!keyframe || versionNo - Number(keyframe.version_no) >= this.keyframeInterval) return full;
+
+    const encoded = encodeContentDelta(keyframe.content_struct_json, contentStructJson);
+    if (!encoded) return full;
+    return { contentStructJson: encoded.storedJson, deltaBase: keyframe.version_id, deltaJson: encoded.deltaJson };
+  }
 
-function parseRefArray(value: unknown, path: string): RefDraft[] {
-  if (!Array.isArray(value)) throw new Error(`expected_ref_array:${path}`);
-  return value.map((entry, index) => parseRef(entry, `${path}/${index}`));
-}
+  /** Returns `row` with its full canonical `content_struct_json` (delta rows are reconstructed). */
+  private inflate<Row extends VersionRow>(row: Row): Row {
+    if (row.content_delta_json === null || row.content_delta_base === null) return row;
+    const keyframe = this.stmt(SQL.keyframeContent).get(row.content_delta_base) as
+      | { content_struct_json: string }
+      | undefined;
+    if (!keyframe) throw new Error(`missing_delta_keyframe:${row.version_id}:${row.content_delta_base}`);
+
+    return {
+      ...row,
+      content_struct_json: decodeContentDelta(
+        keyframe.content_struct_json,
+        row.content_struct_json,
+        row.content_delta_json,
+      ),
+    };
+  }
 
-function parseRef(value: unknown, path: string): RefDraft {
-  const ref = asRecord(value, path);
-  const mode = asMode(ref.mode, `${path}.mode`);
-  const targetVersionId = asNullableString(ref.target_version_id, `${path}.target_version_id`);
-  const targetObjectHash = asNullableString(ref.target_object_hash, `${path}.target_object_hash`);
+  private toRecord(row: VersionRow): VersionRecord {
+    return mapVersion(this.inflate(row));
+  }
 
-  if (mode === 'pinned' && !targetVersionId && !targetObjectHash) {
-    throw new Error(`Invalid pinned Ref at ${path}: target_version_id or target_object_hash required`);
+  private fetchVersion(versionId: string): VersionRecord | null {
+    const row = this.stmt(SQL.versionById).get(versionId) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
   }
 
-  return {
-    fromPath: path,
-    targetObjectId: ensureString(ref.target_object_id, `${path}.target_object_id`, true),
-    targetVersionId,
-    targetObjectHash,
-    refKind: ensureString(ref.ref_kind, `${path}.ref_kind`, true),
-    mode,
-    refMetadataJson:
-      ref.ref_metadata === undefined ? null : canonicalJson(asRecord(ref.ref_metadata, `${path}.ref_metadata`), `${path}.ref_metadata`),
-  };
-}
+  private async resolveReferenceAsOf(reference: ReferenceRecord, point: AsOfPoint): Promise<VersionRecord | null> {
+    if (reference.mode === 'dynamic') return this.getAsOf(reference.targetObjectId, point);
 
-function hashRefs(refs: RefDraft[]): string {
-  const sorted = [...refs].sort((a, b) => {
-    const left = [a.fromPath, a.refKind, a.targetObjectId, a.targetVersionId ?? '', a.targetObjectHash ?? '', a.mode];
-    const right = [b.fromPath, b.refKind, b.targetObjectId, b.targetVersionId ?? '', b.targetObjectHash ?? '', b.mode];
-
-    for (let i = 0; i < left.length; i++) {
-      if (left[i] < right[i]) return -1;
-      if (left[i] > right[i]) return 1;
-    }
-    return 0;
-  });
-
-  return sha256(
-    canonicalJson(
-      sorted.map((ref) => ({
-        from_path: ref.fromPath,
-        ref_kind: ref.refKind,
-        target_object_id: ref.targetObjectId,
-        target_version_id: ref.targetVersionId,
-        target_object_hash: ref.targetObjectHash,
-        mode: ref.mode,
-      })),
-      'refs',
-    ),
-  );
-}
+    if (reference.targetVersionId !== undefined) {
+      const pinned = this.fetchVersion(reference.targetVersionId);
+      if (!pinned || pinned.objectId !== reference.targetObjectId) return null;
+      if (!isInsideAsOf(pinned, point)) return null;
+      if (reference.targetObjectHash !== undefined && pinned.objectHash !== reference.targetObjectHash) return null;
+      return pinned;
+    }
 
-function hashObject(parts: {
-  objectId: string;
-  versionNo: number;
-  contentStructHash: string;
-  fileBytesHash: string | null;
-  metadataHash: string;
-  refsHash: string;
-}): string {
-  return sha256(
-    [
-      'v1',
-      parts.objectId,
-      String(parts.versionNo),
-      parts.contentStructHash,
-      parts.fileBytesHash ?? '',
-      parts.metadataHash,
-      parts.refsHash,
-    ].join('|'),
-  );
+    if (reference.targetFieldHashes !== undefined) {
+      const anchors = canonicalJson(reference.targetFieldHashes, 'target_field_hashes');
+      const row = (
+        'txSeq' in point
+          ? this.stmt(SQL.asOfByFieldHashesAndSeq).get(reference.targetObjectId, point.txSeq, anchors)
+          : this.stmt(SQL.asOfByFieldHashesAndTime).get(reference.targetObjectId, point.txTime, anchors)
+      ) as VersionRow | undefined;
+      return row ? this.toRecord(row) : null;
+    }
+
+    if (reference.targetObjectHash === undefined) return null;
+    const row = (
+      'txSeq' in point
+        ? this.stmt(SQL.asOfByHashAndSeq).get(reference.targetObjectId, reference.targetObjectHash, point.txSeq)
+        : this.stmt(SQL.asOfByHashAndTime).get(reference.targetObjectId, reference.targetObjectHash, point.txTime)
+    ) as VersionRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  private objectExists(objectId: string): boolean {
+    return Boolean((this.stmt(SQL.objectExists).get(objectId) as { ok: number } | undefined)?.ok);
+  }
 }
 
 function mapVersion(row: VersionRow): VersionRecord {
@@ -583,11 +1814,17 @@ function mapVersion(row: VersionRow): VersionRecord {
     toolName: row.tool_name,
     status: row.status,
     charCount: row.char_count,
+    deleted: Number(row.deleted) === 1,
+    validFrom: row.valid_from,
+    validTo: row.valid_to,
     metadataJson: row.metadata_json,
+    fieldHashesJson: row.field_hashes_json,
     contentStructHash: row.content_struct_hash,
     metadataHash: row.metadata_hash,
     refsHash: row.refs_hash,
     objectHash: row.object_hash,
+    hashAlgo: row.hash_algo,
+    hashSchemaVersion: Number(row.hash_schema_version),
   };
 }
 
@@ -599,6 +1836,10 @@ function mapRef(row: RefRow): ReferenceRecord {
     targetObjectId: row.target_object_id,
     targetVersionId: row.target_version_id ?? undefined,
     targetObjectHash: row.target_object_hash ?? undefined,
+    targetFieldHashes:
+      row.target_field_hashes_json === null
+        ? undefined
+        : (JSON.parse(row.target_field_hashes_json) as Record<string, string>),
     refKind: row.ref_kind,
     mode: row.mode,
     resolved: row.resolved === 1,
@@ -606,71 +1847,99 @@ function mapRef(row: RefRow): ReferenceRecord {
   };
 }
 
-function normalizeCharCount(value: number | null | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (!Number.isInteger(value) || value < 0) throw new Error(`invalid_char_count:${value}`);
-  return value;
+function refRowToDraft(row: RefRow): RefDraft {
+  return {
+    fromPath: row.from_path,
+    targetObjectId: row.target_object_id,
+    targetVersionId: row.target_version_id,
+    targetObjectHash: row.target_object_hash,
+    targetFieldHashesJson: row.target_field_hashes_json,
+    refKind: row.ref_kind,
+    mode: row.mode,
+    refMetadataJson: row.ref_metadata_json,
+  };
 }
 
-function normalizeLimit(value: number): number {
-  if (!Number.isInteger(value) || value <= 0) throw new Error(`invalid_limit:${value}`);
-  return value;
+function gcReport(dryRun: boolean, candidates: GcCandidateRow[], rows: GcReport['rows'], blobBytes: number): GcReport {
+  return {
+    dryRun,
+    prunedVersionIds: candidates.map((candidate) => candidate.version_id),
+    rows,
+    blobBytes,
+  };
 }
 
-function asMode(value: unknown, path: string): ReferenceMode {
-  if (value !== 'dynamic' && value !== 'pinned') throw new Error(`invalid_ref_mode:${path}`);
-  return value;
+function normalizeRetryOptions(retry: SqliteRetryOptions = {}): Required<SqliteRetryOptions> {
+  const normalized = { ...DEFAULT_RETRY, ...retry };
+  if (!Number.isInteger(normalized.maxAttempts) || normalized.maxAttempts < 1) {
+    throw new Error(`invalid_retry:maxAttempts:${normalized.maxAttempts}`);
+  }
+  for (const key of ['initialDelayMs', 'maxDelayMs'] as const) {
+    if (!Number.isFinite(normalized[key]) || normalized[key] < 0) {
+      throw new Error(`invalid_retry:${key}:${normalized[key]}`);
+    }
+  }
+  return normalized;
 }
 
-function asNullableString(value: unknown, path: string): string | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value !== 'string') throw new Error(`invalid_string:${path}`);
-  return value;
+function isBusyError(error: unknown): boolean {
+  const errcode = (error as { errcode?: unknown } | null)?.errcode;
+  return typeof errcode === 'number' && (errcode & 0xff) === SQLITE_BUSY;
 }
 
-function ensureString(value: unknown, path: string, nonEmpty = false): string {
-  if (value === undefined || value === null) {
-    if (nonEmpty) throw new Error(`invalid_non_empty_string:${path}`);
-    return '';
-  }
-  if (typeof value !== 'string') throw new Error(`invalid_string:${path}`);
-  if (nonEmpty && value.length === 0) throw new Error(`invalid_non_empty_string:${path}`);
-  return value;
+/** SQLite errors raised while parsing an FTS5 `MATCH` expression, as opposed to storage failures. */
+function isFtsQueryError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return /^(fts5: syntax error|no such column:|unterminated string)/.test(message);
 }
 
-function asRecord(value: unknown, path: string): Record<string, unknown> {
-  if (!isRecord(value)) throw new Error(`invalid_object:${path}`);
-  return value;
+function backoffDelay(retry: Required<SqliteRetryOptions>, attempt: number): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.initialDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function canonicalJson(value: unknown, label: string): string {
-  let raw: string | undefined;
-  try {
-    raw = JSON.stringify(value);
-  } catch {
-    throw new Error(`non_json_serializable:${label}`);
-  }
-  if (raw === undefined) throw new Error(`non_json_serializable:${label}`);
-  return stableJson(JSON.parse(raw) as JsonValue);
+function countOf(row: unknown): number {
+  return Number((row as { n: number } | undefined)?.n ?? 0);
 }
 
-type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
-
-function stableJson(value: JsonValue): string {
-  if (value === null || typeof value !== 'object') return JSON.stringify(value);
-  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
-  const keys = Object.keys(value).sort();
-  return `{${keys.map((key) => `${JSON.stringify(key)}:${stableJson(value[key])}`).join(',')}}`;
+function changesOf(result: { changes: number | bigint }): number {
+  return Number(result.changes);
 }
 
-function escapeLike(input: string): string {
-  return input.replace(/[\\%_]/g, '\\$&');
+function mapObjectHead(row: ObjectHeadRow): ObjectHeadSummary {
+  return {
+    objectId: row.object_id,
+    objectType: row.object_type,
+    versionId: row.version_id,
+    versionNo: Number(row.version_no),
+    txSeq: Number(row.tx_seq),
+    txTime: row.tx_time,
+    path: row.path,
+    sessionId: row.session_id,
+    toolName: row.tool_name,
+    status: row.status,
+    charCount: row.char_count === null ? null : Number(row.char_count),
+    objectHash: row.object_hash,
+    deleted: Number(row.deleted) === 1,
+    locked: Number(row.locked) === 1,
+    nickname: row.nickname,
+  };
 }
 
-function sha256(value: string | Uint8Array): string {
-  return createHash('sha256').update(value).digest('hex');
+/** Smallest string greater than every string that starts with `prefix`, or `null` if there is none. */
+function prefixUpperBound(prefix: string): string | null {
+  const codePoints = [...prefix];
+  while (codePoints.length > 0) {
+    const last = codePoints.pop()!.codePointAt(0)!;
+    if (last < 0x10ffff) {
+      const next = last + 1 === 0xd800 ? 0xe000 : last + 1;
+      return codePoints.join('') + String.fromCodePoint(next);
+    }
+  }
+  return null;
 }
+
@@ -0,0 +1,31 @@
+import { parseStorageDaemonArgs, startStorageDaemon } from './storage-server.js';
+
+/**
+ * @impldoc Storage daemon entry point
+ *
+ * `node dist/src/storage/storage-daemon.js --db <path> --socket <path>` (or
+ * `--port <n> [--host <loopback>]`) serves one SQLite store through
+ * `startStorageDaemon`. Once listening it prints one JSON line
+ * `{"listening": <address>}` to stdout (for TCP including the generated
+ * bearer `token` clients must present); `SIGINT` / `SIGTERM` close the server
+ * and the DB before exiting. Bad arguments fail with
+ * `invalid_daemon_args:<detail>` (see `parseStorageDaemonArgs`).
+ */
+async function main(): Promise<void> {
+  const daemon = await startStorageDaemon(parseStorageDaemonArgs(process.argv.slice(2)));
+  process.stdout.write(`${JSON.stringify({ listening: daemon.address })}\n`);
+
+  const shutdown = () => {
+    daemon.close().then(
+      () => process.exit(0),
+      () => process.exit(1),
+    );
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
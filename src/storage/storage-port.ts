@@ -14,6 +14,10 @@
  * This file is canonical for the public storage contract at the implementation
  * level; generated implementation docs are compiled from these docstrings.
  */
+import type { ContentStructError } from './content-schema.js';
+import type { ListSessionsParams, SessionComparison, SessionListPage } from './session-catalogue.js';
+import type { VersionDiff } from './version-diff.js';
+
 export type ObjectType = 'file' | 'toolcall' | 'chat' | 'session' | 'system_prompt';
 export type WriterKind = 'client' | 'watcher' | 'system';
 export type WriteReason = 'manual' | 'watcher_sync' | 'import' | 'system';
@@ -30,6 +34,31 @@ export type ReferenceMode = 'dynamic' | 'pinned';
  * Session rule:
  * - `sessionId` is required and non-empty when `objectType='session'`
  *
+ * Tombstone rule:
+ * - `deleted: true` marks a tombstone version: the object is logically
+ *   deleted as of that version. A tombstone carries no string `content` and no
+ *   `fileBytes` (`invalid_tombstone:<field>`); other envelope fields (e.g. the
+ *   `path` the object was deleted from) are kept as given. Any later version
+ *   written without `deleted` undeletes the object. `deleted` is not a hash
+ *   input, but an idempotent replay must repeat it.
+ *
+ * Validity rule:
+ * - `validFrom` / `validTo` record when the version's fact was true,
+ *   independently of `txTime` (e.g. history imported after the fact). Both are
+ *   canonical ISO-8601 UTC timestamps (`Date#toISOString()` form); the interval
+ *   is half-open `[validFrom, validTo)`. `validTo` requires `validFrom` and
+ *   must be later (`invalid_validity:<detail>`). A version without `validFrom`
+ *   makes no valid-time claim.
+ * - A missing `validTo` leaves the interval open: it lasts until it is
+ *   superseded, i.e. until the next later `validFrom` of the same object (a
+ *   version written later with a later `validFrom` closes it; one with an
+ *   earlier `validFrom` and no `validTo` is in turn closed by it). The stored
+ *   `validTo` stays `null`; the close is implied by the other versions.
+ * - Closed intervals may not overlap any other interval of the object, and no
+ *   two versions may share a `validFrom` (`validity_overlap` conflict). Like
+ *   `deleted`, the interval is not a hash input, but an idempotent replay must
+ *   repeat it.
+ *
  * Conflict rule:
  * - `expectedCurrentVersionId` drives optimistic head checking
  * - `requestId` drives idempotent replay semantics
@@ -53,6 +82,9 @@ export interface VersionWriteInput {
   toolName?: string | null;
   status?: string | null;
   charCount?: number | null;
+  deleted?: boolean;
+  validFrom?: string | null;
+  validTo?: string | null;
 
   metadata: Record<string, unknown>;
 
@@ -80,13 +112,21 @@ export interface VersionRecord {
   toolName: string | null;
   status: string | null;
   charCount: number | null;
+  deleted: boolean;
+  validFrom: string | null;
+  validTo: string | null;
 
   metadataJson: string;
+  // canonical `{"field_hash:<field>": sha256}` over the payload's top-level fields
+  fieldHashesJson: string;
 
   contentStructHash: string;
   metadataHash: string;
   refsHash: string;
   objectHash: string;
+  // digest algorithm and `object_hash` preimage version the hashes above were computed with
+  hashAlgo: string;
+  hashSchemaVersion: number;
 }
 
 export interface ReferenceRecord {
@@ -97,6 +137,7 @@ export interface ReferenceRecord {
   targetObjectId: string;
   targetVersionId?: string;
   targetObjectHash?: string;
+  targetFieldHashes?: Record<string, string>;
 
   refKind: string;
   mode: ReferenceMode;
@@ -104,31 +145,328 @@ export interface ReferenceRecord {
   refMetadataJson?: string;
 }
 
+/**
+ * @impldoc As-of read points
+ *
+ * `AsOfPoint` selects a historical cut of the store. `txSeq` is the
+ * authoritative form: the cut includes every version with `tx_seq <= txSeq`.
+ * `txTime` is an observability convenience: it selects, per object, the
+ * highest-`tx_seq` version whose recorded ISO-8601 `tx_time` is `<= txTime`.
+ *
+ * Valid time is the second axis: `getAsOfValidTime(objectId, validTime, at?)`
+ * returns the version whose validity interval contains `validTime`
+ * (`validFrom <= validTime < validTo`, an open interval ending at the next
+ * later `validFrom`), or `null`. Intervals of one object never overlap, so at
+ * most one version matches; with `at` only versions inside that cut are
+ * considered ("what did the store know at `at` about `validTime`"), including
+ * for supersession. `validTime` must be a canonical ISO-8601 UTC timestamp
+ * (`invalid_valid_time:<value>`).
+ */
+export type AsOfPoint = { txSeq: number } | { txTime: string };
+
+export interface ResolvedReferenceRecord {
+  reference: ReferenceRecord;
+  target: VersionRecord | null;
+}
+
+/**
+ * @impldoc Session as-of snapshot
+ *
+ * `SessionSnapshot` is a session version as it stood at an `AsOfPoint`,
+ * together with every reference that version declares. Dynamic references are
+ * resolved to the target HEAD at the same point; pinned references are
+ * resolved to their anchored version provided it existed at that point (a
+ * field-hash pin to the newest matching version inside the point).
+ * `target` is `null` when the reference does not resolve at the point.
+ */
+export interface SessionSnapshot {
+  session: VersionRecord;
+  references: ResolvedReferenceRecord[];
+}
+
+/**
+ * @impldoc Change feed
+ *
+ * `readChanges` tails committed versions in `tx_seq` order. `afterTxSeq` is an
+ * exclusive cursor (default `0`, i.e. from the start); `limit` defaults to
+ * `100`. `objectType` / `sessionId` narrow the feed to matching versions.
+ *
+ * A page's `cursor` is the `tx_seq` of its last entry, or the incoming
+ * `afterTxSeq` when the page is empty, so passing it back as `afterTxSeq`
+ * resumes without gaps or duplicates. `tx_seq` is strictly monotonic, so a
+ * consumer that persists its cursor can restart at any time.
+ */
+export interface ChangeFeedParams {
+  afterTxSeq?: number;
+  limit?: number;
+  objectType?: ObjectType;
+  sessionId?: string;
+}
+
+export interface ChangeFeedEntry {
+  objectType: ObjectType;
+  record: VersionRecord;
+}
+
+export interface ChangeFeedPage {
+  changes: ChangeFeedEntry[];
+  cursor: number;
+}
+
+export type ChangeListener = (change: ChangeFeedEntry) => void;
+
+/**
+ * @impldoc Reference graph traversal
+ *
+ * `traverseReferences` walks `doc_references` transitively from one version.
+ * Nodes are versions; `from` names the start version directly or an object
+ * (its HEAD). An edge is one reference row resolved the same way as
+ * `getSessionAsOf` resolves it at the current HEAD:
+ * - `dynamic`: the target object's HEAD version
+ * - `pinned` by `target_version_id`: that version, provided it belongs to the
+ *   target object and matches `target_object_hash` when both are set
+ * - `pinned` by hash only: the newest version of the target object with that
+ *   `object_hash`
+ * - `pinned` by field hashes: the newest version of the target object whose
+ *   `field_hashes_json` contains every pinned entry
+ *
+ * `direction: 'out'` follows references from each node to their targets;
+ * `'in'` follows them backwards, from each node to the versions whose
+ * references resolve to it (a `dynamic` reference only reaches a node that is
+ * its object's HEAD). `mode` and `refKinds` restrict which references are
+ * followed. `depth` (default `1`, at most `MAX_TRAVERSAL_DEPTH`) bounds the
+ * number of hops.
+ *
+ * Each node appears once with the smallest hop count at which it was reached
+ * (the start is depth `0`), so cycles terminate. Every edge leaving a node
+ * closer than `depth` is returned once, with the depth of its far end; on
+ * `'out'` an edge whose target does not resolve has `resolvedVersionId: null`
+ * and is not expanded. Returns `null` when the start version or object does
+ * not exist.
+ */
+export const MAX_TRAVERSAL_DEPTH = 64;
+
+export interface TraverseReferencesParams {
+  from: { versionId: string } | { objectId: string };
+  direction: 'out' | 'in';
+  depth?: number;
+  mode?: ReferenceMode;
+  refKinds?: string[];
+}
+
+export interface ReferenceGraphNode {
+  versionId: string;
+  objectId: string;
+  objectType: ObjectType;
+  versionNo: number;
+  isHead: boolean;
+  depth: number;
+}
+
+export interface ReferenceGraphEdge {
+  reference: ReferenceRecord;
+  resolvedVersionId: string | null;
+  depth: number;
+}
+
+export interface ReferenceGraph {
+  rootVersionId: string;
+  nodes: ReferenceGraphNode[];
+  edges: ReferenceGraphEdge[];
+}
+
+/**
+ * @impldoc Object listing
+ *
+ * `listObjects` enumerates objects by their HEAD version. Every filter applies
+ * to the HEAD only: an object whose HEAD moved to another session, path or
+ * status is listed under the new value, not the old one.
+ * - `objectType`, `sessionId`, `toolName`, `status`: exact match
+ * - `pathPrefix`: HEAD `path` starts with the prefix (case-sensitive)
+ * - `updatedAfterTxSeq`: HEAD `tx_seq` is greater than the value, so a caller
+ *   can pick up objects changed since a previously seen `tx_seq`
+ * - `deleted`: `true` lists only objects whose HEAD is a tombstone, `false`
+ *   only live objects; omitted lists both
+ *
+ * Entries are ordered by `objectId`. `limit` defaults to `100`. A page's
+ * `cursor` is the last `objectId` on it, or `null` when no further entries
+ * match; pass it back as `cursor` to read the next page. Summaries carry the
+ * HEAD envelope and hashes plus the object's current `locked` / `nickname`
+ * attributes, but not the payload; use `getLatest` for that.
+ */
+export interface ListObjectsParams {
+  objectType?: ObjectType;
+  sessionId?: string;
+  pathPrefix?: string;
+  toolName?: string;
+  status?: string;
+  updatedAfterTxSeq?: number;
+  deleted?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ObjectHeadSummary {
+  objectId: string;
+  objectType: ObjectType;
+  versionId: string;
+  versionNo: number;
+  txSeq: number;
+  txTime: string;
+  path: string | null;
+  sessionId: string | null;
+  toolName: string | null;
+  status: string | null;
+  charCount: number | null;
+  objectHash: string;
+  deleted: boolean;
+  locked: boolean;
+  nickname: string | null;
+}
+
+export interface ObjectListPage {
+  objects: ObjectHeadSummary[];
+  cursor: string | null;
+}
+
+/**
+ * @impldoc Object attributes
+ *
+ * `locked` and `nickname` are mutable per-object attributes, not part of any
+ * version: changing them writes no version, moves no `tx_seq` and changes no
+ * hash. They describe how the runtime treats the object (a locked object stays
+ * in context; a nickname is an alias for its `objectId`).
+ *
+ * `setObjectAttributes` changes the given fields (omitted fields keep their
+ * value; `nickname: null` clears it) and returns the resulting attributes, or
+ * `null` when the object has no version. Each call that changes a value
+ * appends one audit entry with the resulting attributes, the `writerId` and
+ * the wall-clock time; `getObjectAttributeHistory` returns them oldest first.
+ * Invalid updates throw `invalid_object_attributes:<field>` (`empty` when
+ * neither field is given; a nickname must be a non-blank string).
+ */
+export interface ObjectAttributes {
+  objectId: string;
+  locked: boolean;
+  nickname: string | null;
+}
+
+export interface ObjectAttributesUpdate {
+  locked?: boolean;
+  nickname?: string | null;
+  writerId: string;
+}
+
+export interface ObjectAttributeChange extends ObjectAttributes {
+  eventSeq: number;
+  writerId: string;
+  changedAt: string;
+}
+
+export type PutVersionResult =
+  | { ok: true; record: VersionRecord; idempotentReplay: boolean }
+  | { ok: false; validation: true; reason: 'invalid_session_id' }
+  | { ok: false; validation: true; reason: 'invalid_content_struct'; errors: ContentStructError[] }
+  | {
+      ok: false;
+      conflict: true;
+      reason: 'version_conflict' | 'idempotency_mismatch' | 'idempotency_pruned' | 'validity_overlap';
+    };
+
+/**
+ * @impldoc Batch write outcomes
+ *
+ * `putVersions` applies every input in order inside one transaction and is
+ * all-or-nothing. Each input goes through the same rules as `putVersion`
+ * (session identity, idempotency before `expectedCurrentVersionId`), evaluated
+ * against the store as modified by the earlier inputs of the batch, so refs
+ * resolve against objects created earlier in the batch.
+ *
+ * On success `results[i]` is the `putVersion` success for `inputs[i]`. On the
+ * first failure the whole batch is rolled back: `failedIndex` names the
+ * failing input, `results[failedIndex]` carries its validation/conflict
+ * result, and every other entry is `{ ok: false, aborted: true }`.
+ */
+export type PutVersionsResult =
+  | { ok: true; results: Array<Extract<PutVersionResult, { ok: true }>> }
+  | {
+      ok: false;
+      failedIndex: number;
+      results: Array<Exclude<PutVersionResult, { ok: true }> | { ok: false; aborted: true }>;
+    };
+
 /**
  * @impldoc StoragePort read/write API
  *
  * `putVersion` returns one of three outcome classes:
  * - success with a durable `VersionRecord`
- * - validation failure (`invalid_session_id`)
- * - conflict (`version_conflict` or `idempotency_mismatch`)
+ * - validation failure (`invalid_session_id`, or `invalid_content_struct` with
+ *   the JSON-pointer `errors` of a payload that breaks its type's content
+ *   schema)
+ * - conflict (`version_conflict`, `idempotency_mismatch`, `idempotency_pruned`
+ *   when the version a request id wrote was garbage-collected, or
+ *   `validity_overlap`)
+ *
+ * `putVersions` groups several such writes into one atomic batch.
  *
  * Loader/runtime read behavior is intentionally narrow:
  * - `getLatest` / `getHistory` for object state
- * - reference queries for dependency traversal
+ * - `getVersion` / `getVersionsByObjectHash` for index-backed lookup of one
+ *   version by anchor (pinned refs), independent of history length;
+ *   `getVersionsByObjectHash` returns matches in `tx_seq` order
+ * - `getVersionByFieldHashes` for the newest version of one object whose
+ *   `field_hashes_json` contains every given anchor (field-hash pins),
+ *   optionally inside an `AsOfPoint`; the backend checks the object's versions
+ *   newest first without loading them into the caller, so the cost grows with
+ *   the number of versions newer than the match (the whole history when none
+ *   matches); malformed anchors fail like a malformed `target_field_hashes`
+ *   (`invalid_field_hash_anchor:fieldHashes...`)
+ * - `getAsOf` / `getSessionAsOf` for historical reconstruction
+ * - `getAsOfValidTime` for the version whose validity interval contains a
+ *   valid time, optionally as known at an `AsOfPoint`
+ * - `readChanges` for incremental tailing by `tx_seq`
+ * - `listObjects` for filtered enumeration of object HEADs
+ * - `listSessions` / `compareSessions` for the session catalogue
+ * - `getObjectAttributes` / `setObjectAttributes` for the mutable `locked` /
+ *   `nickname` attributes, with `getObjectAttributeHistory` as their audit trail
+ * - reference queries and `traverseReferences` for dependency traversal;
+ *   `queryReferences({ fromPathPrefix })` matches `fromPath` by a literal,
+ *   case-sensitive prefix
+ * - `diffVersions` for a structured diff of two versions of one object
  *
  * This keeps the loader on the `StoragePort` boundary and avoids direct SQL
  * coupling in the active runtime.
  */
 export interface StoragePort {
-  putVersion(input: VersionWriteInput): Promise<
-    | { ok: true; record: VersionRecord; idempotentReplay: boolean }
-    | { ok: false; validation: true; reason: 'invalid_session_id' }
-    | { ok: false; conflict: true; reason: 'version_conflict' | 'idempotency_mismatch' }
-  >;
+  putVersion(input: VersionWriteInput): Promise<PutVersionResult>;
+  putVersions(inputs: VersionWriteInput[]): Promise<PutVersionsResult>;
 
   getLatest(objectId: string): Promise<VersionRecord | null>;
   getHistory(objectId: string, order?: 'asc' | 'desc'): Promise<VersionRecord[]>;
 
+  getVersion(versionId: string): Promise<VersionRecord | null>;
+  getVersionsByObjectHash(objectHash: string): Promise<VersionRecord[]>;
+  getVersionByFieldHashes(
+    objectId: string,
+    fieldHashes: Record<string, string>,
+    at?: AsOfPoint,
+  ): Promise<VersionRecord | null>;
+
+  getAsOf(objectId: string, at: AsOfPoint): Promise<VersionRecord | null>;
+  getSessionAsOf(sessionObjectId: string, at: AsOfPoint): Promise<SessionSnapshot | null>;
+  getAsOfValidTime(objectId: string, validTime: string, at?: AsOfPoint): Promise<VersionRecord | null>;
+
+  readChanges(params?: ChangeFeedParams): Promise<ChangeFeedPage>;
+
+  listObjects(params?: ListObjectsParams): Promise<ObjectListPage>;
+
+  listSessions(params?: ListSessionsParams): Promise<SessionListPage>;
+  compareSessions(sessionObjectIdA: string, sessionObjectIdB: string): Promise<SessionComparison | null>;
+
+  getObjectAttributes(objectId: string): Promise<ObjectAttributes | null>;
+  setObjectAttributes(objectId: string, update: ObjectAttributesUpdate): Promise<ObjectAttributes | null>;
+  getObjectAttributeHistory(objectId: string): Promise<ObjectAttributeChange[]>;
+
   queryReferences(params: {
     fromVersionId?: string;
     fromPathPrefix?: string;
@@ -149,4 +487,8 @@ export interface StoragePort {
     targetObjectHash: string,
     params?: { mode?: ReferenceMode; resolved?: boolean; limit?: number },
   ): Promise<ReferenceRecord[]>;
+
+  traverseReferences(params: TraverseReferencesParams): Promise<ReferenceGraph | null>;
+
+  diffVersions(fromVersionId: string, toVersionId: string): Promise<VersionDiff | null>;
 }
@@ -0,0 +1,120 @@
+import type { StoragePort, VersionWriteInput } from './storage-port.js';
+
+/**
+ * @impldoc Storage RPC protocol
+ *
+ * `StorageServer` and `RemoteStorage` speak JSON-RPC 2.0 over HTTP, on a Unix
+ * socket or a loopback TCP port. Every request is a `POST /` whose body is one
+ * JSON-RPC request object:
+ * - `method` is a `StoragePort` method name (`STORAGE_RPC_METHODS`)
+ * - `params` is the positional argument array; trailing `undefined`
+ *   arguments are omitted
+ *
+ * A result is returned as `result`. An error thrown by the storage is returned
+ * as `{ code: STORAGE_RPC_STORAGE_ERROR, message }` with the thrown message
+ * unchanged, so `code:detail` errors read the same through the client.
+ * Protocol errors use the JSON-RPC codes (`-32700` parse error, `-32600`
+ * invalid request, `-32601` unknown method, `-32602` invalid params).
+ *
+ * JSON has no byte strings: `fileBytes` of a write input travels as
+ * `fileBytesBase64` (`null` stays `null`) and is decoded before the write.
+ */
+export type StorageRpcMethod = keyof StoragePort;
+
+const METHODS: Record<StorageRpcMethod, true> = {
+  putVersion: true,
+  putVersions: true,
+  getLatest: true,
+  getHistory: true,
+  getVersion: true,
+  getVersionsByObjectHash: true,
+  getVersionByFieldHashes: true,
+  getAsOf: true,
+  getAsOfValidTime: true,
+  getSessionAsOf: true,
+  readChanges: true,
+  listObjects: true,
+  listSessions: true,
+  compareSessions: true,
+  getObjectAttributes: true,
+  setObjectAttributes: true,
+  getObjectAttributeHistory: true,
+  queryReferences: true,
+  getReferrersByTargetVersion: true,
+  getReferrersByTargetHash: true,
+  traverseReferences: true,
+  diffVersions: true,
+};
+
+export const STORAGE_RPC_METHODS = Object.keys(METHODS) as StorageRpcMethod[];
+
+export const STORAGE_RPC_PARSE_ERROR = -32700;
+export const STORAGE_RPC_INVALID_REQUEST = -32600;
+export const STORAGE_RPC_UNKNOWN_METHOD = -32601;
+export const STORAGE_RPC_INVALID_PARAMS = -32602;
+export const STORAGE_RPC_STORAGE_ERROR = -32000;
+
+/** Largest request body the server reads. */
+export const STORAGE_RPC_MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+export interface StorageRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+export interface StorageRpcError {
+  code: number;
+  message: string;
+}
+
+export type StorageRpcResponse =
+  | { jsonrpc: '2.0'; id: number | string | null; result: unknown }
+  | { jsonrpc: '2.0'; id: number | string | null; error: StorageRpcError };
+
+type WireVersionWriteInput = Omit<VersionWriteInput, 'fileBytes'> & { fileBytesBase64?: string | null };
+
+export function isStorageRpcMethod(method: unknown): method is StorageRpcMethod {
+  return typeof method === 'string' && Object.hasOwn(METHODS, method);
+}
+
+export function encodeRpcParams(method: StorageRpcMethod, args: unknown[]): unknown[] {
+  const params = [...args];
+  while (params.length > 0 && params[params.length - 1] === undefined) params.pop();
+
+  if (method === 'putVersion') params[0] = toWireWrite(params[0] as VersionWriteInput);
+  if (method === 'putVersions' && Array.isArray(params[0])) params[0] = params[0].map(toWireWrite);
+  return params;
+}
+
+export function decodeRpcParams(method: StorageRpcMethod, params: unknown[]): unknown[] {
+  const args = [...params];
+  if (method === 'putVersion') args[0] = fromWireWrite(args[0]);
+  if (method === 'putVersions' && Array.isArray(args[0])) args[0] = args[0].map(fromWireWrite);
+  return args;
+}
+
+function toWireWrite(input: VersionWriteInput): unknown {
+  if (input === null || typeof input !== 'object' || !('fileBytes' in input)) return input;
+
+  const { fileBytes, ...rest } = input;
+  if (fileBytes === undefined) return rest;
+  const wire: WireVersionWriteInput = { ...rest, fileBytesBase64: null };
+  if (fileBytes !== null) wire.fileBytesBase64 = Buffer.from(fileBytes).toString('base64');
+  return wire;
+}
+
+function fromWireWrite(value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || !('fileBytesBase64' in value)) return value;
+
+  const { fileBytesBase64, ...rest } = value as WireVersionWriteInput;
+  if (fileBytesBase64 === undefined) return rest;
+  if (fileBytesBase64 !== null && typeof fileBytesBase64 !== 'string') {
+    throw new Error('invalid_rpc_params:fileBytesBase64');
+  }
+  return {
+    ...rest,
+    fileBytes: fileBytesBase64 === null ? null : new Uint8Array(Buffer.from(fileBytesBase64, 'base64')),
+  };
+}
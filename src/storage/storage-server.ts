@@ -0,0 +1,259 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SqliteStorage, type SqliteStorageOptions } from './sqlite-storage.js';
+import type { StoragePort } from './storage-port.js';
+import {
+  decodeRpcParams,
+  isStorageRpcMethod,
+  STORAGE_RPC_INVALID_PARAMS,
+  STORAGE_RPC_INVALID_REQUEST,
+  STORAGE_RPC_MAX_BODY_BYTES,
+  STORAGE_RPC_PARSE_ERROR,
+  STORAGE_RPC_STORAGE_ERROR,
+  STORAGE_RPC_UNKNOWN_METHOD,
+  type StorageRpcError,
+  type StorageRpcResponse,
+} from './storage-rpc.js';
+
+/**
+ * @impldoc Storage server
+ *
+ * `StorageServer` serves one `StoragePort` to any number of processes over the
+ * storage RPC protocol (see `storage-rpc.ts`). It listens either on a Unix
+ * socket (`{ socketPath }`) or on a TCP port of a loopback host
+ * (`{ port, host? }`, host `127.0.0.1` by default; non-loopback hosts are
+ * refused with `storage_server_non_loopback_host:<host>`).
+ *
+ * Every request must be a `POST` with `Content-Type: application/json` (else
+ * `415`) and must not carry an `Origin` header (else `403`), so a browser page
+ * cannot reach the store through a form post or a cross-origin `fetch`. On TCP
+ * the server also checks:
+ * - `Host` must name a loopback host and the bound port (else `403`), which
+ *   defeats DNS rebinding
+ * - `Authorization: Bearer <token>` must carry the listener's token (else
+ *   `401`). `listen` takes `token` or generates a random one and returns it in
+ *   the bound address, which `RemoteStorage` sends with every call
+ * Unix sockets rely on file permissions and need no token. A body over
+ * `STORAGE_RPC_MAX_BODY_BYTES` is refused with `413`. Rejections answer a
+ * JSON-RPC error (`unsupported_content_type`, `forbidden_origin`,
+ * `forbidden_host`, `unauthorized`, `request_too_large`) with the HTTP status
+ * above.
+ *
+ * The server adds no semantics of its own: each request is one call on the
+ * wrapped storage, so ordering, idempotency and conflict rules are exactly
+ * those of the backend. Requests are served concurrently; a SQLite backend
+ * runs each write in its own transaction. `close()` stops accepting requests
+ * and waits for open connections; it does not close the storage.
+ *
+ * `startStorageDaemon` opens a `SqliteStorage` on `dbPath` with WAL journaling,
+ * a busy timeout and write retries (each overridable through `sqlite`) and
+ * serves it. Its `close()` stops the server and then closes the DB.
+ * `parseStorageDaemonArgs` reads the daemon command line (`--db <path>` plus
+ * either `--socket <path>` or `--port <n> [--host <loopback>]`).
+ */
+export type StorageServerAddress = { socketPath: string } | { port: number; host?: string; token?: string };
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+type TcpGuard = { port: number; token: Buffer };
+
+export class StorageServer {
+  private readonly server: Server;
+  private tcp: TcpGuard | null = null;
+
+  constructor(private readonly storage: StoragePort) {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(() => response.destroy());
+    });
+  }
+
+  async listen(address: StorageServerAddress): Promise<StorageServerAddress> {
+    if ('port' in address && !LOOPBACK_HOSTS.has(address.host ?? '127.0.0.1')) {
+      throw new Error(`storage_server_non_loopback_host:${address.host}`);
+    }
+    if ('port' in address && address.token !== undefined && (typeof address.token !== 'string' || !address.token)) {
+      throw new Error('storage_server_invalid_token');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      const onListening = () => {
+        this.server.off('error', reject);
+        resolve();
+      };
+      if ('socketPath' in address) this.server.listen(address.socketPath, onListening);
+      else this.server.listen(address.port, address.host ?? '127.0.0.1', onListening);
+    });
+
+    if ('socketPath' in address) return address;
+    const bound = this.server.address() as AddressInfo;
+    const token = address.token ?? randomBytes(32).toString('hex');
+    this.tcp = { port: bound.port, token: Buffer.from(token) };
+    return { port: bound.port, host: address.host ?? '127.0.0.1', token };
+  }
+
+  async close(): Promise<void> {
+    if (!this.server.listening) return;
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeIdleConnections();
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'POST') {
+      response.writeHead(405, { allow: 'POST' }).end();
+      return;
+    }
+    const rejection = this.screen(request);
+    if (rejection) {
+      const reply = failure(null, STORAGE_RPC_INVALID_REQUEST, rejection.message);
+      response
+        .writeHead(rejection.status, { 'content-type': 'application/json', connection: 'close' })
+        .end(JSON.stringify(reply));
+      return;
+    }
+
+    const body = await readBody(request);
+    if (body === null) {
+      const reply = failure(null, STORAGE_RPC_INVALID_REQUEST, 'request_too_large');
+      response.writeHead(413, { 'content-type': 'application/json', connection: 'close' }).end(JSON.stringify(reply));
+      return;
+    }
+
+    const reply = await this.dispatch(body);
+    response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(reply));
+  }
+
+  private screen(request: IncomingMessage): { status: number; message: string } | null {
+    const mediaType = request.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (mediaType !== 'application/json') return { status: 415, message: 'unsupported_content_type' };
+    if (request.headers.origin !== undefined) return { status: 403, message: 'forbidden_origin' };
+    if (!this.tcp) return null;
+
+    if (!isLoopbackHost(request.headers.host, this.tcp.port)) return { status: 403, message: 'forbidden_host' };
+    const presented = Buffer.from(/^Bearer (.+)$/.exec(request.headers.authorization ?? '')?.[1] ?? '');
+    if (presented.length !== this.tcp.token.length || !timingSafeEqual(presented, this.tcp.token)) {
+      return { status: 401, message: 'unauthorized' };
+    }
+    return null;
+  }
+
+  private async dispatch(body: string): Promise<StorageRpcResponse> {
+    let request: unknown;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      return failure(null, STORAGE_RPC_PARSE_ERROR, 'parse_error');
+    }
+
+    if (request === null || typeof request !== 'object' || Array.isArray(request)) {
+      return failure(null, STORAGE_RPC_INVALID_REQUEST, 'invalid_request');
+    }
+    const { jsonrpc, id = null, method, params = [] } = request as Record<string, unknown>;
+    if (jsonrpc !== '2.0' || (id !== null && typeof id !== 'number' && typeof id !== 'string')) {
+      return failure(null, STORAGE_RPC_INVALID_REQUEST, 'invalid_request');
+    }
+    if (!isStorageRpcMethod(method)) return failure(id, STORAGE_RPC_UNKNOWN_METHOD, `unknown_method:${String(method)}`);
+    if (!Array.isArray(params)) return failure(id, STORAGE_RPC_INVALID_PARAMS, 'invalid_params');
+
+    try {
+      const call = this.storage[method] as (...args: unknown[]) => Promise<unknown>;
+      const result = await call.apply(this.storage, decodeRpcParams(method, params));
+      return { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      return failure(id, STORAGE_RPC_STORAGE_ERROR, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+export interface StorageDaemonOptions {
+  dbPath: string;
+  listen: StorageServerAddress;
+  sqlite?: Omit<SqliteStorageOptions, 'path'>;
+}
+
+export interface StorageDaemon {
+  storage: SqliteStorage;
+  server: StorageServer;
+  address: StorageServerAddress;
+  close(): Promise<void>;
+}
+
+export async function startStorageDaemon(options: StorageDaemonOptions): Promise<StorageDaemon> {
+  const storage = new SqliteStorage({
+    journalMode: 'wal',
+    busyTimeoutMs: 5000,
+    retry: { maxAttempts: 5 },
+    ...options.sqlite,
+    path: options.dbPath,
+  });
+
+  const server = new StorageServer(storage);
+  let address: StorageServerAddress;
+  try {
+    address = await server.listen(options.listen);
+  } catch (error) {
+    storage.close();
+    throw error;
+  }
+
+  return {
+    storage,
+    server,
+    address,
+    close: async () => {
+      await server.close();
+      storage.close();
+    },
+  };
+}
+
+export function parseStorageDaemonArgs(argv: readonly string[]): { dbPath: string; listen: StorageServerAddress } {
+  const values = new Map<string, string>();
+  for (let index = 0; index < argv.length; index += 2) {
+    const flag = argv[index];
+    const value = argv[index + 1];
+    if (!['--db', '--socket', '--port', '--host'].includes(flag)) throw new Error(`invalid_daemon_args:${flag}`);
+    if (value === undefined) throw new Error(`invalid_daemon_args:${flag}:missing_value`);
+    values.set(flag, value);
+  }
+
+  const dbPath = values.get('--db');
+  if (!dbPath) throw new Error('invalid_daemon_args:--db:required');
+
+  const socketPath = values.get('--socket');
+  const port = values.get('--port');
+  if ((socketPath === undefined) === (port === undefined)) throw new Error('invalid_daemon_args:--socket|--port');
+  if (socketPath !== undefined) return { dbPath, listen: { socketPath } };
+
+  const portNumber = Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`invalid_daemon_args:--port:${port}`);
+  }
+  return { dbPath, listen: { port: portNumber, host: values.get('--host') } };
+}
+
+/** `Host` names a loopback host (`[::1]` bracketed or not) and exactly the bound port. */
+function isLoopbackHost(host: string | undefined, port: number): boolean {
+  const match = /^(\[[^\]]+\]|[^:]+):(\d+)$/.exec(host ?? '');
+  if (!match || Number(match[2]) !== port) return false;
+  return LOOPBACK_HOSTS.has(match[1].replace(/^\[(.*)\]$/, '$1').toLowerCase());
+}
+
+function failure(id: StorageRpcResponse['id'], code: number, message: string): StorageRpcResponse {
+  const error: StorageRpcError = { code, message };
+  return { jsonrpc: '2.0', id, error };
+}
+
+async function readBody(request: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > STORAGE_RPC_MAX_BODY_BYTES) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,352 @@
+import type {
+  ObjectType,
+  PutVersionResult,
+  ReferenceMode,
+  VersionWriteInput,
+  WriteReason,
+  WriterKind,
+} from './storage-port.js';
+import {
+  checkVersionHashes,
+  isRecord,
+  resolveHashSchema,
+  SHA256_HASHER,
+  type RefDraft,
+  type VersionHasher,
+  type VersionHashIssue,
+} from './version-codec.js';
+
+/**
+ * @impldoc Store bundle format
+ *
+ * A store bundle is a self-describing JSONL document used to move version
+ * history between stores. Every line is one JSON object with a `kind`:
+ * - `header` (first line): format name/version, export time, filter, counts
+ * - `object`: one `objects` row
+ * - `version`: one `object_versions` row without its blob, in `tx_seq` order
+ * - `reference`: one `doc_references` row
+ * - `blob`: file bytes keyed by `file_bytes_hash`, base64-encoded
+ *
+ * Row fields keep their SQLite column names so a bundle can be read without
+ * this code. `tx_seq` is informational only; an importing store allocates its
+ * own sequence numbers.
+ *
+ * Format version 2 adds the field-hash anchors (`field_hashes_json` on
+ * versions, `target_field_hashes_json` on references). Version 1 bundles are
+ * still accepted: anchors are recomputed from the payload on import, and a
+ * version 1 bundle cannot carry field-hash pins.
+ */
+export const STORE_BUNDLE_FORMAT = 'self-context-manager/store-bundle';
+export const STORE_BUNDLE_FORMAT_VERSION = 2;
+const READABLE_FORMAT_VERSIONS: readonly unknown[] = [1, STORE_BUNDLE_FORMAT_VERSION];
+
+export interface StoreBundleFilter {
+  sessionId?: string;
+  objectIds?: string[];
+  followReferences?: boolean;
+}
+
+export interface BundleHeaderLine {
+  kind: 'header';
+  format: typeof STORE_BUNDLE_FORMAT;
+  format_version: number;
+  exported_at: string;
+  filter: StoreBundleFilter;
+  counts: { objects: number; versions: number; references: number; blobs: number };
+}
+
+export interface BundleObjectLine {
+  kind: 'object';
+  object_id: string;
+  object_type: ObjectType;
+  locked: boolean;
+  nickname: string | null;
+  current_version_id: string | null;
+}
+
+export interface BundleVersionLine {
+  kind: 'version';
+  tx_seq: number;
+  version_id: string;
+  object_id: string;
+  version_no: number;
+  tx_time: string;
+  writer_id: string;
+  writer_kind: WriterKind;
+  write_reason: WriteReason;
+  content_struct_json: string;
+  path: string | null;
+  session_id: string | null;
+  tool_name: string | null;
+  status: string | null;
+  char_count: number | null;
+  // absent in bundles exported before tombstones existed
+  deleted?: boolean;
+  // absent in bundles exported before validity intervals existed
+  valid_from?: string | null;
+  valid_to?: string | null;
+  metadata_json: string;
+  // absent in bundles exported before field-hash anchors existed; derived, so recomputed on import
+  field_hashes_json?: string;
+  content_struct_hash: string;
+  file_bytes_hash: string | null;
+  metadata_hash: string;
+  refs_hash: string;
+  object_hash: string;
+  hash_algo: string;
+  hash_schema_version: number;
+}
+
+export interface BundleReferenceLine {
+  kind: 'reference';
+  ref_id: string;
+  from_version_id: string;
+  from_path: string;
+  target_object_id: string;
+  target_version_id: string | null;
+  target_object_hash: string | null;
+  // absent in bundles exported before field-hash anchors existed
+  target_field_hashes_json?: string | null;
+  ref_kind: string;
+  mode: ReferenceMode;
+  resolved: boolean;
+  ref_metadata_json: string | null;
+}
+
+export interface BundleBlobLine {
+  kind: 'blob';
+  hash: string;
+  bytes_base64: string;
+}
+
+export type BundleLine = BundleHeaderLine | BundleObjectLine | BundleVersionLine | BundleReferenceLine | BundleBlobLine;
+
+export interface ParsedStoreBundle {
+  header: BundleHeaderLine;
+  objects: Map<string, BundleObjectLine>;
+  versions: BundleVersionLine[];
+  references: Map<string, BundleReferenceLine[]>;
+  blobs: Map<string, Uint8Array>;
+}
+
+/**
+ * @impldoc Bundle verification issues
+ *
+ * Hash issues reuse `VersionHashIssue`; structural issues (a version whose
+ * object line, blob, or JSON payload is missing or malformed) use the
+ * `bundle_*` checks.
+ */
+export type BundleStructureCheck = 'bundle_object' | 'bundle_blob' | 'bundle_payload';
+
+export type BundleVerificationIssue =
+  | VersionHashIssue
+  | { versionId: string; objectId: string; check: BundleStructureCheck; stored: string | null; computed: string | null };
+
+/**
+ * @impldoc Bundle import outcomes
+ *
+ * Import is all-or-nothing. A bundle that fails verification is rejected
+ * before any write, and so is a bundle carrying a version that `putVersion`
+ * would refuse (`validation`, with the first offending `versionId`); a conflict
+ * while replaying (the target store already holds a different history for an
+ * object, or a different version under the same `version_id`) rolls the whole
+ * import back. Versions already present with the same `version_id` and
+ * `object_hash` are counted as `skipped`.
+ */
+export type StoreBundleImportResult =
+  | { ok: true; imported: number; skipped: number }
+  | { ok: false; verification: true; reason: 'bundle_verification_failed'; issues: BundleVerificationIssue[] }
+  | (Extract<PutVersionResult, { validation: true }> & { versionId: string })
+  | {
+      ok: false;
+      conflict: true;
+      reason: Extract<PutVersionResult, { conflict: true }>['reason'] | 'version_id_collision';
+      versionId: string;
+    };
+
+export function serializeStoreBundle(lines: BundleLine[]): string {
+  return lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+export function parseStoreBundle(text: string): ParsedStoreBundle {
+  const rows = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new Error(`invalid_bundle:line_${index + 1}:json`);
+      }
+    });
+
+  const header = rows[0];
+  if (!isRecord(header) || header.kind !== 'header') throw new Error('invalid_bundle:missing_header');
+  if (header.format !== STORE_BUNDLE_FORMAT) throw new Error(`invalid_bundle:format:${String(header.format)}`);
+  if (!READABLE_FORMAT_VERSIONS.includes(header.format_version)) {
+    throw new Error(`invalid_bundle:format_version:${String(header.format_version)}`);
+  }
+
+  const parsed: ParsedStoreBundle = {
+    header: header as unknown as BundleHeaderLine,
+    objects: new Map(),
+    versions: [],
+    references: new Map(),
+    blobs: new Map(),
+  };
+
+  rows.slice(1).forEach((row, index) => {
+    if (!isRecord(row)) throw new Error(`invalid_bundle:line_${index + 2}:not_object`);
+    switch (row.kind) {
+      case 'object':
+        parsed.objects.set(String(row.object_id), row as unknown as BundleObjectLine);
+        return;
+      case 'version':
+        parsed.versions.push(row as unknown as BundleVersionLine);
+        return;
+      case 'reference': {
+        const reference = row as unknown as BundleReferenceLine;
+        const list = parsed.references.get(reference.from_version_id) ?? [];
+        list.push(reference);
+        parsed.references.set(reference.from_version_id, list);
+        return;
+      }
+      case 'blob':
+        parsed.blobs.set(String(row.hash), Buffer.from(String(row.bytes_base64), 'base64'));
+        return;
+      default:
+        throw new Error(`invalid_bundle:line_${index + 2}:kind:${String(row.kind)}`);
+    }
+  });
+
+  parsed.versions.sort((left, right) => left.tx_seq - right.tx_seq);
+  return parsed;
+}
+
+/**
+ * @impldoc Bundle verification
+ *
+ * `verifyStoreBundle` recomputes every version's hash chain from the bundle
+ * alone before anything is written. `refs_hash` is recomputed from the
+ * bundled `reference` rows, i.e. the refs stored with the version, not from a
+ * fresh extraction of its payload: a version written before a payload field
+ * became ref-bearing keeps the refs (and `refs_hash`) it was written with, as
+ * `verifyIntegrity` checks it in the source store. Each version
+ * is recomputed with the hasher and preimage its `hash_algo` /
+ * `hash_schema_version` name, looked up in `hashers`; a version naming an
+ * unknown one is reported as `hash_schema`.
+ */
+export function verifyStoreBundle(
+  bundle: ParsedStoreBundle,
+  hashers: readonly VersionHasher[] = [SHA256_HASHER],
+): BundleVerificationIssue[] {
+  const issues: BundleVerificationIssue[] = [];
+
+  for (const version of bundle.versions) {
+    const structural = (check: BundleStructureCheck, stored: string | null, computed: string | null) =>
+      issues.push({ versionId: version.version_id, objectId: version.object_id, check, stored, computed });
+
+    if (!bundle.objects.has(version.object_id)) {
+      structural('bundle_object', version.object_id, null);
+      continue;
+    }
+
+    let fileBytes: Uint8Array | null = null;
+    if (version.file_bytes_hash !== null) {
+      fileBytes = bundle.blobs.get(version.file_bytes_hash) ?? null;
+      if (!fileBytes) {
+        structural('bundle_blob', version.file_bytes_hash, null);
+        continue;
+      }
+    }
+
+    try {
+      JSON.parse(version.content_struct_json);
+    } catch (error) {
+      structural('bundle_payload', version.content_struct_json, error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    issues.push(
+      ...checkVersionHashes(
+        {
+          versionId: version.version_id,
+          objectId: version.object_id,
+          versionNo: version.version_no,
+          contentStructJson: version.content_struct_json,
+          metadataJson: version.metadata_json,
+          fileBytes,
+          refs: bundledRefs(bundle, version.version_id),
+          envelope: {
+            path: version.path,
+            sessionId: version.session_id,
+            toolName: version.tool_name,
+            status: version.status,
+            charCount: version.char_count,
+          },
+          contentStructHash: version.content_struct_hash,
+          fileBytesHash: version.file_bytes_hash,
+          metadataHash: version.metadata_hash,
+          refsHash: version.refs_hash,
+          objectHash: version.object_hash,
+          hashAlgo: version.hash_algo,
+          hashSchemaVersion: version.hash_schema_version,
+          fieldHashesJson: version.field_hashes_json,
+        },
+        hashers,
+      ),
+    );
+  }
+
+  return issues;
+}
+
+/** The refs stored with a bundled version, as `putVersion` would have extracted them when it was written. */
+export function bundledRefs(bundle: ParsedStoreBundle, versionId: string): RefDraft[] {
+  return (bundle.references.get(versionId) ?? []).map(referenceLineToDraft);
+}
+
+function referenceLineToDraft(reference: BundleReferenceLine): RefDraft {
+  return {
+    fromPath: reference.from_path,
+    targetObjectId: reference.target_object_id,
+    targetVersionId: reference.target_version_id,
+    targetObjectHash: reference.target_object_hash,
+    targetFieldHashesJson: reference.target_field_hashes_json ?? null,
+    refKind: reference.ref_kind,
+    mode: reference.mode,
+    refMetadataJson: reference.ref_metadata_json,
+  };
+}
+
+/**
+ * Rebuilds the `putVersion` input a bundled version was written with, so an
+ * import replays it through the normal write path with `writeReason: 'import'`.
+ */
+export function bundleVersionToWriteInput(
+  version: BundleVersionLine,
+  objectType: ObjectType,
+  blobs: Map<string, Uint8Array>,
+): VersionWriteInput {
+  return {
+    requestId: `import:${version.version_id}`,
+    objectId: version.object_id,
+    objectType,
+    writerId: version.writer_id,
+    writerKind: version.writer_kind,
+    writeReason: 'import',
+    contentStruct: JSON.parse(version.content_struct_json),
+    fileBytes: version.file_bytes_hash === null ? null : (blobs.get(version.file_bytes_hash) ?? null),
+    path: version.path,
+    sessionId: version.session_id,
+    toolName: version.tool_name,
+    status: version.status,
+    charCount: version.char_count,
+    deleted: version.deleted === true,
+    validFrom: version.valid_from ?? null,
+    validTo: version.valid_to ?? null,
+    metadata: JSON.parse(version.metadata_json) as Record<string, unknown>,
+    txTime: version.tx_time,
+  };
+}
@@ -0,0 +1,207 @@
+import { canonicalJson, isRecord } from './version-codec.js';
+
+/**
+ * @impldoc Line diff and text deltas
+ *
+ * `diffLines` is a Myers shortest-edit-script diff over line arrays, returned
+ * as runs (`LineDiffHunk`) of equal / deleted / inserted lines. Common prefix
+ * and suffix lines are trimmed before the search; `maxEdits` bounds the work
+ * (and memory) spent on very different inputs and makes `diffLines` return
+ * `null` once the edit distance exceeds it.
+ *
+ * A `TextDelta` rebuilds a target text from a base text, line by line:
+ * - positive integer `n`: copy the next `n` base lines
+ * - negative integer `-n`: skip the next `n` base lines
+ * - string: insert it verbatim
+ *
+ * Lines keep their `\n` terminator, so `applyTextDelta` reproduces the target
+ * byte for byte, including a missing final newline.
+ */
+export interface LineDiffHunk {
+  kind: 'equal' | 'delete' | 'insert';
+  lines: string[];
+}
+
+export type TextDelta = Array<number | string>;
+
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+export function diffLines(
+  before: readonly string[],
+  after: readonly string[],
+  maxEdits = Number.POSITIVE_INFINITY,
+): LineDiffHunk[] | null {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start += 1;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore -= 1;
+    endAfter -= 1;
+  }
+
+  const middle = shortestEditScript(before.slice(start, endBefore), after.slice(start, endAfter), maxEdits);
+  if (!middle) return null;
+
+  const hunks: LineDiffHunk[] = [];
+  appendLines(hunks, 'equal', before.slice(0, start));
+  for (const edit of middle) appendLines(hunks, edit.kind, [edit.line]);
+  appendLines(hunks, 'equal', before.slice(endBefore));
+  return hunks;
+}
+
+export function encodeTextDelta(base: string, target: string, maxEdits?: number): TextDelta | null {
+  const hunks = diffLines(splitLines(base), splitLines(target), maxEdits);
+  if (!hunks) return null;
+
+  return hunks.map((hunk) => {
+    if (hunk.kind === 'equal') return hunk.lines.length;
+    if (hunk.kind === 'delete') return -hunk.lines.length;
+    return hunk.lines.join('');
+  });
+}
+
+export function applyTextDelta(base: string, delta: TextDelta): string {
+  const lines = splitLines(base);
+  const out: string[] = [];
+  let cursor = 0;
+
+  for (const op of delta) {
+    if (typeof op === 'string') {
+      out.push(op);
+      continue;
+    }
+    if (!Number.isInteger(op) || op === 0 || cursor + Math.abs(op) > lines.length) {
+      throw new Error(`invalid_text_delta:op:${String(op)}`);
+    }
+    if (op > 0) out.push(...lines.slice(cursor, cursor + op));
+    cursor += Math.abs(op);
+  }
+
+  if (cursor !== lines.length) throw new Error(`invalid_text_delta:unconsumed:${lines.length - cursor}`);
+  return out.join('');
+}
+
+/**
+ * @impldoc Content deltas for stored versions
+ *
+ * `encodeContentDelta` stores a version's canonical `content_struct_json` as
+ * the struct without its `content` key plus a `TextDelta` from the keyframe's
+ * `content`. It returns `null` (store the full JSON) when either side has no
+ * string `content`, the diff exceeds `CONTENT_DELTA_MAX_EDITS`, or the delta is
+ * not smaller than the content it replaces.
+ *
+ * `decodeContentDelta` reverses it and re-serializes with `canonicalJson`, so
+ * the result is byte-identical to the canonical JSON the hashes were computed
+ * over.
+ */
+export const CONTENT_DELTA_MAX_EDITS = 2000;
+
+export function encodeContentDelta(
+  keyframeJson: string,
+  contentStructJson: string,
+): { storedJson: string; deltaJson: string } | null {
+  const keyframe = JSON.parse(keyframeJson) as unknown;
+  const target = JSON.parse(contentStructJson) as unknown;
+  if (!isRecord(keyframe) || !isRecord(target)) return null;
+  if (typeof keyframe.content !== 'string' || typeof target.content !== 'string') return null;
+
+  const delta = encodeTextDelta(keyframe.content, target.content, CONTENT_DELTA_MAX_EDITS);
+  if (!delta) return null;
+
+  const deltaJson = JSON.stringify(delta);
+  if (deltaJson.length >= JSON.stringify(target.content).length) return null;
+
+  const { content: _content, ...rest } = target;
+  return { storedJson: canonicalJson(rest, 'contentStruct'), deltaJson };
+}
+
+export function decodeContentDelta(keyframeJson: string, storedJson: string, deltaJson: string): string {
+  const keyframe = JSON.parse(keyframeJson) as unknown;
+  if (!isRecord(keyframe) || typeof keyframe.content !== 'string') {
+    throw new Error('invalid_content_delta:keyframe_content');
+  }
+
+  const stored = JSON.parse(storedJson) as Record<string, unknown>;
+  const content = applyTextDelta(keyframe.content, JSON.parse(deltaJson) as TextDelta);
+  return canonicalJson({ ...stored, content }, 'contentStruct');
+}
+
+type LineEdit = { kind: LineDiffHunk['kind']; line: string };
+
+function appendLines(hunks: LineDiffHunk[], kind: LineDiffHunk['kind'], lines: readonly string[]): void {
+  if (lines.length === 0) return;
+  const last = hunks[hunks.length - 1];
+  if (last?.kind === kind) last.lines.push(...lines);
+  else hunks.push({ kind, lines: [...lines] });
+}
+
+/**
+ * Myers O((N+M)D) search. `trace[d]` keeps only the diagonals `-d-1..d+1` of
+ * the frontier before step `d`, so memory grows with D² rather than D·(N+M).
+ */
+function shortestEditScript(before: readonly string[], after: readonly string[], maxEdits: number): LineEdit[] | null {
+  const n = before.length;
+  const m = after.length;
+  const max = n + m;
+  const offset = max + 1;
+  const frontier = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d += 1) {
+    if (d > maxEdits) return null;
+    trace.push(frontier.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+          ? frontier[offset + k + 1]
+          : frontier[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x += 1;
+        y += 1;
+      }
+      frontier[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, before, after);
+    }
+  }
+
+  return [];
+}
+
+function backtrack(trace: Int32Array[], before: readonly string[], after: readonly string[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let x = before.length;
+  let y = after.length;
+
+  for (let d = trace.length - 1; d > 0; d -= 1) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ kind: 'equal', line: before[x - 1] });
+      x -= 1;
+      y -= 1;
+    }
+    if (x === prevX) edits.push({ kind: 'insert', line: after[prevY] });
+    else edits.push({ kind: 'delete', line: before[prevX] });
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push({ kind: 'equal', line: before[x - 1] });
+    x -= 1;
+    y -= 1;
+  }
+
+  return edits.reverse();
+}
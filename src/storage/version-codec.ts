@@ -0,0 +1,529 @@
+import { createHash } from 'node:crypto';
+import type { ObjectType, ReferenceMode } from './storage-port.js';
+
+/**
+ * @impldoc Version canonicalization and hashing
+ *
+ * Storage-agnostic helpers shared by every `StoragePort` implementation and by
+ * bundle/integrity tooling:
+ * - canonical JSON serialization (sorted keys, JSON round-trip)
+ * - explicit `Ref` extraction from declared ref-bearing payload fields
+ * - `refs_hash` over the sorted `(from_path, ref_kind, target..., mode)` tuple
+ * - per-field `field_hash:<field>` anchors over a payload's top-level fields
+ * - the versioned `object_hash` preimages (`v1|object_id|version_no|...|refs_hash`
+ *   and `v2|...`, see "Hash schemas")
+ *
+ * Hash values written by one implementation must be reproducible from stored
+ * fields alone, so nothing here may depend on storage-specific state.
+ */
+export type RefDraft = {
+  fromPath: string;
+  targetObjectId: string;
+  targetVersionId: string | null;
+  targetObjectHash: string | null;
+  targetFieldHashesJson: string | null;
+  refKind: string;
+  mode: ReferenceMode;
+  refMetadataJson: string | null;
+};
+
+/**
+ * @impldoc Ref-bearing payload fields
+ *
+ * `REF_FIELDS` declares, per `ObjectType`, every payload location that holds a
+ * `Ref`. A location is a `/`-separated field path in which `*` stands for each
+ * element of an array; `extractRefs` walks exactly these paths (no text
+ * parsing) and records each ref with the canonical JSON-pointer `from_path` of
+ * its value, e.g. `/turns/0/toolcall_refs/1`.
+ *
+ * A `required` location must be present: a missing field fails as the value
+ * it should hold (`invalid_object:<path>` for a ref, `expected_ref_array:<path>`
+ * for an array). In an optional location a missing or `null` field yields no
+ * refs, but a present field must still have the declared shape.
+ */
+export interface RefFieldSpec {
+  path: string;
+  required?: boolean;
+}
+
+export const REF_FIELDS: Readonly<Record<ObjectType, readonly RefFieldSpec[]>> = {
+  session: [
+    { path: 'chat_ref', required: true },
+    { path: 'system_prompt_ref' },
+    { path: 'active_set/*', required: true },
+    { path: 'inactive_set/*', required: true },
+    { path: 'pinned_set/*', required: true },
+  ],
+  toolcall: [{ path: 'chat_ref' }],
+  chat: [{ path: 'session_ref' }, { path: 'turns/*/toolcall_refs/*' }, { path: 'file_refs/*' }],
+  file: [],
+  system_prompt: [],
+};
+
+export function extractRefs(objectType: ObjectType, contentStruct: unknown): RefDraft[] {
+  const fields = REF_FIELDS[objectType];
+  if (fields.length === 0) return [];
+
+  const payload = asRecord(contentStruct, 'contentStruct');
+  const refs: RefDraft[] = [];
+  for (const field of fields) {
+    collectRefs(payload, field.path.split('/'), '', field.required === true, refs);
+  }
+  return refs;
+}
+
+function collectRefs(value: unknown, segments: string[], path: string, required: boolean, refs: RefDraft[]): void {
+  if (segments.length === 0) {
+    refs.push(parseRef(value, path));
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === '*') {
+    if (!Array.isArray(value)) throw new Error(`expected_ref_array:${path}`);
+    value.forEach((entry, index) => collectRefs(entry, rest, `${path}/${index}`, required, refs));
+    return;
+  }
+
+  const child = asRecord(value, path)[segment];
+  if (!required && (child === undefined || child === null)) return;
+  collectRefs(child, rest, `${path}/${escapePointerToken(segment)}`, required, refs);
+}
+
+function parseRef(value: unknown, path: string): RefDraft {
+  const ref = asRecord(value, path);
+  const mode = asMode(ref.mode, `${path}.mode`);
+  const targetVersionId = asNullableString(ref.target_version_id, `${path}.target_version_id`);
+  const targetObjectHash = asNullableString(ref.target_object_hash, `${path}.target_object_hash`);
+  const targetFieldHashes =
+    ref.target_field_hashes === undefined || ref.target_field_hashes === null
+      ? null
+      : parseFieldHashAnchors(ref.target_field_hashes, `${path}.target_field_hashes`);
+
+  if (targetFieldHashes !== null && (mode !== 'pinned' || targetVersionId || targetObjectHash)) {
+    throw new Error(`Invalid field-hash Ref at ${path}: pinned mode without version or hash anchor required`);
+  }
+  if (mode === 'pinned' && !targetVersionId && !targetObjectHash && targetFieldHashes === null) {
+    throw new Error(`Invalid pinned Ref at ${path}: target_version_id, target_object_hash or target_field_hashes required`);
+  }
+
+  return {
+    fromPath: path,
+    targetObjectId: ensureString(ref.target_object_id, `${path}.target_object_id`, true),
+    targetVersionId,
+    targetObjectHash,
+    targetFieldHashesJson:
+      targetFieldHashes === null ? null : canonicalJson(targetFieldHashes, `${path}.target_field_hashes`),
+    refKind: ensureString(ref.ref_kind, `${path}.ref_kind`, true),
+    mode,
+    refMetadataJson:
+      ref.ref_metadata === undefined ? null : canonicalJson(asRecord(ref.ref_metadata, `${path}.ref_metadata`), `${path}.ref_metadata`),
+  };
+}
+
+/**
+ * @impldoc Field-hash anchors
+ *
+ * Every version carries `field_hashes_json`: one `field_hash:<field>` entry per
+ * top-level payload field, valued `sha256(canonicalJson(value))` (`{}` for a
+ * non-object payload). Field hashes are derived from `content_struct_json`
+ * alone and are not an `object_hash` input.
+ *
+ * A pinned `Ref` may anchor on fields instead of a whole version:
+ * `target_field_hashes` maps one or more `field_hash:<field>` keys to 64-char
+ * lowercase hex digests, e.g. `{ "field_hash:content": "…" }`, and is exclusive
+ * with `target_version_id` / `target_object_hash`. Such a ref is satisfied by
+ * any version of the target whose field hashes include every pinned entry;
+ * resolution picks the newest one. Malformed anchors fail `parseRef` with
+ * `invalid_field_hash_anchor:<path>` (not a non-empty object, or a key without
+ * the `field_hash:` prefix) or `invalid_field_hash:<path>` (a value that is not
+ * a SHA-256 hex digest).
+ */
+export const FIELD_HASH_PREFIX = 'field_hash:';
+
+const FIELD_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export function computeFieldHashes(contentStruct: unknown): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  if (!isRecord(contentStruct)) return hashes;
+  for (const [field, value] of Object.entries(contentStruct)) {
+    if (value === undefined) continue;
+    hashes[`${FIELD_HASH_PREFIX}${field}`] = sha256(canonicalJson(value, `contentStruct.${field}`));
+  }
+  return hashes;
+}
+
+/** True when every anchor in `anchors` appears with the same digest in `fieldHashesJson`. */
+export function matchesFieldHashes(fieldHashesJson: string, anchors: Record<string, string>): boolean {
+  const hashes = JSON.parse(fieldHashesJson) as Record<string, unknown>;
+  return Object.entries(anchors).every(([key, hash]) => Object.hasOwn(hashes, key) && hashes[key] === hash);
+}
+
+export function parseFieldHashAnchors(value: unknown, path: string): Record<string, string> {
+  if (!isRecord(value) || Object.keys(value).length === 0) throw new Error(`invalid_field_hash_anchor:${path}`);
+  const anchors: Record<string, string> = {};
+  for (const [key, hash] of Object.entries(value)) {
+    if (!key.startsWith(FIELD_HASH_PREFIX) || key.length === FIELD_HASH_PREFIX.length) {
+      throw new Error(`invalid_field_hash_anchor:${path}.${key}`);
+    }
+    if (typeof hash !== 'string' || !FIELD_HASH_PATTERN.test(hash)) {
+      throw new Error(`invalid_field_hash:${path}.${key}`);
+    }
+    anchors[key] = hash;
+  }
+  return anchors;
+}
+
+export function hashRefs(refs: RefDraft[], hasher: VersionHasher = SHA256_HASHER): string {
+  const sorted = [...refs].sort((a, b) => {
+    const left = refSortKey(a);
+    const right = refSortKey(b);
+
+    for (let i = 0; i < left.length; i++) {
+      if (left[i] < right[i]) return -1;
+      if (left[i] > right[i]) return 1;
+    }
+    return 0;
+  });
+
+  return hasher.digest(
+    canonicalJson(
+      sorted.map((ref) => ({
+        from_path: ref.fromPath,
+        ref_kind: ref.refKind,
+        target_object_id: ref.targetObjectId,
+        target_version_id: ref.targetVersionId,
+        target_object_hash: ref.targetObjectHash,
+        // Only field-hash refs carry the key, so refs_hash of every other ref is unchanged.
+        ...(ref.targetFieldHashesJson === null
+          ? {}
+          : { target_field_hashes: JSON.parse(ref.targetFieldHashesJson) as Record<string, string> }),
+        mode: ref.mode,
+      })),
+      'refs',
+    ),
+  );
+}
+
+function refSortKey(ref: RefDraft): string[] {
+  return [
+    ref.fromPath,
+    ref.refKind,
+    ref.targetObjectId,
+    ref.targetVersionId ?? '',
+    ref.targetObjectHash ?? '',
+    ref.mode,
+    ref.targetFieldHashesJson ?? '',
+  ];
+}
+
+/**
+ * @impldoc Hash schemas
+ *
+ * Every version records the digest algorithm (`hash_algo`) and the
+ * `object_hash` preimage version (`hash_schema_version`) it was hashed with.
+ * A `VersionHasher` supplies the algorithm: its `digest` computes
+ * `content_struct_hash`, `file_bytes_hash`, `metadata_hash`, `refs_hash` and
+ * `object_hash` of the versions written with it. `sha256` is built in;
+ * `field_hashes_json` entries are always SHA-256.
+ *
+ * Preimages (`file_bytes_hash` is `''` when null):
+ * - `1`: `v1|object_id|version_no|content_struct_hash|file_bytes_hash|metadata_hash|refs_hash`
+ * - `2`: the same fields after `v2`, followed by the canonical JSON array of the
+ *   typed envelope `[path, session_id, tool_name, status, char_count]`, so an
+ *   envelope change also changes `object_hash`
+ *
+ * `HashingOptions` set the schema of new writes (default `sha256` / `1`) and
+ * register further hashers. Stored versions keep their own schema, so versions
+ * of several schemas coexist in one store; replay checks, verification and
+ * bundle import recompute each version with the schema it records
+ * (`resolveHashSchema`). Invalid options fail with `invalid_hashing:<detail>`.
+ */
+export interface VersionHasher {
+  readonly algo: string;
+  digest(value: string | Uint8Array): string;
+}
+
+export type HashSchemaVersion = 1 | 2;
+
+export interface HashSchema {
+  hasher: VersionHasher;
+  version: HashSchemaVersion;
+}
+
+export interface HashingOptions {
+  hasher?: VersionHasher;
+  schemaVersion?: HashSchemaVersion;
+  // hashers of versions written elsewhere, accepted when verifying or importing them
+  hashers?: readonly VersionHasher[];
+}
+
+export interface VersionHashing {
+  write: HashSchema;
+  hashers: readonly VersionHasher[];
+}
+
+export const HASH_SCHEMA_VERSIONS: readonly HashSchemaVersion[] = [1, 2];
+
+export const SHA256_HASHER: VersionHasher = { algo: 'sha256', digest: (value) => sha256(value) };
+
+export const DEFAULT_HASH_SCHEMA: HashSchema = { hasher: SHA256_HASHER, version: 1 };
+
+export function normalizeHashingOptions(options: HashingOptions = {}): VersionHashing {
+  const hasher = options.hasher ?? SHA256_HASHER;
+  const version = options.schemaVersion ?? DEFAULT_HASH_SCHEMA.version;
+  if (!HASH_SCHEMA_VERSIONS.includes(version)) throw new Error(`invalid_hashing:schemaVersion:${version}`);
+
+  const hashers: VersionHasher[] = [SHA256_HASHER];
+  for (const candidate of [hasher, ...(options.hashers ?? [])]) {
+    if (typeof candidate?.algo !== 'string' || candidate.algo.length === 0 || typeof candidate.digest !== 'function') {
+      throw new Error(`invalid_hashing:hasher:${String(candidate?.algo)}`);
+    }
+    const known = hashers.find((entry) => entry.algo === candidate.algo);
+    if (known === candidate) continue;
+    if (known) throw new Error(`invalid_hashing:duplicate_algo:${candidate.algo}`);
+    hashers.push(candidate);
+  }
+  return { write: { hasher, version }, hashers };
+}
+
+/** The schema a stored version was hashed with, or `null` when its algorithm or preimage version is unknown. */
+export function resolveHashSchema(
+  algo: string,
+  version: number,
+  hashers: readonly VersionHasher[] = [SHA256_HASHER],
+): HashSchema | null {
+  const hasher = hashers.find((entry) => entry.algo === algo);
+  if (!hasher || !HASH_SCHEMA_VERSIONS.includes(version as HashSchemaVersion)) return null;
+  return { hasher, version: version as HashSchemaVersion };
+}
+
+export interface HashEnvelope {
+  path: string | null;
+  sessionId: string | null;
+  toolName: string | null;
+  status: string | null;
+  charCount: number | null;
+}
+
+export function hashObject(
+  parts: {
+    objectId: string;
+    versionNo: number;
+    contentStructHash: string;
+    fileBytesHash: string | null;
+    metadataHash: string;
+    refsHash: string;
+    envelope: HashEnvelope;
+  },
+  schema: HashSchema = DEFAULT_HASH_SCHEMA,
+): string {
+  const fields = [
+    `v${schema.version}`,
+    parts.objectId,
+    String(parts.versionNo),
+    parts.contentStructHash,
+    parts.fileBytesHash ?? '',
+    parts.metadataHash,
+    parts.refsHash,
+  ];
+  if (schema.version === 2) {
+    const { path, sessionId, toolName, status, charCount } = parts.envelope;
+    fields.push(canonicalJson([path, sessionId, toolName, status, charCount], 'envelope'));
+  }
+  return schema.hasher.digest(fields.join('|'));
+}
+
+function asMode(value: unknown, path: string): ReferenceMode {
+  if (value !== 'dynamic' && value !== 'pinned') throw new Error(`invalid_ref_mode:${path}`);
+  return value;
+}
+
+function asNullableString(value: unknown, path: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new Error(`invalid_string:${path}`);
+  return value;
+}
+
+export function ensureString(value: unknown, path: string, nonEmpty = false): string {
+  if (value === undefined || value === null) {
+    if (nonEmpty) throw new Error(`invalid_non_empty_string:${path}`);
+    return '';
+  }
+  if (typeof value !== 'string') throw new Error(`invalid_string:${path}`);
+  if (nonEmpty && value.length === 0) throw new Error(`invalid_non_empty_string:${path}`);
+  return value;
+}
+
+export function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new Error(`invalid_object:${path}`);
+  return value;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function canonicalJson(value: unknown, label: string): string {
+  let raw: string | undefined;
+  try {
+    raw = JSON.stringify(value);
+  } catch {
+    throw new Error(`non_json_serializable:${label}`);
+  }
+  if (raw === undefined) throw new Error(`non_json_serializable:${label}`);
+  return stableJson(JSON.parse(raw) as JsonValue);
+}
+
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+function stableJson(value: JsonValue): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  const keys = Object.keys(value).sort();
+  return `{${keys.map((key) => `${JSON.stringify(key)}:${stableJson(value[key])}`).join(',')}}`;
+}
+
+export function sha256(value: string | Uint8Array): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export type VersionHashCheck =
+  | 'hash_schema'
+  | 'content_struct_hash'
+  | 'file_bytes_hash'
+  | 'metadata_hash'
+  | 'refs_hash'
+  | 'object_hash'
+  | 'field_hashes';
+
+/**
+ * @impldoc Version hash verification
+ *
+ * `checkVersionHashes` recomputes each stored hash of one version from the
+ * stored fields it covers, with the hasher and preimage version the version
+ * records, and reports every mismatch:
+ * - `content_struct_hash` / `metadata_hash` from the canonical JSON payloads
+ * - `file_bytes_hash` from the stored bytes (`null` bytes hash to `null`)
+ * - `refs_hash` from the supplied reference tuples
+ * - `object_hash` from the versioned preimage over the *stored* component hashes
+ *   (and, for schema `2`, the stored envelope), so a broken chain is reported
+ *   separately from a corrupted component
+ * - `field_hashes` from the stored payload (`computeFieldHashes`, always
+ *   SHA-256), compared as canonical JSON; it is not part of the hash chain but
+ *   decides field-hash pin resolution and GC retention, so a drifted value is
+ *   reported. Skipped when `fieldHashesJson` is `undefined` (bundles exported
+ *   before field-hash anchors).
+ *
+ * A version whose `hash_algo` has no registered hasher or whose
+ * `hash_schema_version` is unknown cannot be recomputed; it yields one
+ * `hash_schema` issue with `stored` = `<hash_algo>:<hash_schema_version>`,
+ * plus any `field_hashes` issue.
+ */
+export interface VersionHashIssue {
+  versionId: string;
+  objectId: string;
+  check: VersionHashCheck;
+  stored: string | null;
+  computed: string | null;
+}
+
+export function checkVersionHashes(
+  version: {
+    versionId: string;
+    objectId: string;
+    versionNo: number;
+    contentStructJson: string;
+    metadataJson: string;
+    fileBytes: Uint8Array | null;
+    refs: RefDraft[];
+    envelope: HashEnvelope;
+    contentStructHash: string;
+    fileBytesHash: string | null;
+    metadataHash: string;
+    refsHash: string;
+    objectHash: string;
+    hashAlgo: string;
+    hashSchemaVersion: number;
+    fieldHashesJson?: string;
+  },
+  hashers: readonly VersionHasher[] = [SHA256_HASHER],
+): VersionHashIssue[] {
+  const issues: VersionHashIssue[] = [];
+  const report = (check: VersionHashCheck, stored: string | null, computed: string | null) =>
+    issues.push({ versionId: version.versionId, objectId: version.objectId, check, stored, computed });
+
+  const schema = resolveHashSchema(version.hashAlgo, version.hashSchemaVersion, hashers);
+  if (!schema) {
+    report('hash_schema', `${version.hashAlgo}:${version.hashSchemaVersion}`, null);
+  } else {
+    for (const [check, stored, computed] of chainChecks(version, schema)) {
+      if (computed !== stored) report(check, stored, computed);
+    }
+  }
+
+  if (version.fieldHashesJson !== undefined) {
+    const stored = canonicalStoredJson(version.fieldHashesJson);
+    const computed = computeStoredFieldHashes(version.contentStructJson);
+    if (stored === null || stored !== computed) report('field_hashes', version.fieldHashesJson, computed);
+  }
+  return issues;
+}
+
+function chainChecks(
+  version: Parameters<typeof checkVersionHashes>[0],
+  schema: HashSchema,
+): Array<[VersionHashCheck, string | null, string | null]> {
+  const { hasher } = schema;
+  const computed: Record<Exclude<VersionHashCheck, 'hash_schema' | 'field_hashes'>, string | null> = {
+    content_struct_hash: hashStoredJson(version.contentStructJson, hasher),
+    file_bytes_hash: version.fileBytes === null ? null : hasher.digest(version.fileBytes),
+    metadata_hash: hashStoredJson(version.metadataJson, hasher),
+    refs_hash: hashRefs(version.refs, hasher),
+    object_hash: hashObject(
+      {
+        objectId: version.objectId,
+        versionNo: version.versionNo,
+        contentStructHash: version.contentStructHash,
+        fileBytesHash: version.fileBytesHash,
+        metadataHash: version.metadataHash,
+        refsHash: version.refsHash,
+        envelope: version.envelope,
+      },
+      schema,
+    ),
+  };
+  const stored: Record<keyof typeof computed, string | null> = {
+    content_struct_hash: version.contentStructHash,
+    file_bytes_hash: version.fileBytesHash,
+    metadata_hash: version.metadataHash,
+    refs_hash: version.refsHash,
+    object_hash: version.objectHash,
+  };
+  return (Object.keys(computed) as (keyof typeof computed)[]).map((check) => [check, stored[check], computed[check]]);
+}
+
+function hashStoredJson(json: string, hasher: VersionHasher): string | null {
+  const canonical = canonicalStoredJson(json);
+  return canonical === null ? null : hasher.digest(canonical);
+}
+
+function canonicalStoredJson(json: string): string | null {
+  try {
+    return canonicalJson(JSON.parse(json), 'stored_json');
+  } catch {
+    return null;
+  }
+}
+
+function computeStoredFieldHashes(contentStructJson: string): string | null {
+  try {
+    return canonicalJson(computeFieldHashes(JSON.parse(contentStructJson)), 'field_hashes');
+  } catch {
+    return null;
+  }
+}
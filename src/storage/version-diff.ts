@@ -0,0 +1,200 @@
+import type { ObjectType, ReferenceMode, VersionRecord } from './storage-port.js';
+import { diffLines, splitLines, type LineDiffHunk } from './text-delta.js';
+import { escapePointerToken, extractRefs, isRecord, type RefDraft } from './version-codec.js';
+
+/**
+ * @impldoc Version diffs
+ *
+ * `diffVersions(fromVersionId, toVersionId)` compares two versions of the same
+ * object (`diff_object_mismatch:<from>:<to>` otherwise; `null` when either
+ * version does not exist). The result has four views:
+ * - `content`: a line diff (`LineDiffHunk[]`) of the payload's `content` when
+ *   it is a string on both sides, else `null` and `/content` is compared with
+ *   the rest of the payload
+ * - `contentStruct` / `metadata`: JSON-pointer changes (`add` / `remove` /
+ *   `replace`) between the parsed payloads and metadata; objects are compared
+ *   by key, arrays by index
+ * - `envelope`: changed typed envelope fields (`path`, `sessionId`,
+ *   `toolName`, `status`, `charCount`)
+ * - `sessionSets`: for `session` objects, the refs added to and removed from
+ *   `active_set` / `inactive_set` / `pinned_set`, compared by target, anchors,
+ *   mode and `ref_kind` regardless of position; `null` for other types
+ *
+ * Content that differs in more than `VERSION_DIFF_MAX_LINE_EDITS` lines is
+ * reported as one delete hunk and one insert hunk instead of a minimal diff.
+ */
+export const VERSION_DIFF_MAX_LINE_EDITS = 2000;
+
+export type SessionSetName = 'active_set' | 'inactive_set' | 'pinned_set';
+
+export interface JsonPointerChange {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface EnvelopeChange {
+  field: 'path' | 'sessionId' | 'toolName' | 'status' | 'charCount';
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface SessionSetMember {
+  targetObjectId: string;
+  mode: ReferenceMode;
+  targetVersionId?: string;
+  targetObjectHash?: string;
+  targetFieldHashes?: Record<string, string>;
+  refKind: string;
+}
+
+export type SessionSetDiff = Record<SessionSetName, { added: SessionSetMember[]; removed: SessionSetMember[] }>;
+
+export interface VersionDiff {
+  objectId: string;
+  objectType: ObjectType;
+  fromVersionId: string;
+  toVersionId: string;
+  content: LineDiffHunk[] | null;
+  contentStruct: JsonPointerChange[];
+  metadata: JsonPointerChange[];
+  envelope: EnvelopeChange[];
+  sessionSets: SessionSetDiff | null;
+}
+
+const ENVELOPE_FIELDS: ReadonlyArray<EnvelopeChange['field']> = [
+  'path',
+  'sessionId',
+  'toolName',
+  'status',
+  'charCount',
+];
+const SESSION_SETS: readonly SessionSetName[] = ['active_set', 'inactive_set', 'pinned_set'];
+
+export function diffVersionRecords(objectType: ObjectType, from: VersionRecord, to: VersionRecord): VersionDiff {
+  if (from.objectId !== to.objectId) throw new Error(`diff_object_mismatch:${from.versionId}:${to.versionId}`);
+
+  const before = JSON.parse(from.contentStructJson) as unknown;
+  const after = JSON.parse(to.contentStructJson) as unknown;
+
+  let content: LineDiffHunk[] | null = null;
+  let beforeRest = before;
+  let afterRest = after;
+  if (isRecord(before) && isRecord(after) && typeof before.content === 'string' && typeof after.content === 'string') {
+    content = diffText(before.content, after.content);
+    beforeRest = withoutContent(before);
+    afterRest = withoutContent(after);
+  }
+
+  const envelope: EnvelopeChange[] = [];
+  for (const field of ENVELOPE_FIELDS) {
+    if (from[field] !== to[field]) envelope.push({ field, before: from[field], after: to[field] });
+  }
+
+  return {
+    objectId: from.objectId,
+    objectType,
+    fromVersionId: from.versionId,
+    toVersionId: to.versionId,
+    content,
+    contentStruct: diffJson(beforeRest, afterRest),
+    metadata: diffJson(JSON.parse(from.metadataJson), JSON.parse(to.metadataJson)),
+    envelope,
+    sessionSets: objectType === 'session' ? diffSessionSets(before, after) : null,
+  };
+}
+
+export function diffJson(before: unknown, after: unknown, path = ''): JsonPointerChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonPointerChange[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      const child = `${path}/${index}`;
+      if (index >= after.length) changes.push({ op: 'remove', path: child, before: before[index] });
+      else if (index >= before.length) changes.push({ op: 'add', path: child, after: after[index] });
+      else changes.push(...diffJson(before[index], after[index], child));
+    }
+    return changes;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const changes: JsonPointerChange[] = [];
+    for (const key of [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()) {
+      const child = `${path}/${escapePointerToken(key)}`;
+      if (!(key in after)) changes.push({ op: 'remove', path: child, before: before[key] });
+      else if (!(key in before)) changes.push({ op: 'add', path: child, after: after[key] });
+      else changes.push(...diffJson(before[key], after[key], child));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ op: 'replace', path, before, after }];
+}
+
+function withoutContent(contentStruct: Record<string, unknown>): Record<string, unknown> {
+  const { content: _content, ...rest } = contentStruct;
+  return rest;
+}
+
+function diffText(before: string, after: string): LineDiffHunk[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const hunks = diffLines(beforeLines, afterLines, VERSION_DIFF_MAX_LINE_EDITS);
+  if (hunks) return hunks;
+
+  return [
+    { kind: 'delete', lines: beforeLines },
+    { kind: 'insert', lines: afterLines },
+  ];
+}
+
+function diffSessionSets(before: unknown, after: unknown): SessionSetDiff {
+  const beforeSets = sessionSetMembers(before);
+  const afterSets = sessionSetMembers(after);
+
+  const diff = {} as SessionSetDiff;
+  for (const name of SESSION_SETS) {
+    const previous = beforeSets[name];
+    const next = afterSets[name];
+    diff[name] = {
+      added: [...next].filter(([key]) => !previous.has(key)).map(([, member]) => member),
+      removed: [...previous].filter(([key]) => !next.has(key)).map(([, member]) => member),
+    };
+  }
+  return diff;
+}
+
+function sessionSetMembers(contentStruct: unknown): Record<SessionSetName, Map<string, SessionSetMember>> {
+  const sets: Record<SessionSetName, Map<string, SessionSetMember>> = {
+    active_set: new Map(),
+    inactive_set: new Map(),
+    pinned_set: new Map(),
+  };
+
+  for (const ref of extractRefs('session', contentStruct)) {
+    const name = ref.fromPath.split('/')[1] as SessionSetName;
+    if (!SESSION_SETS.includes(name)) continue;
+    sets[name].set(memberKey(ref), toMember(ref));
+  }
+  return sets;
+}
+
+function memberKey(ref: RefDraft): string {
+  return JSON.stringify([
+    ref.targetObjectId,
+    ref.mode,
+    ref.targetVersionId,
+    ref.targetObjectHash,
+    ref.targetFieldHashesJson,
+    ref.refKind,
+  ]);
+}
+
+function toMember(ref: RefDraft): SessionSetMember {
+  const member: SessionSetMember = { targetObjectId: ref.targetObjectId, mode: ref.mode, refKind: ref.refKind };
+  if (ref.targetVersionId !== null) member.targetVersionId = ref.targetVersionId;
+  if (ref.targetObjectHash !== null) member.targetObjectHash = ref.targetObjectHash;
+  if (ref.targetFieldHashesJson !== null) member.targetFieldHashes = JSON.parse(ref.targetFieldHashesJson);
+  return member;
+}
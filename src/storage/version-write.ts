@@ -0,0 +1,380 @@
+import type {
+  AsOfPoint,
+  ListObjectsParams,
+  ObjectAttributesUpdate,
+  ObjectHeadSummary,
+  ObjectType,
+  PutVersionResult,
+  PutVersionsResult,
+  ReferenceGraphEdge,
+  ReferenceGraphNode,
+  TraverseReferencesParams,
+  VersionRecord,
+  VersionWriteInput,
+} from './storage-port.js';
+import { MAX_TRAVERSAL_DEPTH } from './storage-port.js';
+import { validateContentStruct } from './content-schema.js';
+import {
+  canonicalJson,
+  computeFieldHashes,
+  ensureString,
+  isRecord,
+  SHA256_HASHER,
+  type VersionHasher,
+} from './version-codec.js';
+
+/**
+ * @impldoc Version write contract
+ *
+ * Backend-neutral pieces of the `putVersion` contract, shared by every
+ * `StoragePort` implementation so they cannot drift apart:
+ * - pre-transaction input validation: session identity (`invalid_session_id`)
+ *   and the per-type content schema (`invalid_content_struct`)
+ * - input normalization: string/char-count validation, typed-envelope vs
+ *   payload consistency (`typed_envelope_mismatch:<field>`), canonical JSON
+ *   and component hashes (with the store's write hasher)
+ * - the idempotency fingerprint (`object_id`, `content_struct_hash`,
+ *   `file_bytes_hash`, hashed like the replayed version) and the replay markers (`deleted`, validity interval)
+ * - validity interval normalization (`invalid_validity:<detail>`), overlap and
+ *   containment tests
+ * - batch failure shaping for `putVersions`
+ * - as-of point, `listObjects` / `traverseReferences` parameter and `limit`
+ *   validation for reads, and the traversal result order
+ * - object attribute update validation (`invalid_object_attributes:<field>`)
+ *
+ * Backends own only storage: allocation of `tx_seq` / `version_no`, HEAD
+ * tracking, reference rows and atomicity.
+ */
+export interface NormalizedVersionWrite {
+  txTime: string;
+  charCount: number | null;
+  contentStructJson: string;
+  metadataJson: string;
+  fileBytesBlob: Uint8Array | null;
+  contentStructHash: string;
+  fileBytesHash: string | null;
+  metadataHash: string;
+  fieldHashesJson: string;
+  deleted: boolean;
+  validFrom: string | null;
+  validTo: string | null;
+  searchableContent: string | null;
+}
+
+function isInvalidSessionIdentity(input: VersionWriteInput): boolean {
+  if (input.objectType !== 'session') return false;
+  return typeof input.sessionId !== 'string' || input.sessionId.trim().length === 0;
+}
+
+export function validateWriteInput(input: VersionWriteInput): Extract<PutVersionResult, { validation: true }> | null {
+  if (isInvalidSessionIdentity(input)) return { ok: false, validation: true, reason: 'invalid_session_id' };
+  const errors = validateContentStruct(input.objectType, input.contentStruct);
+  if (errors.length > 0) return { ok: false, validation: true, reason: 'invalid_content_struct', errors };
+  return null;
+}
+
+export function abortedBatch(
+  size: number,
+  failedIndex: number,
+  failure: Exclude<PutVersionResult, { ok: true }>,
+): Extract<PutVersionsResult, { ok: false }> {
+  const results = Array.from({ length: size }, (_, index) =>
+    index === failedIndex ? failure : ({ ok: false, aborted: true } as const),
+  );
+  return { ok: false, failedIndex, results };
+}
+
+export function computeIdempotencyFingerprint(
+  input: VersionWriteInput,
+  hasher: VersionHasher = SHA256_HASHER,
+): {
+  contentStructHash: string;
+  fileBytesHash: string | null;
+} {
+  const contentStructJson = canonicalJson(input.contentStruct, 'contentStruct');
+  const fileBytesBlob = input.fileBytes == null ? null : new Uint8Array(input.fileBytes);
+
+  return {
+    contentStructHash: hasher.digest(contentStructJson),
+    fileBytesHash: fileBytesBlob ? hasher.digest(fileBytesBlob) : null,
+  };
+}
+
+export function normalizePutInput(
+  input: VersionWriteInput,
+  txTime: string,
+  hasher: VersionHasher = SHA256_HASHER,
+): NormalizedVersionWrite {
+  ensureString(input.requestId, 'requestId', true);
+  ensureString(input.objectId, 'objectId', true);
+  ensureString(input.writerId, 'writerId', true);
+  ensureString(input.path, 'path');
+  ensureString(input.sessionId, 'sessionId');
+  ensureString(input.toolName, 'toolName');
+  ensureString(input.status, 'status');
+
+  validateEnvelopeConsistency(input.contentStruct, {
+    path: input.path,
+    sessionId: input.sessionId,
+    toolName: input.toolName,
+    status: input.status,
+    charCount: input.charCount,
+    deleted: input.deleted,
+  });
+
+  const deleted = normalizeDeleted(input);
+  const { validFrom, validTo } = normalizeValidity(input);
+  const charCount = normalizeCharCount(input.charCount);
+  const contentStructJson = canonicalJson(input.contentStruct, 'contentStruct');
+  const metadataJson = canonicalJson(input.metadata, 'metadata');
+  const fileBytesBlob = input.fileBytes == null ? null : new Uint8Array(input.fileBytes);
+
+  return {
+    txTime,
+    charCount,
+    contentStructJson,
+    metadataJson,
+    fileBytesBlob,
+    contentStructHash: hasher.digest(contentStructJson),
+    fileBytesHash: fileBytesBlob ? hasher.digest(fileBytesBlob) : null,
+    metadataHash: hasher.digest(metadataJson),
+    fieldHashesJson: canonicalJson(computeFieldHashes(JSON.parse(contentStructJson)), 'fieldHashes'),
+    deleted,
+    validFrom,
+    validTo,
+    searchableContent:
+      isRecord(input.contentStruct) && typeof input.contentStruct.content === 'string' ? input.contentStruct.content : null,
+  };
+}
+
+function validateEnvelopeConsistency(
+  contentStruct: unknown,
+  envelope: {
+    path?: string | null;
+    sessionId?: string | null;
+    toolName?: string | null;
+    status?: string | null;
+    charCount?: number | null;
+    deleted?: boolean;
+  },
+): void {
+  if (!isRecord(contentStruct)) return;
+
+  const checks: Array<[unknown, unknown, string]> = [
+    [contentStruct.path, envelope.path, 'path'],
+    [contentStruct.session_id, envelope.sessionId, 'session_id'],
+    [contentStruct.tool_name, envelope.toolName, 'tool_name'],
+    [contentStruct.status, envelope.status, 'status'],
+    [contentStruct.char_count, envelope.charCount, 'char_count'],
+    [contentStruct.deleted, envelope.deleted, 'deleted'],
+  ];
+
+  for (const [payload, typed, key] of checks) {
+    if (payload === undefined || typed === undefined) continue;
+    if (payload !== typed) throw new Error(`typed_envelope_mismatch:${key}`);
+  }
+}
+
+function normalizeDeleted(input: VersionWriteInput): boolean {
+  if (input.deleted === undefined || input.deleted === false) return false;
+  if (input.deleted !== true) throw new Error(`invalid_deleted:${String(input.deleted)}`);
+  if (isRecord(input.contentStruct) && typeof input.contentStruct.content === 'string') {
+    throw new Error('invalid_tombstone:content');
+  }
+  if (input.fileBytes != null) throw new Error('invalid_tombstone:file_bytes');
+  return true;
+}
+
+function normalizeValidity(input: VersionWriteInput): { validFrom: string | null; validTo: string | null } {
+  const validFrom = input.validFrom ?? null;
+  const validTo = input.validTo ?? null;
+  if (validFrom !== null && !isCanonicalTimestamp(validFrom)) {
+    throw new Error(`invalid_validity:validFrom:${String(validFrom)}`);
+  }
+  if (validTo !== null && !isCanonicalTimestamp(validTo)) {
+    throw new Error(`invalid_validity:validTo:${String(validTo)}`);
+  }
+  if (validTo !== null && validFrom === null) throw new Error('invalid_validity:validTo_without_validFrom');
+  if (validFrom !== null && validTo !== null && validTo <= validFrom) {
+    throw new Error(`invalid_validity:empty_interval:${validFrom}:${validTo}`);
+  }
+  return { validFrom, validTo };
+}
+
+export function normalizeValidTime(validTime: string): string {
+  if (!isCanonicalTimestamp(validTime)) throw new Error(`invalid_valid_time:${String(validTime)}`);
+  return validTime;
+}
+
+function isCanonicalTimestamp(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const parsed = new Date(value);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString() === value;
+}
+
+type ValidityInterval = { validFrom: string | null; validTo: string | null };
+
+/**
+ * Half-open intervals `[from, to)`; an open interval ends where the next later
+ * `validFrom` of the object starts, so it only collides with an interval that
+ * starts at the same time or covers its start. Versions without `validFrom`
+ * claim no interval and never overlap.
+ */
+export function validityOverlaps(a: ValidityInterval, b: ValidityInterval): boolean {
+  if (a.validFrom === null || b.validFrom === null) return false;
+  return startsWithin(a.validFrom, b) || startsWithin(b.validFrom, a);
+}
+
+function startsWithin(time: string, interval: ValidityInterval): boolean {
+  if (interval.validFrom === null || interval.validFrom > time) return false;
+  return interval.validTo === null ? time === interval.validFrom : time < interval.validTo;
+}
+
+/**
+ * Intervals never overlap, so the only candidate is the version with the
+ * latest `validFrom <= validTime`; it is valid unless it was closed before.
+ */
+export function versionValidAt(history: VersionRecord[], validTime: string): VersionRecord | null {
+  let candidate: VersionRecord | null = null;
+  for (const version of history) {
+    if (version.validFrom === null || version.validFrom > validTime) continue;
+    if (!candidate || version.validFrom > (candidate.validFrom as string)) candidate = version;
+  }
+  if (!candidate || (candidate.validTo !== null && candidate.validTo <= validTime)) return null;
+  return candidate;
+}
+
+/**
+ * The envelope markers that are not hash inputs but must still match for a
+ * `requestId` to replay: the tombstone marker and the validity interval.
+ */
+export function replayMarkersMatch(replay: VersionRecord, input: VersionWriteInput): boolean {
+  return (
+    replay.deleted === (input.deleted === true) &&
+    replay.validFrom === (input.validFrom ?? null) &&
+    replay.validTo === (input.validTo ?? null)
+  );
+}
+
+function normalizeCharCount(value: number | null | undefined): number | null {
+  if (value === undefined || value === null) return null;
+  if (!Number.isInteger(value) || value < 0) throw new Error(`invalid_char_count:${value}`);
+  return value;
+}
+
+export function normalizeAsOfPoint(at: AsOfPoint): AsOfPoint {
+  if (!isRecord(at)) throw new Error('invalid_as_of:point');
+  if ('txSeq' in at) {
+    if (!Number.isInteger(at.txSeq) || at.txSeq < 0) throw new Error(`invalid_as_of:txSeq:${at.txSeq}`);
+    return { txSeq: at.txSeq };
+  }
+  if ('txTime' in at) {
+    return { txTime: ensureString(at.txTime, 'txTime', true) };
+  }
+  throw new Error('invalid_as_of:point');
+}
+
+export function isInsideAsOf(record: VersionRecord, point: AsOfPoint): boolean {
+  return 'txSeq' in point ? record.txSeq <= point.txSeq : record.txTime <= point.txTime;
+}
+
+export function normalizeListObjectsParams(params: ListObjectsParams): ListObjectsParams & { limit: number } {
+  const { updatedAfterTxSeq, cursor } = params;
+  if (updatedAfterTxSeq !== undefined && (!Number.isInteger(updatedAfterTxSeq) || updatedAfterTxSeq < 0)) {
+    throw new Error(`invalid_list_objects:updatedAfterTxSeq:${updatedAfterTxSeq}`);
+  }
+  if (cursor !== undefined && (typeof cursor !== 'string' || cursor.length === 0)) {
+    throw new Error(`invalid_cursor:${String(cursor)}`);
+  }
+  if (params.deleted !== undefined && typeof params.deleted !== 'boolean') {
+    throw new Error(`invalid_list_objects:deleted:${String(params.deleted)}`);
+  }
+  return { ...params, limit: normalizeLimit(params.limit ?? 100) };
+}
+
+export function normalizeTraverseParams(
+  params: TraverseReferencesParams,
+): Omit<TraverseReferencesParams, 'depth'> & { depth: number } {
+  if (!isRecord(params) || !isRecord(params.from)) throw new Error('invalid_traversal:from');
+  if ('versionId' in params.from) ensureString(params.from.versionId, 'from.versionId', true);
+  else if ('objectId' in params.from) ensureString(params.from.objectId, 'from.objectId', true);
+  else throw new Error('invalid_traversal:from');
+
+  if (params.direction !== 'out' && params.direction !== 'in') {
+    throw new Error(`invalid_traversal:direction:${String(params.direction)}`);
+  }
+  const depth = params.depth ?? 1;
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_TRAVERSAL_DEPTH) {
+    throw new Error(`invalid_traversal:depth:${depth}`);
+  }
+  if (params.refKinds !== undefined && !Array.isArray(params.refKinds)) throw new Error('invalid_traversal:refKinds');
+  return { ...params, depth };
+}
+
+export function sortReferenceGraph(
+  nodes: ReferenceGraphNode[],
+  edges: ReferenceGraphEdge[],
+): { nodes: ReferenceGraphNode[]; edges: ReferenceGraphEdge[] } {
+  const text = (left: string, right: string) => (left < right ? -1 : left > right ? 1 : 0);
+  return {
+    nodes: [...nodes].sort(
+      (left, right) =>
+        left.depth - right.depth || text(left.objectId, right.objectId) || left.versionNo - right.versionNo,
+    ),
+    edges: [...edges].sort(
+      (left, right) =>
+        left.depth - right.depth ||
+        text(left.reference.fromVersionId, right.reference.fromVersionId) ||
+        text(left.reference.fromPath, right.reference.fromPath) ||
+        text(left.reference.refId, right.reference.refId),
+    ),
+  };
+}
+
+export function toObjectHeadSummary(
+  objectType: ObjectType,
+  head: VersionRecord,
+  attributes: { locked: boolean; nickname: string | null },
+): ObjectHeadSummary {
+  return {
+    objectId: head.objectId,
+    objectType,
+    versionId: head.versionId,
+    versionNo: head.versionNo,
+    txSeq: head.txSeq,
+    txTime: head.txTime,
+    path: head.path,
+    sessionId: head.sessionId,
+    toolName: head.toolName,
+    status: head.status,
+    charCount: head.charCount,
+    objectHash: head.objectHash,
+    deleted: head.deleted,
+    locked: attributes.locked,
+    nickname: attributes.nickname,
+  };
+}
+
+export function normalizeAttributesUpdate(update: ObjectAttributesUpdate): ObjectAttributesUpdate {
+  if (!isRecord(update)) throw new Error('invalid_object_attributes:update');
+  if (typeof update.writerId !== 'string' || update.writerId.trim().length === 0) {
+    throw new Error('invalid_object_attributes:writerId');
+  }
+  if (update.locked === undefined && update.nickname === undefined) throw new Error('invalid_object_attributes:empty');
+  if (update.locked !== undefined && typeof update.locked !== 'boolean') {
+    throw new Error('invalid_object_attributes:locked');
+  }
+  if (
+    update.nickname !== undefined &&
+    update.nickname !== null &&
+    (typeof update.nickname !== 'string' || update.nickname.trim().length === 0)
+  ) {
+    throw new Error('invalid_object_attributes:nickname');
+  }
+  return update;
+}
+
+export function normalizeLimit(value: number): number {
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`invalid_limit:${value}`);
+  return value;
+}
@@ -1,12 +1,13 @@
 import { mkdtemp, readFile, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { SelfContextManager } from '../../src/index.js';
 import {
   baseWrite,
   cleanupStorageHarness,
   createStorageHarness,
+  sha256,
   type StorageHarness,
 } from '../storage/test-helpers.js';
 
@@ -91,6 +92,100 @@ describe('Agentic SSOT conformance (intent + implementation-agentic)', () => {
     expect(alphaPinnedIndex).toBeGreaterThan(zetaActiveIndex);
   });
 
+  it('resolves pinned refs by direct version lookup instead of loading target history', async () => {
+    await manager.wrappedWrite('beta.txt', 'beta-v1');
+    const betaRead = await manager.read('beta.txt');
+    expect(manager.pin(betaRead.id!).ok).toBe(true);
+    await manager.transformContext([]);
+    for (let i = 2; i <= 5; i++) await manager.wrappedWrite('beta.txt', `beta-v${i}`);
+
+    const getHistory = vi.spyOn(harness.storage, 'getHistory');
+    const getVersion = vi.spyOn(harness.storage, 'getVersion');
+    const assembled = await manager.transformContext([]);
+
+    const pinned = assembled
+      .map((message) => (message as { content: string }).content)
+      .find((content) => content.includes(`id=${betaRead.id}`) && content.includes('source=pinned_set'));
+    expect(pinned).toContain('beta-v1');
+    expect(getVersion).toHaveBeenCalled();
+    expect(getHistory).not.toHaveBeenCalled();
+  });
+
+  it('resolves field-hash pins to the newest matching version without loading target history', async () => {
+    await manager.wrappedWrite('gamma.txt', 'gamma-A');
+    for (let i = 1; i <= 40; i++) await manager.wrappedWrite('gamma.txt', `gamma-B${i}`);
+    await manager.transformContext([]);
+    const gammaId = `file:${join(workspaceRoot, 'gamma.txt')}`;
+    const contentPin = (content: string) => ({
+      target_object_id: gammaId,
+      mode: 'pinned',
+      ref_kind: 'field-pin',
+      target_field_hashes: { 'field_hash:content': sha256(JSON.stringify(content)) },
+    });
+
+    const latestSession = await harness.storage.getLatest(manager.sessionObjectId);
+    if (!latestSession) throw new Error('missing session head');
+    const manualHead = await harness.storage.putVersion(
+      baseWrite({
+        requestId: `field-pin-head-${Date.now()}`,
+        objectId: manager.sessionObjectId,
+        objectType: 'session',
+        expectedCurrentVersionId: latestSession.versionId,
+        sessionId,
+        contentStruct: {
+          ...(JSON.parse(latestSession.contentStructJson) as Record<string, unknown>),
+          pinned_set: [contentPin('gamma-A'), contentPin('gamma-Z')],
+        },
+        metadata: JSON.parse(latestSession.metadataJson) as Record<string, unknown>,
+      }),
+    );
+    expect(manualHead.ok).toBe(true);
+
+    const getHistory = vi.spyOn(harness.storage, 'getHistory');
+    const getVersionByFieldHashes = vi.spyOn(harness.storage, 'getVersionByFieldHashes');
+    const assembled = (await manager.transformContext([])).map((message) => (message as { content: string }).content);
+    const pinned = assembled.find((content) => content.includes(`id=${gammaId}`) && content.includes('source=pinned_set'));
+    expect(pinned).toContain('gamma-A');
+    expect(getVersionByFieldHashes).toHaveBeenCalled();
+    expect(getHistory).not.toHaveBeenCalled();
+    expect(assembled[1]).toContain(`unresolved_ref scope=pinned_set id=${gammaId} mode=pinned anchor=fields:`);
+    expect(assembled[1]).toContain('reason=pinned_field_hash_mismatch');
+  });
+
+  it('honors persisted locks and nicknames in activate/deactivate, metadata and resume', async () => {
+    await manager.wrappedWrite('spec.md', 'the spec');
+    const spec = await manager.read('spec.md');
+    expect(manager.deactivate(spec.id!).ok).toBe(true);
+
+    expect((await manager.setObjectAttributes(spec.id!, { locked: true, nickname: 'spec' })).ok).toBe(true);
+    expect(await harness.storage.getObjectAttributes(spec.id!)).toEqual({
+      objectId: spec.id,
+      locked: true,
+      nickname: 'spec',
+    });
+    expect(manager.getSnapshot().activeSet.has(spec.id!)).toBe(true);
+    expect(manager.deactivate('spec')).toEqual({ ok: false, message: `Object is locked: ${spec.id}` });
+
+    const assembled = await manager.transformContext([]);
+    const metadata = (assembled[1] as { content: string }).content;
+    expect(metadata).toContain(`- id=${spec.id} type=file`);
+    expect(metadata).toMatch(/ nickname=spec locked=true\n|nickname=spec locked=true$/);
+
+    // a fresh runtime reads the attributes back from storage
+    await manager.close();
+    manager = new SelfContextManager({ sessionId, workspaceRoot, systemPrompt: 'SYS', storage: harness.storage });
+    await manager.load();
+    expect(manager.deactivate(spec.id!).ok).toBe(false);
+
+    expect((await manager.setObjectAttributes('spec', { locked: false })).ok).toBe(true);
+    expect(manager.deactivate('spec')).toEqual({ ok: true, message: `deactivated ${spec.id}` });
+    expect(manager.activate('spec').ok).toBe(true);
+    expect((await harness.storage.getObjectAttributeHistory(spec.id!)).map((entry) => entry.locked)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
   it('resolves from latest session HEAD refs and keeps inactive/unresolved refs visible in metadata', async () => {
     await manager.wrappedWrite('manual-active.md', 'manual-active-content');
     await manager.wrappedWrite('inactive.md', 'inactive-content');
@@ -211,4 +306,93 @@ describe('Agentic SSOT conformance (intent + implementation-agentic)', () => {
     const latestContent = JSON.parse(latestSession!.contentStructJson) as { pinned_set?: Array<unknown> };
     expect(Array.isArray(latestContent.pinned_set) ? latestContent.pinned_set.length : 0).toBe(1);
   });
+
+  it('stores toolcall versions on their own when the session write of their batch conflicts', async () => {
+    await manager.transformContext([]);
+    const baseSession = await harness.storage.getLatest(manager.sessionObjectId);
+    if (!baseSession) throw new Error('missing session');
+
+    const externalHead = await harness.storage.putVersion(
+      baseWrite({
+        requestId: `external-session-${Date.now()}`,
+        objectId: manager.sessionObjectId,
+        objectType: 'session',
+        expectedCurrentVersionId: baseSession.versionId,
+        sessionId,
+        contentStruct: JSON.parse(baseSession.contentStructJson),
+        metadata: JSON.parse(baseSession.metadataJson) as Record<string, unknown>,
+      }),
+    );
+    expect(externalHead.ok).toBe(true);
+
+    await expect(
+      manager.transformContext([
+        {
+          role: 'toolResult',
+          toolCallId: 'tc-batch',
+          toolName: 'bash',
+          content: [{ type: 'text', text: 'ok' }],
+          isError: false,
+          timestamp: 1,
+        },
+      ] as never),
+    ).rejects.toThrow('storage_conflict:version_conflict:session:');
+
+    expect(await harness.storage.getLatest('tc-batch')).toMatchObject({ toolName: 'bash', status: 'ok' });
+    expect((await harness.storage.getLatest(manager.sessionObjectId))?.versionId).toBe(
+      externalHead.ok ? externalHead.record.versionId : null,
+    );
+  });
+
+  it('commits file versions in the same batch as the session version that lists them', async () => {
+    await manager.transformContext([]);
+    const putVersion = vi.spyOn(harness.storage, 'putVersion');
+    const putVersions = vi.spyOn(harness.storage, 'putVersions');
+
+    await manager.wrappedWrite('batched.txt', 'batched');
+    const read = await manager.read('batched.txt');
+    expect(manager.pin(read.id!).ok).toBe(true);
+    await manager.transformContext([]);
+
+    expect(putVersion).not.toHaveBeenCalled();
+    const [firstBatch] = putVersions.mock.calls[0];
+    expect(firstBatch.map((input) => input.objectId)).toEqual([read.id, manager.sessionObjectId]);
+
+    const file = await harness.storage.getLatest(read.id!);
+    const session = await harness.storage.getLatest(manager.sessionObjectId);
+    const content = JSON.parse(session!.contentStructJson) as {
+      pinned_set: Array<{ target_object_id: string; target_version_id?: string }>;
+    };
+    expect(content.pinned_set).toEqual([
+      expect.objectContaining({ target_object_id: read.id, target_version_id: file!.versionId }),
+    ]);
+    expect(await manager.getObjectHistory(read.id!)).toHaveLength(2);
+  });
+
+  it('keeps toolcall writes of a failed persist pending and lands them on the next one', async () => {
+    await manager.transformContext([]);
+    const messages = [
+      {
+        role: 'toolResult',
+        toolCallId: 'tc-retry',
+        toolName: 'bash',
+        content: [{ type: 'text', text: 'ok' }],
+        isError: false,
+        timestamp: 1,
+      },
+    ] as never;
+
+    const putVersions = vi.spyOn(harness.storage, 'putVersions').mockRejectedValueOnce(new Error('storage_down'));
+    await expect(manager.transformContext(messages)).rejects.toThrow('storage_down');
+    expect(await harness.storage.getLatest('tc-retry')).toBeNull();
+
+    await manager.transformContext(messages);
+    expect(putVersions).toHaveBeenCalledTimes(2);
+    expect(putVersions.mock.calls[1][0][0].requestId).toBe(putVersions.mock.calls[0][0][0].requestId);
+    expect(await harness.storage.getHistory('tc-retry')).toHaveLength(1);
+
+    const session = await harness.storage.getLatest(manager.sessionObjectId);
+    const content = JSON.parse(session!.contentStructJson) as { active_set: Array<{ target_object_id: string }> };
+    expect(content.active_set.map((ref) => ref.target_object_id)).toContain('tc-retry');
+  });
 });
@@ -116,7 +116,8 @@ describe('e2e final - realistic lifecycle and continuity', () => {
     await sleep(950);
     trackedEntity = await ext1.getEntity(tracked.id!);
     expect(trackedEntity?.content).toBeNull();
-    expect(trackedEntity?.path).toBeNull();
+    expect(trackedEntity?.path).toBe(trackedPath);
+    expect(trackedEntity?.deleted).toBe(true);
 
     await ext1.close();
 
@@ -31,7 +31,7 @@ describe('phase 4 - watcher, resume, cursor robustness', () => {
     await rm(root, { recursive: true, force: true });
   });
 
-  it('delete triggers tombstone version with null content and null path', async () => {
+  it('delete triggers tombstone version with null content and the deleted marker', async () => {
     const root = await mkdtemp(join(tmpdir(), 'scm-phase4-'));
     const filePath = join(root, 'tracked-delete.txt');
     await writeFile(filePath, 'to be deleted', 'utf8');
@@ -45,7 +45,42 @@ describe('phase 4 - watcher, resume, cursor robustness', () => {
 
     const latest = await ext.getEntity(read.id!);
     expect(latest?.content).toBeNull();
-    expect(latest?.path).toBeNull();
+    expect(latest?.path).toBe(filePath);
+    expect(latest?.deleted).toBe(true);
+
+    const context = await ext.transformContext([]);
+    const metadata = (context[1] as { content: string }).content;
+    const history = await ext.getObjectHistory(read.id!);
+    expect(metadata).toContain(`- id=${read.id} type=file path=${filePath} file_type=txt char_count=0 deleted=true since=`);
+    expect(ext.getSnapshot().activeSet.has(read.id!)).toBe(false);
+    expect(history.at(-1)?.deleted).toBe(true);
+    await ext.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('re-creating a deleted file at the same path undeletes the same object', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'scm-phase4-'));
+    const filePath = join(root, 'comeback.txt');
+    await writeFile(filePath, 'first life', 'utf8');
+
+    const ext = new SelfContextManager({ sessionId: `s-${Date.now()}-undelete`, workspaceRoot: root, systemPrompt: 'SYS' });
+    await ext.load();
+    const read = await ext.read('comeback.txt');
+
+    await rm(filePath, { force: true });
+    await sleep(900);
+    expect((await ext.getEntity(read.id!))?.deleted).toBe(true);
+
+    await sleep(2_100);
+    await writeFile(filePath, 'second life', 'utf8');
+    await sleep(900);
+
+    const latest = await ext.getEntity(read.id!);
+    expect(latest?.content).toBe('second life');
+    expect(latest?.deleted).toBeUndefined();
+
+    const context = await ext.transformContext([]);
+    expect((context[1] as { content: string }).content).not.toContain('deleted=true');
     await ext.close();
     await rm(root, { recursive: true, force: true });
   });
@@ -0,0 +1,46 @@
+import { SqliteStorage } from '../../../src/storage/sqlite-storage.js';
+
+/**
+ * Child process for the multi-process writer test. Opens the shared DB file,
+ * waits until `startAt` so every writer contends at once, then writes `count`
+ * versions of `file:/shared` plus one write of `file:/once` under a request id
+ * every writer shares. Prints one JSON line with the outcomes.
+ */
+const [dbPath, writerId, count, startAt] = process.argv.slice(2);
+
+const storage = new SqliteStorage({
+  path: dbPath,
+  journalMode: 'wal',
+  busyTimeoutMs: 0,
+  retry: { maxAttempts: 500, initialDelayMs: 1, maxDelayMs: 20 },
+});
+
+await new Promise((resolve) => setTimeout(resolve, Math.max(0, Number(startAt) - Date.now())));
+
+const write = (requestId: string, objectId: string, contentStruct: unknown) =>
+  storage.putVersion({
+    requestId,
+    objectId,
+    objectType: 'file',
+    writerId,
+    writerKind: 'client',
+    writeReason: 'manual',
+    contentStruct,
+    metadata: {},
+  });
+
+let written = 0;
+for (let index = 0; index < Number(count); index += 1) {
+  const result = await write(`${writerId}-${index}`, 'file:/shared', { content: `${writerId} ${index}` });
+  if (result.ok) written += 1;
+}
+
+const once = await write('shared-request', 'file:/once', { content: 'once' });
+storage.close();
+
+process.stdout.write(
+  `${JSON.stringify({
+    written,
+    once: once.ok ? { versionId: once.record.versionId, idempotentReplay: once.idempotentReplay } : once,
+  })}\n`,
+);
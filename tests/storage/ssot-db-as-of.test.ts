@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB as-of reads (getAsOf / getSessionAsOf) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  function sessionContent(extra: Record<string, unknown> = {}) {
+    return {
+      chat_ref: { target_object_id: 'chat:asof', mode: 'dynamic', ref_kind: 'chat' },
+      active_set: [],
+      inactive_set: [],
+      pinned_set: [],
+      ...extra,
+    };
+  }
+
+  it('getAsOf by txSeq returns the highest version inside the cut', async () => {
+    const v1 = await put({ requestId: 'a1', objectId: 'file:/a', objectType: 'file', contentStruct: { v: 1 } });
+    await put({ requestId: 'other', objectId: 'file:/other', objectType: 'file', contentStruct: {} });
+    const v2 = await put({ requestId: 'a2', objectId: 'file:/a', objectType: 'file', contentStruct: { v: 2 } });
+
+    expect(await harness.storage.getAsOf('file:/a', { txSeq: v1.txSeq - 1 })).toBeNull();
+    expect((await harness.storage.getAsOf('file:/a', { txSeq: v1.txSeq }))?.versionId).toBe(v1.versionId);
+    expect((await harness.storage.getAsOf('file:/a', { txSeq: v2.txSeq - 1 }))?.versionId).toBe(v1.versionId);
+    expect((await harness.storage.getAsOf('file:/a', { txSeq: v2.txSeq + 100 }))?.versionId).toBe(v2.versionId);
+    expect(await harness.storage.getAsOf('file:/missing', { txSeq: 1_000 })).toBeNull();
+  });
+
+  it('getAsOf by txTime compares recorded ISO tx_time', async () => {
+    const v1 = await put({
+      requestId: 't1',
+      objectId: 'file:/t',
+      objectType: 'file',
+      contentStruct: { v: 1 },
+      txTime: '2026-01-01T00:00:00.000Z',
+    });
+    const v2 = await put({
+      requestId: 't2',
+      objectId: 'file:/t',
+      objectType: 'file',
+      contentStruct: { v: 2 },
+      txTime: '2026-01-02T00:00:00.000Z',
+    });
+
+    expect(await harness.storage.getAsOf('file:/t', { txTime: '2025-12-31T23:59:59.999Z' })).toBeNull();
+    expect((await harness.storage.getAsOf('file:/t', { txTime: '2026-01-01T12:00:00.000Z' }))?.versionId).toBe(
+      v1.versionId,
+    );
+    expect((await harness.storage.getAsOf('file:/t', { txTime: '2026-01-02T00:00:00.000Z' }))?.versionId).toBe(
+      v2.versionId,
+    );
+  });
+
+  it('rejects malformed as-of points', async () => {
+    await expect(harness.storage.getAsOf('file:/a', { txSeq: -1 })).rejects.toThrow('invalid_as_of:txSeq');
+    await expect(harness.storage.getAsOf('file:/a', { txSeq: 1.5 })).rejects.toThrow('invalid_as_of:txSeq');
+    await expect(harness.storage.getAsOf('file:/a', { txTime: '' })).rejects.toThrow('invalid_non_empty_string:txTime');
+    await expect(harness.storage.getAsOf('file:/a', {} as never)).rejects.toThrow('invalid_as_of:point');
+  });
+
+  it('getSessionAsOf resolves dynamic refs at the same cut and pinned refs to their anchors', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:asof', objectType: 'chat', contentStruct: {} });
+    const fileV1 = await put({ requestId: 'f1', objectId: 'file:/s', objectType: 'file', contentStruct: { v: 1 } });
+
+    const session1 = await put({
+      requestId: 's1',
+      objectId: 'session:asof',
+      objectType: 'session',
+      sessionId: 'asof',
+      contentStruct: sessionContent({
+        active_set: [{ target_object_id: 'file:/s', mode: 'dynamic', ref_kind: 'active' }],
+        pinned_set: [
+          { target_object_id: 'file:/s', mode: 'pinned', target_version_id: fileV1.versionId, ref_kind: 'pin' },
+        ],
+      }),
+    });
+
+    const fileV2 = await put({ requestId: 'f2', objectId: 'file:/s', objectType: 'file', contentStruct: { v: 2 } });
+    await put({
+      requestId: 's2',
+      objectId: 'session:asof',
+      objectType: 'session',
+      sessionId: 'asof',
+      contentStruct: sessionContent(),
+    });
+
+    const atSession1 = await harness.storage.getSessionAsOf('session:asof', { txSeq: session1.txSeq });
+    expect(atSession1?.session.versionId).toBe(session1.versionId);
+    const byPath = new Map(atSession1?.references.map((entry) => [entry.reference.fromPath, entry.target?.versionId]));
+    expect(byPath.get('/active_set/0')).toBe(fileV1.versionId);
+    expect(byPath.get('/pinned_set/0')).toBe(fileV1.versionId);
+
+    const beforeSession2 = await harness.storage.getSessionAsOf('session:asof', { txSeq: fileV2.txSeq });
+    expect(beforeSession2?.session.versionId).toBe(session1.versionId);
+    const dynamic = beforeSession2?.references.find((entry) => entry.reference.fromPath === '/active_set/0');
+    expect(dynamic?.target?.versionId).toBe(fileV2.versionId);
+  });
+
+  it('getSessionAsOf returns null before the first session version and for non-session objects', async () => {
+    const chat = await put({ requestId: 'chat', objectId: 'chat:asof', objectType: 'chat', contentStruct: {} });
+    await put({
+      requestId: 's1',
+      objectId: 'session:asof',
+      objectType: 'session',
+      sessionId: 'asof',
+      contentStruct: sessionContent(),
+    });
+
+    expect(await harness.storage.getSessionAsOf('session:asof', { txSeq: chat.txSeq })).toBeNull();
+    expect(await harness.storage.getSessionAsOf('chat:asof', { txSeq: 1_000 })).toBeNull();
+    expect(await harness.storage.getSessionAsOf('session:missing', { txSeq: 1_000 })).toBeNull();
+  });
+
+  it('getSessionAsOf leaves pinned anchors written after the cut unresolved', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:asof', objectType: 'chat', contentStruct: {} });
+    const early = await put({
+      requestId: 's1',
+      objectId: 'session:asof',
+      objectType: 'session',
+      sessionId: 'asof',
+      contentStruct: sessionContent({
+        pinned_set: [
+          { target_object_id: 'file:/late', mode: 'pinned', target_object_hash: 'hash-not-yet', ref_kind: 'pin' },
+        ],
+      }),
+    });
+
+    const snapshot = await harness.storage.getSessionAsOf('session:asof', { txSeq: early.txSeq });
+    expect(snapshot?.references.find((entry) => entry.reference.fromPath === '/pinned_set/0')?.target).toBeNull();
+  });
+});
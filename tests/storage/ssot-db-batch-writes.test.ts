@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB atomic batch writes (putVersions) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function versionCount(): Promise<number> {
+    if (harness.inspect) {
+      return Number((harness.inspect.prepare('SELECT COUNT(*) AS n FROM object_versions').get() as { n: number }).n);
+    }
+    return (await harness.storage.readChanges({ limit: 1000 })).changes.length;
+  }
+
+  function sessionWrite(requestId: string, extra: Partial<Parameters<typeof baseWrite>[0]> = {}) {
+    return baseWrite({
+      requestId,
+      objectId: 'session:batch',
+      objectType: 'session',
+      sessionId: 'batch',
+      contentStruct: {
+        chat_ref: { target_object_id: 'chat:batch', mode: 'dynamic', ref_kind: 'chat' },
+        active_set: [{ target_object_id: 'toolcall:batch', mode: 'dynamic', ref_kind: 'active' }],
+        inactive_set: [],
+        pinned_set: [],
+      },
+      ...extra,
+    });
+  }
+
+  it('commits every input in order and resolves refs against objects created earlier in the batch', async () => {
+    const result = await harness.storage.putVersions([
+      baseWrite({ requestId: 'chat', objectId: 'chat:batch', objectType: 'chat', contentStruct: {} }),
+      baseWrite({ requestId: 'tool', objectId: 'toolcall:batch', objectType: 'toolcall', contentStruct: { v: 1 } }),
+      sessionWrite('session'),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.results.map((entry) => [entry.record.objectId, entry.idempotentReplay])).toEqual([
+      ['chat:batch', false],
+      ['toolcall:batch', false],
+      ['session:batch', false],
+    ]);
+    const txSeqs = result.results.map((entry) => entry.record.txSeq);
+    expect(txSeqs).toEqual([...txSeqs].sort((a, b) => a - b));
+
+    const refs = await harness.storage.queryReferences({ fromVersionId: result.results[2].record.versionId });
+    expect(refs.every((ref) => ref.resolved)).toBe(true);
+  });
+
+  it('applies expectedCurrentVersionId and idempotency against earlier inputs of the same batch', async () => {
+    const first = await harness.storage.putVersions([
+      baseWrite({ requestId: 'a1', objectId: 'file:/a', objectType: 'file', contentStruct: { v: 1 } }),
+    ]);
+    if (!first.ok) throw new Error('seed failed');
+    const v1 = first.results[0].record;
+
+    const result = await harness.storage.putVersions([
+      baseWrite({
+        requestId: 'a2',
+        objectId: 'file:/a',
+        objectType: 'file',
+        contentStruct: { v: 2 },
+        expectedCurrentVersionId: v1.versionId,
+      }),
+      baseWrite({ requestId: 'a2', objectId: 'file:/a', objectType: 'file', contentStruct: { v: 2 } }),
+      baseWrite({ requestId: 'a1', objectId: 'file:/a', objectType: 'file', contentStruct: { v: 1 } }),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.results.map((entry) => [entry.record.versionNo, entry.idempotentReplay])).toEqual([
+      [2, false],
+      [2, true],
+      [1, true],
+    ]);
+  });
+
+  it('rolls back the whole batch on a conflict and reports the failing index', async () => {
+    const seen: string[] = [];
+    harness.local.subscribe((change) => seen.push(change.record.objectId));
+
+    const result = await harness.storage.putVersions([
+      baseWrite({ requestId: 'tool', objectId: 'toolcall:batch', objectType: 'toolcall', contentStruct: {} }),
+      baseWrite({
+        requestId: 'file',
+        objectId: 'file:/b',
+        objectType: 'file',
+        contentStruct: {},
+        expectedCurrentVersionId: 'stale',
+      }),
+      baseWrite({ requestId: 'late', objectId: 'file:/c', objectType: 'file', contentStruct: {} }),
+    ]);
+
+    expect(result).toEqual({
+      ok: false,
+      failedIndex: 1,
+      results: [
+        { ok: false, aborted: true },
+        { ok: false, conflict: true, reason: 'version_conflict' },
+        { ok: false, aborted: true },
+      ],
+    });
+    expect(await versionCount()).toBe(0);
+    expect(await harness.storage.getLatest('toolcall:batch')).toBeNull();
+    expect(seen).toEqual([]);
+
+    const retried = await harness.storage.putVersion(
+      baseWrite({ requestId: 'tool', objectId: 'toolcall:batch', objectType: 'toolcall', contentStruct: {} }),
+    );
+    expect(retried.ok && !retried.idempotentReplay).toBe(true);
+  });
+
+  it('rejects a batch with an invalid session identity before writing anything', async () => {
+    const result = await harness.storage.putVersions([
+      baseWrite({ requestId: 'tool', objectId: 'toolcall:batch', objectType: 'toolcall', contentStruct: {} }),
+      sessionWrite('session', { sessionId: '  ' }),
+    ]);
+
+    expect(result).toMatchObject({
+      ok: false,
+      failedIndex: 1,
+      results: [
+        { ok: false, aborted: true },
+        { ok: false, validation: true, reason: 'invalid_session_id' },
+      ],
+    });
+    expect(await versionCount()).toBe(0);
+  });
+
+  it('accepts an empty batch', async () => {
+    expect(await harness.storage.putVersions([])).toEqual({ ok: true, results: [] });
+  });
+});
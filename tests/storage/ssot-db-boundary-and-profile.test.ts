@@ -2,24 +2,23 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import type { DatabaseSync } from 'node:sqlite';
 import {
   baseWrite,
-  cleanupStorageHarness,
-  createStorageHarness,
-  openInspectDb,
-  type StorageHarness,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
 } from './test-helpers.js';
 
-describe('DB SSOT §1 profile, §9 boundary, §10 out-of-scope', () => {
-  let harness: StorageHarness;
-  let inspect: DatabaseSync;
+describe.each(STORAGE_BACKENDS)('DB SSOT §1 profile, §9 boundary, §10 out-of-scope [%s]', (backend) => {
+  let harness: BackendHarness;
+  let inspect: DatabaseSync | null;
 
   beforeEach(async () => {
-    harness = await createStorageHarness();
-    inspect = openInspectDb(harness.dbPath);
+    harness = await createBackendHarness(backend);
+    inspect = harness.inspect;
   });
 
   afterEach(async () => {
-    inspect.close();
-    await cleanupStorageHarness(harness);
+    await cleanupBackendHarness(harness);
   });
 
   it('§1 includes immutable version store + idempotent writes + typed envelope fields in object_versions', async () => {
@@ -71,24 +70,27 @@ describe('DB SSOT §1 profile, §9 boundary, §10 out-of-scope', () => {
     expect(replay.ok).toBe(true);
     if (!replay.ok) return;
     expect(replay.idempotentReplay).toBe(true);
-
-    const row = inspect
-      .prepare('SELECT path, session_id, tool_name, status, char_count FROM object_versions WHERE version_id = ?')
-      .get(first.record.versionId) as {
-      path: string;
-      session_id: string;
-      tool_name: string;
-      status: string;
-      char_count: number;
-    };
-
-    expect(row).toEqual({
-      path: '/p1',
-      session_id: 's1',
-      tool_name: 'read',
-      status: 'ok',
-      char_count: 2,
-    });
+    expect(replay.record).toEqual(first.record);
+
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT path, session_id, tool_name, status, char_count FROM object_versions WHERE version_id = ?')
+        .get(first.record.versionId) as {
+        path: string;
+        session_id: string;
+        tool_name: string;
+        status: string;
+        char_count: number;
+      };
+
+      expect(row).toEqual({
+        path: '/p1',
+        session_id: 's1',
+        tool_name: 'read',
+        status: 'ok',
+        char_count: 2,
+      });
+    }
   });
 
   it('§1 includes explicit structured references + session tracking via session object versions', async () => {
@@ -124,10 +126,15 @@ describe('DB SSOT §1 profile, §9 boundary, §10 out-of-scope', () => {
     const refs = await harness.storage.queryReferences({ fromVersionId: session.record.versionId });
     expect(refs).toHaveLength(1);
 
-    const objectType = inspect
-      .prepare('SELECT object_type FROM objects WHERE object_id = ?')
-      .get('session:p1') as { object_type: string };
-    expect(objectType.object_type).toBe('session');
+    const { changes } = await harness.storage.readChanges({ objectType: 'session' });
+    expect(changes.map((change) => change.record.objectId)).toEqual(['session:p1']);
+
+    if (inspect) {
+      const objectType = inspect
+        .prepare('SELECT object_type FROM objects WHERE object_id = ?')
+        .get('session:p1') as { object_type: string };
+      expect(objectType.object_type).toBe('session');
+    }
   });
 
   it('§9 StoragePort boundary exposes required methods', () => {
@@ -135,8 +142,12 @@ describe('DB SSOT §1 profile, §9 boundary, §10 out-of-scope', () => {
 
     const requiredMethods = [
       'putVersion',
+      'putVersions',
       'getLatest',
       'getHistory',
+      'getAsOf',
+      'getSessionAsOf',
+      'readChanges',
       'queryReferences',
       'getReferrersByTargetVersion',
       'getReferrersByTargetHash',
@@ -195,35 +206,17 @@ describe('DB SSOT §1 profile, §9 boundary, §10 out-of-scope', () => {
     expect(conflict).toEqual({ ok: false, conflict: true, reason: 'idempotency_mismatch' });
   });
 
-  it('§10 out-of-scope: no doc_nodes table, no temporal columns, no field-hash pinning columns', () => {
+  it('§10 out-of-scope: no doc_nodes table', async () => {
+    const written = await harness.storage.putVersion(
+      baseWrite({ requestId: 'p10', objectId: 'file:p10', objectType: 'file', contentStruct: {} }),
+    );
+    expect(written.ok).toBe(true);
+
+    if (!inspect) return;
+
     const docNodes = inspect
       .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='doc_nodes'")
       .get() as { name: string } | undefined;
     expect(docNodes).toBeUndefined();
-
-    const versionColumns = inspect
-      .prepare("PRAGMA table_info('object_versions')")
-      .all() as Array<{ name: string }>;
-    const names = versionColumns.map((c) => c.name);
-
-    expect(names).not.toContain('valid_from');
-    expect(names).not.toContain('valid_to');
-    expect(names).not.toContain('field_hashes_json');
-  });
-
-  it('§10 out-of-scope: no built-in FTS tables', () => {
-    const ftsRows = inspect
-      .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name LIKE 'fts%'")
-      .all() as Array<{ name: string }>;
-
-    expect(ftsRows).toEqual([]);
-  });
-
-  it('§10 out-of-scope: storage boundary does not expose as-of/GC APIs', () => {
-    const storageAsAny = harness.storage as unknown as Record<string, unknown>;
-    expect(storageAsAny.getAsOf).toBeUndefined();
-    expect(storageAsAny.gcDryRun).toBeUndefined();
-    expect(storageAsAny.gcExecute).toBeUndefined();
-    expect(storageAsAny.searchFullText).toBeUndefined();
   });
 });
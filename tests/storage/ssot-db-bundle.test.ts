@@ -0,0 +1,293 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import type { ObjectType } from '../../src/storage/storage-port.js';
+import { REF_FIELDS, type RefFieldSpec } from '../../src/storage/version-codec.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+describe('DB bundle export/import (exportBundle / importBundle)', () => {
+  let source: StorageHarness;
+  let target: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    source = await createStorageHarness();
+    target = await createStorageHarness();
+    inspect = openInspectDb(target.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(source);
+    await cleanupStorageHarness(target);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await source.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  async function seedSession() {
+    await put({ requestId: 'chat', objectId: 'chat:b', objectType: 'chat', contentStruct: { content: 'hello' } });
+    const fileV1 = await put({
+      requestId: 'f1',
+      objectId: 'file:/b.txt',
+      objectType: 'file',
+      path: '/b.txt',
+      contentStruct: { content: 'one' },
+      fileBytes: new TextEncoder().encode('one'),
+    });
+    const fileV2 = await put({
+      requestId: 'f2',
+      objectId: 'file:/b.txt',
+      objectType: 'file',
+      path: '/b.txt',
+      contentStruct: { content: 'two' },
+      fileBytes: new TextEncoder().encode('two'),
+    });
+    await put({ requestId: 'other', objectId: 'file:/unrelated', objectType: 'file', contentStruct: { content: 'x' } });
+    const session = await put({
+      requestId: 's1',
+      objectId: 'session:b',
+      objectType: 'session',
+      sessionId: 'b',
+      contentStruct: {
+        chat_ref: { target_object_id: 'chat:b', mode: 'dynamic', ref_kind: 'chat' },
+        active_set: [{ target_object_id: 'file:/b.txt', mode: 'dynamic', ref_kind: 'active' }],
+        inactive_set: [],
+        pinned_set: [{ target_object_id: 'file:/b.txt', mode: 'pinned', target_version_id: fileV1.versionId, ref_kind: 'pin' }],
+      },
+    });
+    return { fileV1, fileV2, session };
+  }
+
+  it('round-trips history into an empty store with ids, hashes and blobs preserved', async () => {
+    const { fileV1, fileV2, session } = await seedSession();
+    const bundle = await source.storage.exportBundle();
+
+    const result = await target.storage.importBundle(bundle);
+    expect(result).toEqual({ ok: true, imported: 5, skipped: 0 });
+
+    for (const objectId of ['chat:b', 'file:/b.txt', 'file:/unrelated', 'session:b']) {
+      const before = await source.storage.getHistory(objectId);
+      const after = await target.storage.getHistory(objectId);
+      expect(after.map((v) => [v.versionId, v.versionNo, v.objectHash])).toEqual(
+        before.map((v) => [v.versionId, v.versionNo, v.objectHash]),
+      );
+    }
+    expect((await target.storage.getLatest('file:/b.txt'))?.versionId).toBe(fileV2.versionId);
+
+    const reasons = inspect.prepare('SELECT DISTINCT write_reason FROM object_versions').all() as Array<{
+      write_reason: string;
+    }>;
+    expect(reasons).toEqual([{ write_reason: 'import' }]);
+
+    const blob = inspect
+      .prepare('SELECT b.bytes FROM object_versions v JOIN blobs b ON b.hash = v.file_bytes_hash WHERE v.version_id = ?')
+      .get(fileV1.versionId) as { bytes: Uint8Array };
+    expect(new TextDecoder().decode(blob.bytes)).toBe('one');
+
+    const refs = await target.storage.queryReferences({ fromVersionId: session.versionId });
+    expect(refs.map((ref) => [ref.fromPath, ref.targetVersionId ?? null, ref.resolved])).toEqual(
+      expect.arrayContaining([
+        ['/pinned_set/0', fileV1.versionId, true],
+        ['/active_set/0', null, true],
+      ]),
+    );
+  });
+
+  it('carries locked / nickname across and records the change in the attribute audit trail', async () => {
+    await seedSession();
+    await source.storage.setObjectAttributes('file:/b.txt', { locked: true, nickname: 'b', writerId: 'u1' });
+    const bundle = await source.storage.exportBundle();
+
+    expect(await target.storage.importBundle(bundle)).toMatchObject({ ok: true, imported: 5 });
+    expect(await target.storage.getObjectAttributes('file:/b.txt')).toEqual({
+      objectId: 'file:/b.txt',
+      locked: true,
+      nickname: 'b',
+    });
+    expect(await target.storage.getObjectAttributes('chat:b')).toMatchObject({ locked: false, nickname: null });
+    expect(await target.storage.getObjectAttributeHistory('file:/b.txt')).toEqual([
+      expect.objectContaining({ locked: true, nickname: 'b', writerId: 'import' }),
+    ]);
+    expect(await target.storage.getObjectAttributeHistory('chat:b')).toEqual([]);
+
+    await target.storage.importBundle(bundle);
+    expect(await target.storage.getObjectAttributeHistory('file:/b.txt')).toHaveLength(1);
+  });
+
+  it('session filter exports the session plus its reference closure only', async () => {
+    await seedSession();
+    const bundle = await source.storage.exportBundle({ sessionId: 'b' });
+    const objects = bundle
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { kind: string; object_id?: string })
+      .filter((line) => line.kind === 'object')
+      .map((line) => line.object_id);
+    expect(objects).toEqual(['chat:b', 'file:/b.txt', 'session:b']);
+
+    const shallow = await source.storage.exportBundle({ sessionId: 'b', followReferences: false });
+    expect(shallow).toContain('"object_id":"session:b"');
+    expect(shallow).not.toContain('"kind":"object","object_id":"chat:b"');
+  });
+
+  it('rejects a tampered bundle with issues and writes nothing', async () => {
+    await seedSession();
+    const bundle = (await source.storage.exportBundle()).replace('"content\\":\\"two\\"', '"content\\":\\"TWO\\"');
+
+    const result = await target.storage.importBundle(bundle);
+    expect(result.ok).toBe(false);
+    if (result.ok || !('verification' in result)) throw new Error('expected verification failure');
+    expect(result.reason).toBe('bundle_verification_failed');
+    expect(result.issues.map((issue) => issue.check)).toEqual(['content_struct_hash', 'field_hashes']);
+
+    const count = inspect.prepare('SELECT COUNT(*) AS n FROM object_versions').get() as { n: number };
+    expect(count.n).toBe(0);
+  });
+
+  it('rejects a bundle whose field_hashes_json does not match the payload', async () => {
+    const { fileV2 } = await seedSession();
+    const bundle = await source.storage.exportBundle();
+    const forged = bundle.replace(
+      JSON.stringify(fileV2.fieldHashesJson),
+      JSON.stringify(JSON.stringify({ 'field_hash:content': fileV2.contentStructHash })),
+    );
+    expect(forged).not.toBe(bundle);
+
+    const result = await target.storage.importBundle(forged);
+    expect(result).toMatchObject({
+      ok: false,
+      reason: 'bundle_verification_failed',
+      issues: [{ versionId: fileV2.versionId, check: 'field_hashes', computed: fileV2.fieldHashesJson }],
+    });
+    expect(inspect.prepare('SELECT COUNT(*) AS n FROM object_versions').get()).toEqual({ n: 0 });
+  });
+
+  it('rejects a bundle version that putVersion would refuse and writes nothing', async () => {
+    const { session } = await seedSession();
+    // schema 1 object_hash does not cover the typed envelope, so this passes verification
+    const bundle = (await source.storage.exportBundle()).replace('"session_id":"b"', '"session_id":" "');
+
+    expect(await target.storage.importBundle(bundle)).toEqual({
+      ok: false,
+      validation: true,
+      reason: 'invalid_session_id',
+      versionId: session.versionId,
+    });
+    expect(inspect.prepare('SELECT COUNT(*) AS n FROM object_versions').get()).toEqual({ n: 0 });
+  });
+
+  it('round-trips chat / toolcall versions written before their ref fields were extracted', async () => {
+    // a store written before toolcall chat_ref / chat session_ref became ref-bearing stored no rows for them
+    const fields = REF_FIELDS as Record<ObjectType, readonly RefFieldSpec[]>;
+    const current = { chat: fields.chat, toolcall: fields.toolcall };
+    fields.chat = [];
+    fields.toolcall = [];
+    let legacyChat: Awaited<ReturnType<typeof put>>;
+    let legacyTool: Awaited<ReturnType<typeof put>>;
+    try {
+      legacyChat = await put({
+        requestId: 'chat',
+        objectId: 'chat:l',
+        objectType: 'chat',
+        contentStruct: { session_ref: { target_object_id: 'session:l', mode: 'dynamic', ref_kind: 'chat-session' } },
+      });
+      legacyTool = await put({
+        requestId: 'tool',
+        objectId: 'toolcall:l',
+        objectType: 'toolcall',
+        contentStruct: { content: 'ok', chat_ref: { target_object_id: 'chat:l', mode: 'dynamic', ref_kind: 'chat' } },
+      });
+    } finally {
+      Object.assign(fields, current);
+    }
+    const linkedTool = await put({
+      requestId: 'tool-2',
+      objectId: 'toolcall:l',
+      objectType: 'toolcall',
+      contentStruct: { content: 'ok', chat_ref: { target_object_id: 'chat:l', mode: 'dynamic', ref_kind: 'chat' } },
+    });
+    expect((await source.storage.verifyIntegrity()).ok).toBe(true);
+
+    expect(await target.storage.importBundle(await source.storage.exportBundle())).toEqual({
+      ok: true,
+      imported: 3,
+      skipped: 0,
+    });
+    expect(await target.storage.getHistory('toolcall:l', 'asc')).toMatchObject([
+      { versionId: legacyTool.versionId, objectHash: legacyTool.objectHash, refsHash: legacyTool.refsHash },
+      { versionId: linkedTool.versionId, objectHash: linkedTool.objectHash },
+    ]);
+    expect(await target.storage.getVersion(legacyChat.versionId)).toMatchObject({ objectHash: legacyChat.objectHash });
+    expect(await target.storage.queryReferences({ fromVersionId: legacyTool.versionId })).toEqual([]);
+    expect(await target.storage.queryReferences({ fromVersionId: linkedTool.versionId })).toMatchObject([
+      { targetObjectId: 'chat:l', fromPath: '/chat_ref' },
+    ]);
+    expect((await target.storage.verifyIntegrity()).ok).toBe(true);
+  });
+
+  it('rejects malformed bundles up front', async () => {
+    await expect(target.storage.importBundle('')).rejects.toThrow('invalid_bundle:missing_header');
+    await expect(target.storage.importBundle('{"kind":"header","format":"other"}')).rejects.toThrow(
+      'invalid_bundle:format:other',
+    );
+    const future = (await source.storage.exportBundle()).replace('"format_version":2', '"format_version":3');
+    await expect(target.storage.importBundle(future)).rejects.toThrow('invalid_bundle:format_version:3');
+  });
+
+  it('exports format version 2 and still imports a version 1 bundle without field-hash anchors', async () => {
+    const { fileV2 } = await seedSession();
+    const bundle = await source.storage.exportBundle();
+    expect(JSON.parse(bundle.split('\n')[0])).toMatchObject({ kind: 'header', format_version: 2 });
+
+    const legacy = bundle
+      .trim()
+      .split('\n')
+      .map((text) => {
+        const line = JSON.parse(text) as Record<string, unknown>;
+        delete line.field_hashes_json;
+        delete line.target_field_hashes_json;
+        return JSON.stringify(line.kind === 'header' ? { ...line, format_version: 1 } : line);
+      })
+      .join('\n');
+    expect(legacy).not.toContain('field_hashes_json');
+
+    expect(await target.storage.importBundle(legacy)).toEqual({ ok: true, imported: 5, skipped: 0 });
+    expect(await target.storage.getVersion(fileV2.versionId)).toMatchObject({
+      objectHash: fileV2.objectHash,
+      fieldHashesJson: fileV2.fieldHashesJson,
+    });
+  });
+
+  it('re-importing the same bundle skips every version', async () => {
+    await seedSession();
+    const bundle = await source.storage.exportBundle();
+    await target.storage.importBundle(bundle);
+
+    expect(await target.storage.importBundle(bundle)).toEqual({ ok: true, imported: 0, skipped: 5 });
+  });
+
+  it('rolls back the whole import on a history conflict', async () => {
+    await seedSession();
+    const bundle = await source.storage.exportBundle();
+
+    const local = await target.storage.putVersion(
+      baseWrite({ requestId: 'local', objectId: 'file:/b.txt', objectType: 'file', contentStruct: { content: 'local' } }),
+    );
+    expect(local.ok).toBe(true);
+
+    const result = await target.storage.importBundle(bundle);
+    expect(result).toMatchObject({ ok: false, conflict: true, reason: 'version_conflict' });
+
+    const count = inspect.prepare('SELECT COUNT(*) AS n FROM object_versions').get() as { n: number };
+    expect(count.n).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ChangeFeedEntry } from '../../src/storage/storage-port.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB change feed (readChanges / subscribe) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  async function seed() {
+    const file = await put({ requestId: 'f1', objectId: 'file:/feed', objectType: 'file', contentStruct: { v: 1 } });
+    const tool = await put({
+      requestId: 't1',
+      objectId: 'toolcall:feed',
+      objectType: 'toolcall',
+      sessionId: 'feed',
+      contentStruct: {},
+    });
+    const file2 = await put({ requestId: 'f2', objectId: 'file:/feed', objectType: 'file', contentStruct: { v: 2 } });
+    return { file, tool, file2 };
+  }
+
+  it('pages through committed versions in tx_seq order with a resumable cursor', async () => {
+    const { file, tool, file2 } = await seed();
+
+    const first = await harness.storage.readChanges({ limit: 2 });
+    expect(first.changes.map((change) => [change.objectType, change.record.versionId])).toEqual([
+      ['file', file.versionId],
+      ['toolcall', tool.versionId],
+    ]);
+    expect(first.cursor).toBe(tool.txSeq);
+
+    const second = await harness.storage.readChanges({ afterTxSeq: first.cursor, limit: 2 });
+    expect(second.changes.map((change) => change.record.versionId)).toEqual([file2.versionId]);
+
+    const empty = await harness.storage.readChanges({ afterTxSeq: second.cursor });
+    expect(empty).toEqual({ changes: [], cursor: second.cursor });
+  });
+
+  it('filters by objectType and sessionId and rejects bad cursors', async () => {
+    const { tool, file, file2 } = await seed();
+
+    const files = await harness.storage.readChanges({ objectType: 'file' });
+    expect(files.changes.map((change) => change.record.versionId)).toEqual([file.versionId, file2.versionId]);
+
+    const session = await harness.storage.readChanges({ sessionId: 'feed' });
+    expect(session.changes.map((change) => change.record.versionId)).toEqual([tool.versionId]);
+
+    await expect(harness.storage.readChanges({ afterTxSeq: -1 })).rejects.toThrow('invalid_cursor:-1');
+    await expect(harness.storage.readChanges({ limit: 0 })).rejects.toThrow('invalid_limit:0');
+  });
+
+  it('subscribe fires after commit for new versions only and stops after unsubscribe', async () => {
+    const seen: ChangeFeedEntry[] = [];
+    const unsubscribe = harness.local.subscribe((change) => seen.push(change));
+    harness.local.subscribe(() => {
+      throw new Error('listener failure must not fail the write');
+    });
+
+    const record = await put({ requestId: 'f1', objectId: 'file:/sub', objectType: 'file', contentStruct: {} });
+    expect(seen.map((change) => [change.objectType, change.record.versionId])).toEqual([['file', record.versionId]]);
+
+    await put({ requestId: 'f1', objectId: 'file:/sub', objectType: 'file', contentStruct: {} });
+    const conflict = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'f2',
+        objectId: 'file:/sub',
+        objectType: 'file',
+        expectedCurrentVersionId: 'stale',
+      }),
+    );
+    expect(conflict.ok).toBe(false);
+    expect(seen).toHaveLength(1);
+
+    unsubscribe();
+    await put({ requestId: 'f3', objectId: 'file:/sub', objectType: 'file', contentStruct: { v: 3 } });
+    expect(seen).toHaveLength(1);
+  });
+});
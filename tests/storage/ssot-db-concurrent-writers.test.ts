@@ -0,0 +1,136 @@
+import { spawn } from 'node:child_process';
+import { join } from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+const VITE_NODE = join(process.cwd(), 'node_modules', 'vite-node', 'vite-node.mjs');
+const WRITER_PROCESS = join(process.cwd(), 'tests', 'storage', 'fixtures', 'sqlite-writer-process.ts');
+
+type WriterOutcome = { written: number; once: { versionId: string; idempotentReplay: boolean } };
+
+function runWriterProcess(args: string[]): Promise<WriterOutcome> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [VITE_NODE, WRITER_PROCESS, ...args], { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString('utf8')));
+    child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString('utf8')));
+    child.on('error', reject);
+    child.on('exit', (code) => {
+      if (code !== 0) reject(new Error(`writer ${args[1]} exited ${code}: ${stderr}`));
+      else resolve(JSON.parse(stdout.trim().split('\n').at(-1)!));
+    });
+  });
+}
+
+describe('DB concurrent writers (journal mode, busy timeout, retry)', () => {
+  let harness: StorageHarness;
+  const opened: Array<SqliteStorage | DatabaseSync> = [];
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+  });
+
+  afterEach(async () => {
+    for (const handle of opened.splice(0)) handle.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  function open(options: ConstructorParameters<typeof SqliteStorage>[0] = {}): SqliteStorage {
+    const storage = new SqliteStorage({ path: harness.dbPath, ...options });
+    opened.push(storage);
+    return storage;
+  }
+
+  function holdWriteLock(): DatabaseSync {
+    const lock = openInspectDb(harness.dbPath);
+    opened.push(lock);
+    lock.exec('BEGIN IMMEDIATE');
+    return lock;
+  }
+
+  it('switches the file to WAL and rejects invalid options', () => {
+    open({ journalMode: 'wal', busyTimeoutMs: 250 });
+    const inspect = openInspectDb(harness.dbPath);
+    opened.push(inspect);
+    expect(inspect.prepare('PRAGMA journal_mode').get()).toEqual({ journal_mode: 'wal' });
+
+    expect(() => open({ busyTimeoutMs: -1 })).toThrow('invalid_busy_timeout:-1');
+    expect(() => open({ journalMode: 'wal; DROP TABLE objects' as never })).toThrow(
+      'invalid_journal_mode:wal; DROP TABLE objects',
+    );
+    expect(() => open({ retry: { maxAttempts: 0 } })).toThrow('invalid_retry:maxAttempts:0');
+    expect(() => open({ retry: { maxDelayMs: -5 } })).toThrow('invalid_retry:maxDelayMs:-5');
+  });
+
+  it('fails with SQLITE_BUSY without retry and succeeds once the lock is released with retry', async () => {
+    const lock = holdWriteLock();
+
+    const noRetry = open();
+    await expect(
+      noRetry.putVersion(baseWrite({ requestId: 'busy-1', objectId: 'file:/busy', objectType: 'file' })),
+    ).rejects.toThrow('database is locked');
+
+    const retrying = open({ retry: { maxAttempts: 50, initialDelayMs: 5, maxDelayMs: 20 } });
+    setTimeout(() => lock.exec('COMMIT'), 60);
+    const result = await retrying.putVersion(
+      baseWrite({ requestId: 'busy-2', objectId: 'file:/busy', objectType: 'file' }),
+    );
+    expect(result).toMatchObject({ ok: true, idempotentReplay: false, record: { versionNo: 1 } });
+  });
+
+  it('answers a retried write as a replay when another connection committed its request id meanwhile', async () => {
+    const lock = holdWriteLock();
+    const retrying = open({ retry: { maxAttempts: 50, initialDelayMs: 20, maxDelayMs: 40 } });
+    const other = open();
+    const input = baseWrite({ requestId: 'same', objectId: 'file:/same', objectType: 'file', contentStruct: { v: 1 } });
+
+    const pending = retrying.putVersion(input);
+    let committed: Awaited<ReturnType<SqliteStorage['putVersion']>> | undefined;
+    await new Promise<void>((resolve) =>
+      setTimeout(async () => {
+        lock.exec('COMMIT');
+        committed = await other.putVersion(input);
+        resolve();
+      }, 5),
+    );
+
+    const result = await pending;
+    expect(committed).toMatchObject({ ok: true, idempotentReplay: false });
+    expect(result).toEqual({ ...committed, idempotentReplay: true });
+    expect(await other.getHistory('file:/same')).toHaveLength(1);
+  });
+
+  it('keeps version order and idempotency across writer processes sharing one file', async () => {
+    open({ journalMode: 'wal' });
+    const writers = 3;
+    const count = 25;
+    const startAt = String(Date.now() + 4000);
+
+    const outcomes = await Promise.all(
+      Array.from({ length: writers }, (_, index) =>
+        runWriterProcess([harness.dbPath, `writer-${index}`, String(count), startAt]),
+      ),
+    );
+
+    expect(outcomes.map((outcome) => outcome.written)).toEqual(Array(writers).fill(count));
+    expect(new Set(outcomes.map((outcome) => outcome.once.versionId)).size).toBe(1);
+    expect(outcomes.filter((outcome) => !outcome.once.idempotentReplay)).toHaveLength(1);
+
+    const history = await harness.storage.getHistory('file:/shared', 'asc');
+    expect(history.map((version) => version.versionNo)).toEqual(
+      Array.from({ length: writers * count }, (_, index) => index + 1),
+    );
+    expect(new Set(history.map((version) => version.writerId)).size).toBe(writers);
+    expect(await harness.storage.getHistory('file:/once')).toHaveLength(1);
+    expect((await harness.storage.verifyIntegrity()).ok).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import { parseStoreBundle } from '../../src/storage/store-bundle.js';
+import { applyTextDelta, encodeTextDelta } from '../../src/storage/text-delta.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+function sourceFile(revision: number): string {
+  const lines = Array.from({ length: 60 }, (_, i) => `export const line${i} = ${i};\n`);
+  lines[revision % 60] = `export const line${revision % 60} = 'revision ${revision}';\n`;
+  return lines.join('');
+}
+
+describe('DB content delta encoding (file content keyframes)', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  function reopen(options: ConstructorParameters<typeof SqliteStorage>[0] = {}): SqliteStorage {
+    harness.storage.close();
+    harness.storage = new SqliteStorage({ path: harness.dbPath, ...options });
+    return harness.storage;
+  }
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+    reopen({ deltaEncoding: { keyframeInterval: 4 } });
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function writeRevisions(objectId: string, count: number) {
+    const records = [];
+    for (let revision = 1; revision <= count; revision++) {
+      const result = await harness.storage.putVersion(
+        baseWrite({
+          requestId: `${objectId}:${revision}`,
+          objectId,
+          objectType: 'file',
+          path: '/src/a.ts',
+          contentStruct: { content: sourceFile(revision), language: 'ts' },
+        }),
+      );
+      if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+      records.push(result.record);
+    }
+    return records;
+  }
+
+  function storedRows(objectId: string) {
+    return inspect
+      .prepare(
+        'SELECT version_no, content_struct_json, content_delta_base, content_delta_json FROM object_versions WHERE object_id = ? ORDER BY version_no',
+      )
+      .all(objectId) as Array<{
+      version_no: number;
+      content_struct_json: string;
+      content_delta_base: string | null;
+      content_delta_json: string | null;
+    }>;
+  }
+
+  it('round-trips text deltas byte for byte', () => {
+    const cases: Array<[string, string]> = [
+      ['', ''],
+      ['a\nb\nc\n', 'a\nB\nc\n'],
+      ['a\nb\nc', 'a\nb\nc\n'],
+      ['one\ntwo\n', ''],
+      ['', 'fresh\ntext'],
+      ['x\ny\nx\ny\n', 'y\nx\ny\nx\n'],
+    ];
+    for (const [base, target] of cases) {
+      const delta = encodeTextDelta(base, target);
+      expect(delta).not.toBeNull();
+      expect(applyTextDelta(base, delta!)).toBe(target);
+    }
+    expect(encodeTextDelta('a\nb\n', 'c\nd\n', 1)).toBeNull();
+    expect(() => applyTextDelta('a\n', [2])).toThrow('invalid_text_delta:op:2');
+  });
+
+  it('stores keyframes every keyframeInterval versions and deltas against the latest keyframe', async () => {
+    const records = await writeRevisions('file:/a', 9);
+    const rows = storedRows('file:/a');
+    const byNo = new Map(records.map((record) => [record.versionNo, record.versionId]));
+
+    expect(rows.map((row) => row.content_delta_base)).toEqual([
+      null,
+      byNo.get(1),
+      byNo.get(1),
+      byNo.get(1),
+      null,
+      byNo.get(5),
+      byNo.get(5),
+      byNo.get(5),
+      null,
+    ]);
+    for (const row of rows.filter((candidate) => candidate.content_delta_base !== null)) {
+      expect(JSON.parse(row.content_struct_json)).toEqual({ language: 'ts' });
+      expect(row.content_delta_json!.length).toBeLessThan(sourceFile(row.version_no).length / 4);
+    }
+  });
+
+  it('returns the full canonical content and unchanged hashes on every read path', async () => {
+    const records = await writeRevisions('file:/a', 6);
+
+    const plain = reopen();
+    const reference = await createStorageHarness();
+    try {
+      const expected = [];
+      for (let revision = 1; revision <= 6; revision++) {
+        const result = await reference.storage.putVersion(
+          baseWrite({
+            requestId: `file:/a:${revision}`,
+            objectId: 'file:/a',
+            objectType: 'file',
+            path: '/src/a.ts',
+            contentStruct: { content: sourceFile(revision), language: 'ts' },
+          }),
+        );
+        if (!result.ok) throw new Error('unexpected put failure');
+        expected.push(result.record);
+      }
+
+      const pick = (record: (typeof records)[number]) => ({
+        contentStructJson: record.contentStructJson,
+        contentStructHash: record.contentStructHash,
+        objectHash: record.objectHash,
+      });
+      expect(records.map(pick)).toEqual(expected.map(pick));
+
+      expect((await plain.getHistory('file:/a', 'asc')).map(pick)).toEqual(expected.map(pick));
+      expect(pick((await plain.getLatest('file:/a'))!)).toEqual(pick(expected[5]));
+      expect(pick((await plain.getAsOf('file:/a', { txSeq: records[2].txSeq }))!)).toEqual(pick(expected[2]));
+      expect((await plain.readChanges()).changes.map((change) => pick(change.record))).toEqual(expected.map(pick));
+    } finally {
+      await cleanupStorageHarness(reference);
+    }
+
+    expect(await plain.verifyIntegrity()).toMatchObject({ ok: true, checkedVersions: 6, issues: [] });
+  });
+
+  it('keeps FTS and export bundles on the full content', async () => {
+    await writeRevisions('file:/a', 3);
+
+    const hits = await harness.storage.searchContent('"revision 2"', { headOnly: false });
+    expect(hits.map((hit) => hit.versionNo)).toEqual([2]);
+
+    const bundle = parseStoreBundle(await harness.storage.exportBundle({ objectIds: ['file:/a'] }));
+    expect(bundle.versions.map((version) => JSON.parse(version.content_struct_json).content)).toEqual([
+      sourceFile(1),
+      sourceFile(2),
+      sourceFile(3),
+    ]);
+    expect(bundle.versions.every((version) => !('content_delta_json' in version))).toBe(true);
+  });
+
+  it('stores full rows for non-file objects, non-string content, and oversized deltas', async () => {
+    const writes: Array<[string, string, 'file' | 'toolcall', string | null]> = [
+      ['t1', 'toolcall:x', 'toolcall', sourceFile(1)],
+      ['t2', 'toolcall:x', 'toolcall', sourceFile(2)],
+      ['n1', 'file:/n', 'file', null],
+      ['n2', 'file:/n', 'file', 'a\n'],
+      ['r1', 'file:/r', 'file', 'a\nb\n'],
+      ['r2', 'file:/r', 'file', 'c\nd\n'],
+    ];
+    for (const [requestId, objectId, objectType, content] of writes) {
+      await harness.storage.putVersion(baseWrite({ requestId, objectId, objectType, contentStruct: { content } }));
+    }
+
+    for (const objectId of ['toolcall:x', 'file:/n', 'file:/r']) {
+      expect(storedRows(objectId).every((row) => row.content_delta_base === null)).toBe(true);
+    }
+  });
+
+  it('never prunes a keyframe that a remaining delta depends on', async () => {
+    const records = await writeRevisions('file:/a', 4);
+
+    const report = await harness.storage.gcExecute({ keepVersionsPerObject: 2 });
+    expect(report.prunedVersionIds).toEqual([records[1].versionId]);
+    expect((await harness.storage.getHistory('file:/a', 'asc')).map((record) => record.contentStructJson)).toEqual(
+      [records[0], records[2], records[3]].map((record) => record.contentStructJson),
+    );
+    expect(await harness.storage.verifyIntegrity()).toMatchObject({ ok: true });
+  });
+
+  it('rejects an invalid keyframeInterval', () => {
+    expect(() => new SqliteStorage({ deltaEncoding: { keyframeInterval: 0 } })).toThrow(
+      'invalid_delta_encoding:keyframeInterval:0',
+    );
+  });
+});
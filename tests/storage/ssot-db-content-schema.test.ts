@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { validateContentStruct } from '../../src/storage/content-schema.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB content schemas [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  it('accepts payloads matching their type schema, extras included where allowed', async () => {
+    const file = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'ok-file',
+        objectId: 'file:/ok',
+        objectType: 'file',
+        contentStruct: { content: null, path: '/ok', file_type: 'ts', char_count: 0, extra: { any: true } },
+      }),
+    );
+    const prompt = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'ok-prompt',
+        objectId: 'system_prompt:ok',
+        objectType: 'system_prompt',
+        contentStruct: { content: '' },
+      }),
+    );
+
+    expect(file.ok).toBe(true);
+    expect(prompt.ok).toBe(true);
+  });
+
+  it('rejects a mistyped payload with JSON-pointer errors before writing anything', async () => {
+    const result = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'bad-file',
+        objectId: 'file:/bad',
+        objectType: 'file',
+        contentStruct: { content: 42, char_count: -1, file_type: 'ts' },
+      }),
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      validation: true,
+      reason: 'invalid_content_struct',
+      errors: [
+        { path: '/content', message: 'expected:string|null' },
+        { path: '/char_count', message: 'minimum:0' },
+      ],
+    });
+    expect(await harness.storage.getLatest('file:/bad')).toBeNull();
+    expect((await harness.storage.readChanges()).changes).toEqual([]);
+  });
+
+  it('reports missing required fields and unexpected extras', async () => {
+    const result = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'bad-prompt',
+        objectId: 'system_prompt:bad',
+        objectType: 'system_prompt',
+        contentStruct: { 'a/b': 1 },
+      }),
+    );
+
+    expect(result).toMatchObject({
+      reason: 'invalid_content_struct',
+      errors: [
+        { path: '/content', message: 'required' },
+        { path: '/a~1b', message: 'unexpected_field' },
+      ],
+    });
+  });
+
+  it('aborts a batch at the first input whose payload breaks its schema', async () => {
+    const result = await harness.storage.putVersions([
+      baseWrite({ requestId: 'b1', objectId: 'chat:b', objectType: 'chat', contentStruct: { turn_count: 1 } }),
+      baseWrite({
+        requestId: 'b2',
+        objectId: 'toolcall:b',
+        objectType: 'toolcall',
+        contentStruct: { chat_ref: 'chat:b' },
+      }),
+    ]);
+
+    expect(result).toEqual({
+      ok: false,
+      failedIndex: 1,
+      results: [
+        { ok: false, aborted: true },
+        {
+          ok: false,
+          validation: true,
+          reason: 'invalid_content_struct',
+          errors: [{ path: '/chat_ref', message: 'expected:object' }],
+        },
+      ],
+    });
+    expect(await harness.storage.getLatest('chat:b')).toBeNull();
+  });
+});
+
+describe('DB content schema registry', () => {
+  it('requires an object payload and leaves session payloads to the ref codec', () => {
+    expect(validateContentStruct('chat', ['x'])).toEqual([{ path: '', message: 'expected:object' }]);
+    expect(validateContentStruct('toolcall', { status: 1.5 })).toEqual([
+      { path: '/status', message: 'expected:string' },
+    ]);
+    expect(validateContentStruct('chat', { turn_count: 1.5 })).toEqual([
+      { path: '/turn_count', message: 'expected:integer' },
+    ]);
+    expect(validateContentStruct('session', null)).toEqual([]);
+  });
+
+  it('accepts the null file path earlier runtimes stored, so their history re-imports', () => {
+    expect(validateContentStruct('file', { content: null, path: null, file_type: 'md', char_count: 0 })).toEqual([]);
+    expect(validateContentStruct('file', { path: 1 })).toEqual([{ path: '/path', message: 'expected:string|null' }]);
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+describe('DB content search (FTS5 over version content)', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('indexes string content inside the putVersion transaction, keyed by tx_seq', async () => {
+    const record = await put({
+      requestId: 'fts-a',
+      objectId: 'file:/a.ts',
+      objectType: 'file',
+      contentStruct: { content: 'reconciliation job timed out' },
+    });
+    await put({ requestId: 'fts-b', objectId: 'chat:c', objectType: 'chat', contentStruct: { content: null } });
+
+    const rows = inspect.prepare('SELECT rowid, content FROM version_content_fts').all() as Array<{
+      rowid: number;
+      content: string;
+    }>;
+    expect(rows).toEqual([{ rowid: record.txSeq, content: 'reconciliation job timed out' }]);
+  });
+
+  it('returns ranked HEAD hits with snippets by default and older versions on request', async () => {
+    const v1 = await put({
+      requestId: 'h1',
+      objectId: 'file:/log.txt',
+      objectType: 'file',
+      path: '/log.txt',
+      contentStruct: { content: 'shard 7 reported checksum mismatch' },
+    });
+    const v2 = await put({
+      requestId: 'h2',
+      objectId: 'file:/log.txt',
+      objectType: 'file',
+      path: '/log.txt',
+      contentStruct: { content: 'shard 7 healthy; checksum ok' },
+    });
+
+    const head = await harness.storage.searchContent('mismatch');
+    expect(head).toEqual([]);
+
+    const all = await harness.storage.searchContent('mismatch', { headOnly: false });
+    expect(all).toHaveLength(1);
+    expect(all[0]).toMatchObject({
+      versionId: v1.versionId,
+      objectId: 'file:/log.txt',
+      objectType: 'file',
+      versionNo: 1,
+      path: '/log.txt',
+      isHead: false,
+    });
+    expect(all[0].snippet).toContain('[mismatch]');
+
+    const checksum = await harness.storage.searchContent('checksum');
+    expect(checksum.map((hit) => [hit.versionId, hit.isHead])).toEqual([[v2.versionId, true]]);
+  });
+
+  it('filters by objectType and sessionId and honours limit', async () => {
+    await put({
+      requestId: 'f-file',
+      objectId: 'file:/x',
+      objectType: 'file',
+      contentStruct: { content: 'deploy failed on canary' },
+    });
+    await put({
+      requestId: 'f-tool-1',
+      objectId: 'toolcall:1',
+      objectType: 'toolcall',
+      sessionId: 's-1',
+      contentStruct: { content: 'deploy failed: exit 1' },
+    });
+    await put({
+      requestId: 'f-tool-2',
+      objectId: 'toolcall:2',
+      objectType: 'toolcall',
+      sessionId: 's-2',
+      contentStruct: { content: 'deploy failed again' },
+    });
+
+    const toolcalls = await harness.storage.searchContent('deploy', { objectType: 'toolcall' });
+    expect(toolcalls.map((hit) => hit.objectId).sort()).toEqual(['toolcall:1', 'toolcall:2']);
+
+    const session = await harness.storage.searchContent('deploy', { sessionId: 's-2' });
+    expect(session.map((hit) => hit.objectId)).toEqual(['toolcall:2']);
+
+    expect(await harness.storage.searchContent('deploy', { limit: 1 })).toHaveLength(1);
+    await expect(harness.storage.searchContent('deploy', { limit: 0 })).rejects.toThrow('invalid_limit:0');
+  });
+
+  it('filters on whether the object HEAD is a tombstone', async () => {
+    const file = (requestId: string, objectId: string, content: string | null, deleted?: boolean) =>
+      put({ requestId, objectId, objectType: 'file', deleted, contentStruct: { content } });
+    await file('d1', 'file:/gone', 'quarterly plan');
+    await file('d2', 'file:/gone', null, true);
+    await file('d3', 'file:/here', 'quarterly plan v2');
+
+    const ids = async (options: Parameters<typeof harness.storage.searchContent>[1]) =>
+      (await harness.storage.searchContent('quarterly', options)).map((hit) => hit.objectId).sort();
+    expect(await ids({})).toEqual(['file:/here']);
+    expect(await ids({ headOnly: false })).toEqual(['file:/gone', 'file:/here']);
+    expect(await ids({ headOnly: false, deleted: true })).toEqual(['file:/gone']);
+    expect(await ids({ headOnly: false, deleted: false })).toEqual(['file:/here']);
+  });
+
+  it('surfaces malformed FTS5 queries as invalid_search_query', async () => {
+    await expect(harness.storage.searchContent('"unterminated')).rejects.toThrow('invalid_search_query:');
+    await expect(harness.storage.searchContent('AND')).rejects.toThrow('invalid_search_query:AND');
+    await expect(harness.storage.searchContent('nope:word')).rejects.toThrow('invalid_search_query:nope:word');
+  });
+
+  it('rethrows storage errors of a search unchanged', async () => {
+    inspect.exec('DROP TABLE version_content_fts');
+
+    await expect(harness.storage.searchContent('quarterly')).rejects.toThrow(/^no such table: version_content_fts/);
+  });
+
+  it('backfills versions that predate the FTS table on migrate', async () => {
+    await put({ requestId: 'bf', objectId: 'file:/old', objectType: 'file', contentStruct: { content: 'legacy row' } });
+    inspect.exec('DROP TABLE version_content_fts');
+    inspect.exec('PRAGMA user_version = 1');
+    harness.storage.close();
+
+    harness.storage = new SqliteStorage({ path: harness.dbPath });
+    const hits = await harness.storage.searchContent('legacy');
+    expect(hits.map((hit) => hit.objectId)).toEqual(['file:/old']);
+  });
+});
@@ -2,25 +2,24 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import type { DatabaseSync } from 'node:sqlite';
 import {
   baseWrite,
-  cleanupStorageHarness,
-  createStorageHarness,
-  openInspectDb,
+  cleanupBackendHarness,
+  createBackendHarness,
   stableStringify,
-  type StorageHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
 } from './test-helpers.js';
 
-describe('DB SSOT §2 core invariants', () => {
-  let harness: StorageHarness;
-  let inspect: DatabaseSync;
+describe.each(STORAGE_BACKENDS)('DB SSOT §2 core invariants [%s]', (backend) => {
+  let harness: BackendHarness;
+  let inspect: DatabaseSync | null;
 
   beforeEach(async () => {
-    harness = await createStorageHarness();
-    inspect = openInspectDb(harness.dbPath);
+    harness = await createBackendHarness(backend);
+    inspect = harness.inspect;
   });
 
   afterEach(async () => {
-    inspect.close();
-    await cleanupStorageHarness(harness);
+    await cleanupBackendHarness(harness);
   });
 
   it('§2.1 object identity: object_id is stable across versions', async () => {
@@ -66,8 +65,8 @@ describe('DB SSOT §2 core invariants', () => {
     if (!first.ok) return;
 
     const firstRowBefore = inspect
-      .prepare('SELECT * FROM object_versions WHERE version_id = ?')
-      .get(first.record.versionId) as Record<string, unknown>;
+      ?.prepare('SELECT * FROM object_versions WHERE version_id = ?')
+      .get(first.record.versionId) as Record<string, unknown> | undefined;
 
     await harness.storage.putVersion(
       baseWrite({
@@ -81,10 +80,13 @@ describe('DB SSOT §2 core invariants', () => {
     );
 
     const firstRowAfter = inspect
-      .prepare('SELECT * FROM object_versions WHERE version_id = ?')
-      .get(first.record.versionId) as Record<string, unknown>;
+      ?.prepare('SELECT * FROM object_versions WHERE version_id = ?')
+      .get(first.record.versionId) as Record<string, unknown> | undefined;
 
     expect(firstRowAfter).toEqual(firstRowBefore);
+
+    const history = await harness.storage.getHistory('file:/immutable.ts', 'asc');
+    expect(history[0]).toEqual(first.record);
   });
 
   it('§2.3 version_no is strictly increasing per object', async () => {
@@ -169,11 +171,13 @@ describe('DB SSOT §2 core invariants', () => {
     expect(second.ok).toBe(true);
     if (!second.ok) return;
 
-    const objectRow = inspect
-      .prepare('SELECT current_version_id FROM objects WHERE object_id = ?')
-      .get('file:/head.ts') as { current_version_id: string };
+    if (inspect) {
+      const objectRow = inspect
+        .prepare('SELECT current_version_id FROM objects WHERE object_id = ?')
+        .get('file:/head.ts') as { current_version_id: string };
 
-    expect(objectRow.current_version_id).toBe(second.record.versionId);
+      expect(objectRow.current_version_id).toBe(second.record.versionId);
+    }
 
     const latest = await harness.storage.getLatest('file:/head.ts');
     expect(latest?.versionId).toBe(second.record.versionId);
@@ -204,23 +208,27 @@ describe('DB SSOT §2 core invariants', () => {
     expect(ok.ok).toBe(true);
     if (!ok.ok) return;
 
-    const row = inspect
-      .prepare('SELECT path, session_id, tool_name, status, char_count FROM object_versions WHERE version_id = ?')
-      .get(ok.record.versionId) as {
-      path: string;
-      session_id: string;
-      tool_name: string;
-      status: string;
-      char_count: number;
-    };
+    expect(ok.record).toMatchObject({ path: '/x.sh', sessionId: 'sess-1', toolName: 'bash', status: 'ok', charCount: 9 });
 
-    expect(row).toEqual({
-      path: '/x.sh',
-      session_id: 'sess-1',
-      tool_name: 'bash',
-      status: 'ok',
-      char_count: 9,
-    });
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT path, session_id, tool_name, status, char_count FROM object_versions WHERE version_id = ?')
+        .get(ok.record.versionId) as {
+        path: string;
+        session_id: string;
+        tool_name: string;
+        status: string;
+        char_count: number;
+      };
+
+      expect(row).toEqual({
+        path: '/x.sh',
+        session_id: 'sess-1',
+        tool_name: 'bash',
+        status: 'ok',
+        char_count: 9,
+      });
+    }
 
     await expect(
       harness.storage.putVersion(
@@ -256,11 +264,15 @@ describe('DB SSOT §2 core invariants', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const row = inspect
-      .prepare('SELECT content_struct_json FROM object_versions WHERE version_id = ?')
-      .get(result.record.versionId) as { content_struct_json: string };
+    expect(result.record.contentStructJson).toBe(stableStringify(payload));
+
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT content_struct_json FROM object_versions WHERE version_id = ?')
+        .get(result.record.versionId) as { content_struct_json: string };
 
-    expect(row.content_struct_json).toBe(stableStringify(payload));
+      expect(row.content_struct_json).toBe(stableStringify(payload));
+    }
   });
 
   it('§2.8 metadata_json is persisted auxiliary payload', async () => {
@@ -279,11 +291,15 @@ describe('DB SSOT §2 core invariants', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const row = inspect
-      .prepare('SELECT metadata_json FROM object_versions WHERE version_id = ?')
-      .get(result.record.versionId) as { metadata_json: string };
+    expect(result.record.metadataJson).toBe(stableStringify(metadata));
+
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT metadata_json FROM object_versions WHERE version_id = ?')
+        .get(result.record.versionId) as { metadata_json: string };
 
-    expect(row.metadata_json).toBe(stableStringify(metadata));
+      expect(row.metadata_json).toBe(stableStringify(metadata));
+    }
   });
 
   it('§2.9 references are derived only from explicit structured refs in content_struct_json', async () => {
@@ -336,4 +352,59 @@ describe('DB SSOT §2 core invariants', () => {
     expect(refs[0].targetObjectId).toBe('chat:missing');
     expect(refs[0].resolved).toBe(false);
   });
+
+  it('§2.10 unresolved refs flip to resolved when their target object is first written', async () => {
+    const session = (requestId: string, chatId: string) =>
+      baseWrite({
+        requestId,
+        objectId: 'session:late',
+        objectType: 'session',
+        sessionId: 'late',
+        contentStruct: {
+          chat_ref: { target_object_id: chatId, mode: 'dynamic', ref_kind: 'chat' },
+          active_set: [],
+          inactive_set: [],
+          pinned_set: [],
+        },
+      });
+
+    const first = await harness.storage.putVersion(session('late-1', 'chat:late'));
+    const second = await harness.storage.putVersion(session('late-2', 'chat:late'));
+    const other = await harness.storage.putVersion(session('late-3', 'chat:other'));
+    if (!first.ok || !second.ok || !other.ok) throw new Error('unexpected put failure');
+    expect(await harness.storage.queryReferences({ resolved: false })).toHaveLength(3);
+
+    const rejected = await harness.storage.putVersions([
+      baseWrite({ requestId: 'late-chat-0', objectId: 'chat:late', objectType: 'chat', contentStruct: {} }),
+      baseWrite({
+        requestId: 'late-stale',
+        objectId: 'session:late',
+        objectType: 'session',
+        sessionId: 'late',
+        contentStruct: {},
+        expectedCurrentVersionId: 'stale',
+      }),
+    ]);
+    expect(rejected.ok).toBe(false);
+    expect(await harness.storage.queryReferences({ resolved: false })).toHaveLength(3);
+
+    await harness.storage.putVersion(
+      baseWrite({ requestId: 'late-chat-1', objectId: 'chat:late', objectType: 'chat', contentStruct: {} }),
+    );
+
+    const pending = await harness.storage.queryReferences({ resolved: false });
+    expect(pending.map((ref) => [ref.fromVersionId, ref.targetObjectId])).toEqual([
+      [other.record.versionId, 'chat:other'],
+    ]);
+    const flipped = await harness.storage.queryReferences({ targetObjectId: 'chat:late' });
+    expect(flipped.map((ref) => ref.resolved)).toEqual([true, true]);
+    expect(await harness.storage.getLatest('session:late')).toEqual(other.record);
+
+    if (inspect) {
+      const hashes = inspect
+        .prepare('SELECT refs_hash FROM object_versions WHERE object_id = ? ORDER BY version_no')
+        .all('session:late') as Array<{ refs_hash: string }>;
+      expect(hashes.map((row) => row.refs_hash)).toEqual([first, second, other].map((r) => r.record.refsHash));
+    }
+  });
 });
@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import type { SessionSnapshot } from '../../src/storage/storage-port.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  cleanupStorageHarness,
+  createBackendHarness,
+  createStorageHarness,
+  openInspectDb,
+  sha256,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+  type StorageHarness,
+} from './test-helpers.js';
+
+const fieldHash = (value: unknown) => sha256(JSON.stringify(value));
+
+const fieldPin = (target: string, anchors: Record<string, string>) => ({
+  target_object_id: target,
+  mode: 'pinned',
+  ref_kind: 'pinned',
+  target_field_hashes: anchors,
+});
+
+const pinnedTargets = (snapshot: SessionSnapshot | null) =>
+  (snapshot?.references ?? [])
+    .filter(({ reference }) => reference.fromPath.startsWith('/pinned_set/'))
+    .sort((left, right) => left.reference.fromPath.localeCompare(right.reference.fromPath));
+
+function sessionContent(pinnedSet: unknown[]) {
+  return {
+    chat_ref: { target_object_id: 'chat:fh', mode: 'dynamic', ref_kind: 'chat' },
+    active_set: [],
+    inactive_set: [],
+    pinned_set: pinnedSet,
+  };
+}
+
+describe.each(STORAGE_BACKENDS)('DB field-hash pinned refs [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  const putFile = (requestId: string, contentStruct: Record<string, unknown>) =>
+    put({ requestId, objectId: 'file:/fh', objectType: 'file', contentStruct });
+
+  const putSession = (requestId: string, pinnedSet: unknown[]) =>
+    put({
+      requestId,
+      objectId: 'session:fh',
+      objectType: 'session',
+      sessionId: 'fh',
+      contentStruct: sessionContent(pinnedSet),
+    });
+
+  it('stores one field hash per top-level payload field on every version', async () => {
+    const file = await putFile('f1', { content: 'a', path: '/fh', extra: { n: [1, 2] } });
+
+    expect(JSON.parse(file.fieldHashesJson)).toEqual({
+      'field_hash:content': fieldHash('a'),
+      'field_hash:extra': fieldHash({ n: [1, 2] }),
+      'field_hash:path': fieldHash('/fh'),
+    });
+    expect(Object.keys(JSON.parse(file.fieldHashesJson))).toEqual([
+      'field_hash:content',
+      'field_hash:extra',
+      'field_hash:path',
+    ]);
+    expect(await harness.storage.getVersion(file.versionId)).toEqual(file);
+    expect((await putFile('f2', {})).fieldHashesJson).toBe('{}');
+  });
+
+  it('resolves a field-hash pin to the newest matching version inside the as-of cut', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:fh', objectType: 'chat', contentStruct: {} });
+    const v1 = await putFile('f1', { content: 'a', path: '/one' });
+    const v2 = await putFile('f2', { content: 'b', path: '/one' });
+    const session = await putSession('s1', [
+      fieldPin('file:/fh', { 'field_hash:content': fieldHash('a') }),
+      fieldPin('file:/fh', { 'field_hash:content': fieldHash('c') }),
+    ]);
+    const v3 = await putFile('f3', { content: 'a', path: '/two' });
+
+    const before = await harness.storage.getSessionAsOf('session:fh', { txSeq: session.txSeq });
+    expect(pinnedTargets(before).map((ref) => ref.target?.versionId ?? null)).toEqual([v1.versionId, null]);
+
+    const now = await harness.storage.getSessionAsOf('session:fh', { txSeq: v3.txSeq });
+    expect(pinnedTargets(now).map((ref) => ref.target?.versionId ?? null)).toEqual([v3.versionId, null]);
+    expect(pinnedTargets(now)[0].reference.targetFieldHashes).toEqual({ 'field_hash:content': fieldHash('a') });
+    expect(v2.versionId).not.toBe(v3.versionId);
+
+    const graph = await harness.storage.traverseReferences({
+      from: { objectId: 'session:fh' },
+      direction: 'out',
+      mode: 'pinned',
+    });
+    expect(graph?.edges.map((edge) => edge.resolvedVersionId).sort()).toEqual([v3.versionId, null].sort());
+  });
+
+  it('requires every pinned field to match', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:fh', objectType: 'chat', contentStruct: {} });
+    const v1 = await putFile('f1', { content: 'a', path: '/one' });
+    const v2 = await putFile('f2', { content: 'a', path: '/two' });
+    await putSession('s1', [
+      fieldPin('file:/fh', { 'field_hash:content': fieldHash('a'), 'field_hash:path': fieldHash('/one') }),
+    ]);
+
+    const snapshot = await harness.storage.getSessionAsOf('session:fh', { txSeq: Number.MAX_SAFE_INTEGER });
+    expect(pinnedTargets(snapshot)[0].target?.versionId).toBe(v1.versionId);
+    expect(v2.versionId).not.toBe(v1.versionId);
+  });
+
+  it('looks up the newest version matching field anchors, inside an as-of cut, over a long history', async () => {
+    const writes = Array.from({ length: 300 }, (_, index) =>
+      baseWrite({
+        requestId: `long-${index}`,
+        objectId: 'file:/long',
+        objectType: 'file',
+        contentStruct: { content: index % 100 === 7 ? 'needle' : `hay ${index}`, path: '/long' },
+      }),
+    );
+    const batch = await harness.storage.putVersions(writes);
+    if (!batch.ok) throw new Error('unexpected batch failure');
+    const records = batch.results.map((result) => result.record);
+    const needle = { 'field_hash:content': fieldHash('needle') };
+
+    expect((await harness.storage.getVersionByFieldHashes('file:/long', needle))?.versionId).toBe(
+      records[207].versionId,
+    );
+    expect(
+      (await harness.storage.getVersionByFieldHashes('file:/long', needle, { txSeq: records[150].txSeq }))?.versionId,
+    ).toBe(records[107].versionId);
+    expect(
+      await harness.storage.getVersionByFieldHashes('file:/long', needle, { txSeq: records[6].txSeq }),
+    ).toBeNull();
+    expect(
+      await harness.storage.getVersionByFieldHashes('file:/long', { ...needle, 'field_hash:path': fieldHash('/x') }),
+    ).toBeNull();
+    expect(await harness.storage.getVersionByFieldHashes('file:/missing', needle)).toBeNull();
+    await expect(harness.storage.getVersionByFieldHashes('file:/long', {})).rejects.toThrow(
+      'invalid_field_hash_anchor:fieldHashes',
+    );
+    await expect(harness.storage.getVersionByFieldHashes('file:/long', { 'field_hash:content': 'x' })).rejects.toThrow(
+      'invalid_field_hash:fieldHashes.field_hash:content',
+    );
+  });
+
+  it('covers field anchors in refs_hash and rejects malformed anchors without writing', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:fh', objectType: 'chat', contentStruct: {} });
+    const a = await putSession('s1', [fieldPin('file:/fh', { 'field_hash:content': fieldHash('a') })]);
+    const b = await putSession('s2', [fieldPin('file:/fh', { 'field_hash:content': fieldHash('b') })]);
+    expect(a.refsHash).not.toBe(b.refsHash);
+
+    const putBad = (requestId: string, pin: unknown) =>
+      harness.storage.putVersion(
+        baseWrite({
+          requestId,
+          objectId: 'session:bad',
+          objectType: 'session',
+          sessionId: 'bad',
+          contentStruct: sessionContent([pin]),
+        }),
+      );
+    const anchored = fieldPin('file:/fh', { 'field_hash:content': fieldHash('a') });
+
+    await expect(putBad('bad-empty', fieldPin('file:/fh', {}))).rejects.toThrow(
+      'invalid_field_hash_anchor:/pinned_set/0.target_field_hashes',
+    );
+    await expect(putBad('bad-key', fieldPin('file:/fh', { content: fieldHash('a') }))).rejects.toThrow(
+      'invalid_field_hash_anchor:/pinned_set/0.target_field_hashes.content',
+    );
+    await expect(putBad('bad-hash', fieldPin('file:/fh', { 'field_hash:content': 'ABC' }))).rejects.toThrow(
+      'invalid_field_hash:/pinned_set/0.target_field_hashes.field_hash:content',
+    );
+    await expect(putBad('bad-mixed', { ...anchored, target_version_id: 'v' })).rejects.toThrow(
+      'Invalid field-hash Ref',
+    );
+    await expect(putBad('bad-dynamic', { ...anchored, mode: 'dynamic' })).rejects.toThrow('Invalid field-hash Ref');
+    await expect(
+      putBad('bad-none', { target_object_id: 'file:/fh', mode: 'pinned', ref_kind: 'pinned' }),
+    ).rejects.toThrow('Invalid pinned Ref');
+    expect(await harness.storage.getLatest('session:bad')).toBeNull();
+  });
+});
+
+describe('DB field-hash anchors in SQLite', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('stores field anchors on the reference row and keeps every matching version through GC', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:fh', objectType: 'chat', contentStruct: {} });
+    const v1 = await put({ requestId: 'f1', objectId: 'file:/fh', objectType: 'file', contentStruct: { content: 'a' } });
+    const v2 = await put({ requestId: 'f2', objectId: 'file:/fh', objectType: 'file', contentStruct: { content: 'b' } });
+    const session = await put({
+      requestId: 's1',
+      objectId: 'session:fh',
+      objectType: 'session',
+      sessionId: 'fh',
+      contentStruct: sessionContent([fieldPin('file:/fh', { 'field_hash:content': fieldHash('a') })]),
+    });
+    await put({ requestId: 'f3', objectId: 'file:/fh', objectType: 'file', contentStruct: { content: 'c' } });
+
+    expect(
+      inspect
+        .prepare("SELECT target_field_hashes_json FROM doc_references WHERE from_path = '/pinned_set/0'")
+        .get(),
+    ).toEqual({ target_field_hashes_json: JSON.stringify({ 'field_hash:content': fieldHash('a') }) });
+
+    const report = await harness.storage.gcExecute({ objectTypes: ['file'] });
+    expect(report.prunedVersionIds).toEqual([v2.versionId]);
+    expect(await harness.storage.getVersion(v1.versionId)).not.toBeNull();
+    const snapshot = await harness.storage.getSessionAsOf('session:fh', { txSeq: session.txSeq });
+    expect(pinnedTargets(snapshot)[0].target).toEqual(v1);
+  });
+
+  it('rejects a reference row mixing field anchors with a version anchor', async () => {
+    const file = await put({ requestId: 'f1', objectId: 'file:/fh', objectType: 'file', contentStruct: {} });
+    const insert = (refId: string, mode: string, targetVersionId: string | null, anchors: string | null) =>
+      inspect
+        .prepare(
+          `INSERT INTO doc_references (
+            ref_id, from_version_id, from_path, target_object_id, target_version_id,
+            target_object_hash, target_field_hashes_json, ref_kind, mode, resolved
+          ) VALUES (?, ?, '/x', 'file:/fh', ?, NULL, ?, 'kind', ?, 1)`,
+        )
+        .run(refId, file.versionId, targetVersionId, anchors, mode);
+
+    expect(() => insert('r-mixed', 'pinned', file.versionId, '{}')).toThrow();
+    expect(() => insert('r-dynamic', 'dynamic', null, '{}')).toThrow();
+    expect(() => insert('r-bad-json', 'pinned', null, '{bad')).toThrow();
+    expect(() => insert('r-ok', 'pinned', null, '{}')).not.toThrow();
+  });
+
+  it('backfills field_hashes_json for versions written before step 10, delta rows included', async () => {
+    harness.storage.close();
+    harness.storage = new SqliteStorage({ path: harness.dbPath, deltaEncoding: { keyframeInterval: 4 } });
+    const written = [];
+    for (let i = 1; i <= 3; i++) {
+      written.push(
+        await put({
+          requestId: `d${i}`,
+          objectId: 'file:/delta',
+          objectType: 'file',
+          contentStruct: { content: `line 1\nline ${i}\n`, path: '/delta' },
+        }),
+      );
+    }
+    expect(
+      inspect.prepare('SELECT COUNT(*) AS n FROM object_versions WHERE content_delta_base IS NOT NULL').get(),
+    ).toEqual({ n: 2 });
+
+    // what a store written before field-hash anchors looked like
+    inspect.exec('ALTER TABLE object_versions DROP COLUMN field_hashes_json; PRAGMA user_version = 9;');
+    harness.storage.close();
+    harness.storage = new SqliteStorage({ path: harness.dbPath });
+
+    expect(harness.storage.migrationReport?.applied).toEqual([{ version: 10, name: 'field_hash_anchors' }]);
+    for (const version of written) {
+      expect((await harness.storage.getVersion(version.versionId))?.fieldHashesJson).toBe(version.fieldHashesJson);
+    }
+  });
+});
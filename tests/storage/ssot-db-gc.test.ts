@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  sha256,
+  type StorageHarness,
+} from './test-helpers.js';
+
+describe('DB garbage collection (gcDryRun / gcExecute)', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  async function writeFileVersions(objectId: string, count: number) {
+    const records = [];
+    for (let i = 1; i <= count; i++) {
+      records.push(
+        await put({
+          requestId: `${objectId}:${i}`,
+          objectId,
+          objectType: 'file',
+          contentStruct: { content: `body ${i}` },
+          fileBytes: new TextEncoder().encode(`bytes-${i}`),
+        }),
+      );
+    }
+    return records;
+  }
+
+  function sessionContent(pinnedSet: unknown[]) {
+    return {
+      chat_ref: { target_object_id: 'chat:gc', mode: 'dynamic', ref_kind: 'chat' },
+      active_set: [],
+      inactive_set: [],
+      pinned_set: pinnedSet,
+    };
+  }
+
+  it('dry-run reports non-HEAD unpinned versions without deleting anything', async () => {
+    const versions = await writeFileVersions('file:/gc', 3);
+
+    const report = await harness.storage.gcDryRun({});
+    expect(report.dryRun).toBe(true);
+    expect(report.prunedVersionIds).toEqual([versions[0].versionId, versions[1].versionId]);
+    expect(report.rows).toEqual({
+      objectVersions: 2,
+      docReferences: 0,
+      versionContentFts: 2,
+      blobs: 2,
+    });
+    expect(report.blobBytes).toBe('bytes-1'.length + 'bytes-2'.length);
+
+    expect(await harness.storage.getHistory('file:/gc')).toHaveLength(3);
+  });
+
+  it('execute prunes the dry-run set and keeps HEAD, pinned targets and their hashes verifiable', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:gc', objectType: 'chat', contentStruct: {} });
+    const byVersion = await writeFileVersions('file:/pin-version', 3);
+    const byHash = await writeFileVersions('file:/pin-hash', 3);
+
+    const session1 = await put({
+      requestId: 'session-1',
+      objectId: 'session:gc',
+      objectType: 'session',
+      sessionId: 'gc',
+      contentStruct: sessionContent([
+        { target_object_id: 'file:/pin-version', mode: 'pinned', target_version_id: byVersion[0].versionId, ref_kind: 'pin' },
+        { target_object_id: 'file:/pin-hash', mode: 'pinned', target_object_hash: byHash[1].objectHash, ref_kind: 'pin' },
+      ]),
+    });
+    const session2 = await put({
+      requestId: 'session-2',
+      objectId: 'session:gc',
+      objectType: 'session',
+      sessionId: 'gc',
+      contentStruct: sessionContent([]),
+    });
+
+    const dryRun = await harness.storage.gcDryRun({});
+    const executed = await harness.storage.gcExecute({});
+    expect(executed.dryRun).toBe(false);
+    expect(executed.prunedVersionIds).toEqual(dryRun.prunedVersionIds);
+    expect(executed.rows).toEqual(dryRun.rows);
+    expect(executed.blobBytes).toBe(dryRun.blobBytes);
+
+    // session1 is pruned, but its pins still protect their targets during this pass
+    expect(executed.prunedVersionIds).toEqual([byVersion[1].versionId, byHash[0].versionId, session1.versionId]);
+    expect(executed.rows.docReferences).toBe(3);
+
+    const remaining = inspect.prepare('SELECT * FROM object_versions ORDER BY tx_seq').all() as Array<{
+      version_id: string;
+      object_id: string;
+      version_no: number;
+      content_struct_hash: string;
+      file_bytes_hash: string | null;
+      metadata_hash: string;
+      refs_hash: string;
+      object_hash: string;
+    }>;
+    expect(remaining.map((row) => row.version_id)).toContain(session2.versionId);
+
+    for (const row of remaining) {
+      const preimage = [
+        'v1',
+        row.object_id,
+        String(row.version_no),
+        row.content_struct_hash,
+        row.file_bytes_hash ?? '',
+        row.metadata_hash,
+        row.refs_hash,
+      ].join('|');
+      expect(row.object_hash).toBe(sha256(preimage));
+    }
+
+    const dangling = inspect
+      .prepare(
+        'SELECT COUNT(*) AS n FROM doc_references r WHERE NOT EXISTS (SELECT 1 FROM object_versions v WHERE v.version_id = r.from_version_id)',
+      )
+      .get() as { n: number };
+    expect(dangling.n).toBe(0);
+
+    const next = await put({
+      requestId: 'file:/pin-version:4',
+      objectId: 'file:/pin-version',
+      objectType: 'file',
+      contentStruct: { content: 'body 4' },
+    });
+    expect(next.versionNo).toBe(4);
+  });
+
+  it('honours keepVersionsPerObject, retainSinceTxSeq, retainSinceTxTime and objectTypes', async () => {
+    const files = await writeFileVersions('file:/window', 4);
+    await put({ requestId: 'tool-1', objectId: 'toolcall:w', objectType: 'toolcall', contentStruct: { v: 1 } });
+    await put({ requestId: 'tool-2', objectId: 'toolcall:w', objectType: 'toolcall', contentStruct: { v: 2 } });
+
+    const keepTwo = await harness.storage.gcDryRun({ keepVersionsPerObject: 2, objectTypes: ['file'] });
+    expect(keepTwo.prunedVersionIds).toEqual([files[0].versionId, files[1].versionId]);
+
+    const bySeq = await harness.storage.gcDryRun({ retainSinceTxSeq: files[1].txSeq, objectTypes: ['file'] });
+    expect(bySeq.prunedVersionIds).toEqual([files[0].versionId]);
+
+    const byTime = await harness.storage.gcDryRun({ retainSinceTxTime: '1970-01-01T00:00:00.000Z' });
+    expect(byTime.prunedVersionIds).toEqual([]);
+
+    const toolcallsOnly = await harness.storage.gcDryRun({ objectTypes: ['toolcall'] });
+    expect(toolcallsOnly.prunedVersionIds).toHaveLength(1);
+
+    expect(await harness.storage.gcDryRun({ objectTypes: [] })).toMatchObject({ prunedVersionIds: [] });
+    await expect(harness.storage.gcDryRun({ keepVersionsPerObject: 0 })).rejects.toThrow(
+      'invalid_gc_policy:keepVersionsPerObject',
+    );
+    await expect(harness.storage.gcDryRun({ retainSinceTxSeq: -1 })).rejects.toThrow('invalid_gc_policy:retainSinceTxSeq');
+  });
+
+  it('releases a blob only when no kept version still shares its bytes', async () => {
+    const shared = new TextEncoder().encode('shared');
+    await put({ requestId: 's1', objectId: 'file:/s', objectType: 'file', contentStruct: { v: 1 }, fileBytes: shared });
+    await put({ requestId: 's2', objectId: 'file:/s', objectType: 'file', contentStruct: { v: 2 }, fileBytes: shared });
+    await put({
+      requestId: 's3',
+      objectId: 'file:/s',
+      objectType: 'file',
+      contentStruct: { v: 3 },
+      fileBytes: new TextEncoder().encode('fresh'),
+    });
+
+    const dryRun = await harness.storage.gcDryRun({});
+    expect(dryRun.prunedVersionIds).toHaveLength(2);
+    expect(dryRun.rows.blobs).toBe(1);
+    expect(dryRun.blobBytes).toBe('shared'.length);
+
+    await put({ requestId: 'o1', objectId: 'file:/other', objectType: 'file', contentStruct: {}, fileBytes: shared });
+    const executed = await harness.storage.gcExecute({});
+    expect(executed.rows.blobs).toBe(0);
+    expect(executed.blobBytes).toBe(0);
+
+    const blobs = inspect.prepare('SELECT byte_size, ref_count FROM blobs ORDER BY byte_size').all();
+    expect(blobs).toEqual([
+      { byte_size: 'fresh'.length, ref_count: 1 },
+      { byte_size: 'shared'.length, ref_count: 1 },
+    ]);
+  });
+
+  it('keeps the idempotency record of a pruned version, so its request id is refused instead of rewritten', async () => {
+    await writeFileVersions('file:/replay', 2);
+    await harness.storage.gcExecute({});
+
+    const again = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'file:/replay:1',
+        objectId: 'file:/replay',
+        objectType: 'file',
+        contentStruct: { content: 'body 1' },
+        fileBytes: new TextEncoder().encode('bytes-1'),
+      }),
+    );
+    expect(again).toEqual({ ok: false, conflict: true, reason: 'idempotency_pruned' });
+    expect(await harness.storage.getHistory('file:/replay')).toHaveLength(1);
+    expect(inspect.prepare('SELECT COUNT(*) AS n FROM write_idempotency').get()).toEqual({ n: 2 });
+
+    const head = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'file:/replay:2',
+        objectId: 'file:/replay',
+        objectType: 'file',
+        contentStruct: { content: 'body 2' },
+        fileBytes: new TextEncoder().encode('bytes-2'),
+      }),
+    );
+    expect(head).toMatchObject({ ok: true, idempotentReplay: true });
+  });
+
+  it('keeps versions that define a valid-time interval, so valid-time reads answer as before', async () => {
+    const write = (requestId: string, content: string, validFrom?: string) =>
+      put({ requestId, objectId: 'file:/valid', objectType: 'file', contentStruct: { content }, validFrom });
+    const from2020 = await write('valid-1', 'in 2020', '2020-01-01T00:00:00.000Z');
+    const unclaimed = await write('valid-2', 'no claim');
+    await write('valid-3', 'in 2021', '2021-01-01T00:00:00.000Z');
+    await write('valid-4', 'head');
+
+    const before = await harness.storage.getAsOfValidTime('file:/valid', '2020-06-01T00:00:00.000Z');
+    expect(before?.versionId).toBe(from2020.versionId);
+
+    const executed = await harness.storage.gcExecute({});
+    expect(executed.prunedVersionIds).toEqual([unclaimed.versionId]);
+    expect((await harness.storage.getAsOfValidTime('file:/valid', '2020-06-01T00:00:00.000Z'))?.versionId).toBe(
+      from2020.versionId,
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import type { DatabaseSync } from 'node:sqlite';
+import { MemoryStorage } from '../../src/storage/memory-storage.js';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import type { VersionHasher } from '../../src/storage/version-codec.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  cleanupStorageHarness,
+  createBackendHarness,
+  createStorageHarness,
+  openInspectDb,
+  sha256,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+  type StorageHarness,
+} from './test-helpers.js';
+
+const SHA512: VersionHasher = {
+  algo: 'sha512',
+  digest: (value) => createHash('sha512').update(value).digest('hex'),
+};
+
+const toolcall = (requestId: string, objectId: string, status: string) =>
+  baseWrite({
+    requestId,
+    objectId,
+    objectType: 'toolcall',
+    toolName: 'bash',
+    status,
+    charCount: 2,
+    contentStruct: { content: 'ok' },
+  });
+
+describe.each(STORAGE_BACKENDS)('DB hash schema 2 [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend, { hashing: { schemaVersion: 2 } });
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: ReturnType<typeof baseWrite>) {
+    const result = await harness.storage.putVersion(input);
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('records the schema on the version and covers the typed envelope in object_hash', async () => {
+    const record = await put(toolcall('t1', 'toolcall:h', 'done'));
+
+    expect(record).toMatchObject({ hashAlgo: 'sha256', hashSchemaVersion: 2 });
+    expect(record.objectHash).toBe(
+      sha256(
+        [
+          'v2',
+          'toolcall:h',
+          '1',
+          record.contentStructHash,
+          '',
+          record.metadataHash,
+          record.refsHash,
+          JSON.stringify([null, null, 'bash', 'done', 2]),
+        ].join('|'),
+      ),
+    );
+    expect(await harness.storage.getVersion(record.versionId)).toEqual(record);
+
+    if (harness.inspect) {
+      expect(
+        harness.inspect
+          .prepare('SELECT hash_algo, hash_schema_version FROM object_versions WHERE version_id = ?')
+          .get(record.versionId),
+      ).toEqual({ hash_algo: 'sha256', hash_schema_version: 2 });
+    }
+  });
+
+  it('replays a request written under schema 2', async () => {
+    const first = await put(toolcall('t1', 'toolcall:h', 'done'));
+
+    expect(await harness.storage.putVersion(toolcall('t1', 'toolcall:h', 'done'))).toEqual({
+      ok: true,
+      record: first,
+      idempotentReplay: true,
+    });
+  });
+});
+
+describe('DB hash schemas in SQLite', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function put(input: ReturnType<typeof baseWrite>) {
+    const result = await harness.storage.putVersion(input);
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  function reopen(options: ConstructorParameters<typeof SqliteStorage>[0] = {}) {
+    harness.storage.close();
+    harness.storage = new SqliteStorage({ ...options, path: harness.dbPath });
+  }
+
+  it('keeps versions of different schemas side by side and verifies each with its own', async () => {
+    const v1 = await put(toolcall('t1', 'toolcall:m', 'running'));
+    reopen({ hashing: { schemaVersion: 2 } });
+    const v2 = await put(toolcall('t2', 'toolcall:m', 'done'));
+    reopen({ hashing: { hasher: SHA512, schemaVersion: 2 } });
+    const v3 = await put(toolcall('t3', 'toolcall:m', 'failed'));
+
+    expect([v1, v2, v3].map((version) => [version.hashAlgo, version.hashSchemaVersion])).toEqual([
+      ['sha256', 1],
+      ['sha256', 2],
+      ['sha512', 2],
+    ]);
+    expect(v3.contentStructHash).toHaveLength(128);
+    expect(await harness.storage.getHistory('toolcall:m', 'asc')).toEqual([v1, v2, v3]);
+    expect(await harness.storage.verifyIntegrity()).toMatchObject({ ok: true, checkedVersions: 3 });
+    expect(await harness.storage.putVersion(toolcall('t3', 'toolcall:m', 'failed'))).toMatchObject({
+      idempotentReplay: true,
+    });
+  });
+
+  it('reports an envelope change only on versions whose schema covers it', async () => {
+    const v1 = await put(toolcall('t1', 'toolcall:e', 'running'));
+    reopen({ hashing: { schemaVersion: 2 } });
+    const v2 = await put(toolcall('t2', 'toolcall:e', 'done'));
+
+    inspect.exec("UPDATE object_versions SET status = 'tampered'");
+
+    const report = await harness.storage.verifyIntegrity();
+    expect(report.issues).toEqual([
+      {
+        versionId: v2.versionId,
+        objectId: 'toolcall:e',
+        check: 'object_hash',
+        stored: v2.objectHash,
+        computed: expect.any(String),
+      },
+    ]);
+    expect(v1.hashSchemaVersion).toBe(1);
+  });
+
+  it('reports a version whose algorithm or schema version is unknown as hash_schema', async () => {
+    reopen({ hashing: { hasher: SHA512 } });
+    const custom = await put(toolcall('t1', 'toolcall:u', 'done'));
+    const plain = await put(toolcall('t2', 'toolcall:v', 'done'));
+    inspect
+      .prepare("UPDATE object_versions SET hash_algo = 'sha256', hash_schema_version = 3 WHERE version_id = ?")
+      .run(plain.versionId);
+
+    reopen();
+    expect((await harness.storage.verifyIntegrity()).issues).toEqual([
+      { versionId: custom.versionId, objectId: 'toolcall:u', check: 'hash_schema', stored: 'sha512:1', computed: null },
+      { versionId: plain.versionId, objectId: 'toolcall:v', check: 'hash_schema', stored: 'sha256:3', computed: null },
+    ]);
+    expect(await harness.storage.putVersion(toolcall('t1', 'toolcall:u', 'done'))).toMatchObject({
+      reason: 'idempotency_mismatch',
+    });
+
+    reopen({ hashing: { hashers: [SHA512] } });
+    expect((await harness.storage.verifyIntegrity()).issues.map((issue) => issue.stored)).toEqual(['sha256:3']);
+  });
+
+  it('imports a mixed-schema bundle keeping each version schema and object_hash', async () => {
+    const v1 = await put(toolcall('t1', 'toolcall:b', 'running'));
+    reopen({ hashing: { hasher: SHA512, schemaVersion: 2 } });
+    const v2 = await put(toolcall('t2', 'toolcall:b', 'done'));
+    const bundle = await harness.storage.exportBundle();
+
+    const unaware = new SqliteStorage();
+    const aware = new SqliteStorage({ hashing: { hashers: [SHA512] } });
+    try {
+      expect(await unaware.importBundle(bundle)).toMatchObject({
+        ok: false,
+        reason: 'bundle_verification_failed',
+        issues: [{ versionId: v2.versionId, check: 'hash_schema', stored: 'sha512:2' }],
+      });
+
+      expect(await aware.importBundle(bundle)).toEqual({ ok: true, imported: 2, skipped: 0 });
+      const imported = await aware.getHistory('toolcall:b', 'asc');
+      expect(imported.map((version) => [version.objectHash, version.hashAlgo, version.hashSchemaVersion])).toEqual([
+        [v1.objectHash, 'sha256', 1],
+        [v2.objectHash, 'sha512', 2],
+      ]);
+      expect((await aware.verifyIntegrity()).ok).toBe(true);
+    } finally {
+      unaware.close();
+      aware.close();
+    }
+  });
+
+  it('rejects invalid hashing options', () => {
+    expect(() => new SqliteStorage({ hashing: { schemaVersion: 3 as 2 } })).toThrow('invalid_hashing:schemaVersion:3');
+    expect(() => new MemoryStorage({ hashing: { hashers: [{ ...SHA512, algo: 'sha256' }] } })).toThrow(
+      'invalid_hashing:duplicate_algo:sha256',
+    );
+    expect(() => new MemoryStorage({ hashing: { hasher: { algo: '', digest: SHA512.digest } } })).toThrow(
+      'invalid_hashing:hasher:',
+    );
+  });
+});
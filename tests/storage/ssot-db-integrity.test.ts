@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+describe('DB integrity verification (verifyIntegrity)', () => {
+  let harness: StorageHarness;
+  let inspect: DatabaseSync;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    inspect = openInspectDb(harness.dbPath);
+  });
+
+  afterEach(async () => {
+    inspect.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  async function seed() {
+    await put({ requestId: 'chat', objectId: 'chat:i', objectType: 'chat', contentStruct: {} });
+    const fileV1 = await put({
+      requestId: 'f1',
+      objectId: 'file:/i',
+      objectType: 'file',
+      contentStruct: { content: 'one' },
+      fileBytes: new TextEncoder().encode('one'),
+      metadata: { origin: 'test' },
+    });
+    const fileV2 = await put({
+      requestId: 'f2',
+      objectId: 'file:/i',
+      objectType: 'file',
+      contentStruct: { content: 'two' },
+      fileBytes: new TextEncoder().encode('two'),
+    });
+    const session = await put({
+      requestId: 's1',
+      objectId: 'session:i',
+      objectType: 'session',
+      sessionId: 'i',
+      contentStruct: {
+        chat_ref: { target_object_id: 'chat:i', mode: 'dynamic', ref_kind: 'chat' },
+        active_set: [{ target_object_id: 'file:/i', mode: 'dynamic', ref_kind: 'active' }],
+        inactive_set: [],
+        pinned_set: [],
+      },
+    });
+    return { fileV1, fileV2, session };
+  }
+
+  it('reports a clean store as ok', async () => {
+    await seed();
+    expect(await harness.storage.verifyIntegrity()).toEqual({
+      ok: true,
+      checkedObjects: 3,
+      checkedVersions: 4,
+      issues: [],
+    });
+  });
+
+  it('flags each tampered component hash on the affected version', async () => {
+    const { fileV1, fileV2, session } = await seed();
+
+    inspect
+      .prepare('UPDATE object_versions SET content_struct_json = ?, metadata_json = ? WHERE version_id = ?')
+      .run('{"content":"ONE"}', '{"origin":"edited"}', fileV1.versionId);
+    inspect
+      .prepare('UPDATE blobs SET bytes = ? WHERE hash = ?')
+      .run(new TextEncoder().encode('tw0'), fileV2.fileBytesHash);
+    inspect.prepare("DELETE FROM doc_references WHERE from_path = '/active_set/0'").run();
+
+    const report = await harness.storage.verifyIntegrity();
+    expect(report.ok).toBe(false);
+    expect(report.issues.map((issue) => [issue.versionId, issue.check])).toEqual([
+      [fileV1.versionId, 'content_struct_hash'],
+      [fileV1.versionId, 'metadata_hash'],
+      [fileV1.versionId, 'field_hashes'],
+      [fileV2.versionId, 'file_bytes_hash'],
+      [session.versionId, 'refs_hash'],
+    ]);
+    expect(report.issues[0]).toMatchObject({ objectId: 'file:/i', stored: fileV1.contentStructHash });
+  });
+
+  it('flags field_hashes_json that no longer matches the stored payload', async () => {
+    const { fileV1, fileV2 } = await seed();
+    const forged = JSON.stringify({ 'field_hash:content': fileV1.contentStructHash });
+
+    inspect
+      .prepare('UPDATE object_versions SET field_hashes_json = ? WHERE version_id = ?')
+      .run(forged, fileV2.versionId);
+
+    expect((await harness.storage.verifyIntegrity()).issues).toEqual([
+      {
+        versionId: fileV2.versionId,
+        objectId: 'file:/i',
+        check: 'field_hashes',
+        stored: forged,
+        computed: fileV2.fieldHashesJson,
+      },
+    ]);
+  });
+
+  it('flags a rewritten object_hash and a stale current_version_id', async () => {
+    const { fileV1, fileV2 } = await seed();
+
+    inspect.prepare('UPDATE object_versions SET object_hash = ? WHERE version_id = ?').run('forged', fileV2.versionId);
+    inspect.prepare('UPDATE objects SET current_version_id = ? WHERE object_id = ?').run(fileV1.versionId, 'file:/i');
+
+    const report = await harness.storage.verifyIntegrity();
+    expect(report.issues).toEqual([
+      { versionId: fileV2.versionId, objectId: 'file:/i', check: 'object_hash', stored: 'forged', computed: fileV2.objectHash },
+      {
+        versionId: null,
+        objectId: 'file:/i',
+        check: 'current_version_id',
+        stored: fileV1.versionId,
+        computed: fileV2.versionId,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB object listing (listObjects) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  async function seed() {
+    await put({ requestId: 'a1', objectId: 'file:/src/a.ts', objectType: 'file', path: '/src/a.ts', contentStruct: {} });
+    await put({ requestId: 'b1', objectId: 'file:/src/b.ts', objectType: 'file', path: '/src/b.ts', contentStruct: {} });
+    await put({ requestId: 'r1', objectId: 'file:/README', objectType: 'file', path: '/README', contentStruct: {} });
+    await put({ requestId: 'S1', objectId: 'file:/SRC/c.ts', objectType: 'file', path: '/SRC/c.ts', contentStruct: {} });
+    for (const [i, sessionId, toolName, status] of [
+      [1, 's-1', 'bash', 'ok'],
+      [2, 's-1', 'bash', 'fail'],
+      [3, 's-2', 'read', 'ok'],
+    ] as const) {
+      await put({
+        requestId: `t${i}`,
+        objectId: `toolcall:${i}`,
+        objectType: 'toolcall',
+        sessionId,
+        toolName,
+        status,
+        contentStruct: {},
+      });
+    }
+  }
+
+  const ids = (page: { objects: Array<{ objectId: string }> }) => page.objects.map((entry) => entry.objectId);
+
+  it('lists HEAD summaries ordered by objectId', async () => {
+    await seed();
+    const a2 = await put({
+      requestId: 'a2',
+      objectId: 'file:/src/a.ts',
+      objectType: 'file',
+      path: '/src/a.ts',
+      contentStruct: { v: 2 },
+      charCount: 7,
+    });
+
+    const page = await harness.storage.listObjects();
+    expect(ids(page)).toEqual([
+      'file:/README',
+      'file:/SRC/c.ts',
+      'file:/src/a.ts',
+      'file:/src/b.ts',
+      'toolcall:1',
+      'toolcall:2',
+      'toolcall:3',
+    ]);
+    expect(page.cursor).toBeNull();
+    expect(page.objects[2]).toEqual({
+      objectId: 'file:/src/a.ts',
+      objectType: 'file',
+      versionId: a2.versionId,
+      versionNo: 2,
+      txSeq: a2.txSeq,
+      txTime: a2.txTime,
+      path: '/src/a.ts',
+      sessionId: null,
+      toolName: null,
+      status: null,
+      charCount: 7,
+      objectHash: a2.objectHash,
+      deleted: false,
+      locked: false,
+      nickname: null,
+    });
+  });
+
+  it('filters on HEAD envelope fields', async () => {
+    await seed();
+
+    expect(ids(await harness.storage.listObjects({ objectType: 'toolcall' }))).toEqual([
+      'toolcall:1',
+      'toolcall:2',
+      'toolcall:3',
+    ]);
+    expect(ids(await harness.storage.listObjects({ sessionId: 's-1' }))).toEqual(['toolcall:1', 'toolcall:2']);
+    expect(ids(await harness.storage.listObjects({ toolName: 'bash', status: 'ok' }))).toEqual(['toolcall:1']);
+    expect(ids(await harness.storage.listObjects({ status: 'ok' }))).toEqual(['toolcall:1', 'toolcall:3']);
+    expect(ids(await harness.storage.listObjects({ pathPrefix: '/src/' }))).toEqual([
+      'file:/src/a.ts',
+      'file:/src/b.ts',
+    ]);
+    expect(ids(await harness.storage.listObjects({ pathPrefix: '/src/b' }))).toEqual(['file:/src/b.ts']);
+    expect(ids(await harness.storage.listObjects({ pathPrefix: '/%' }))).toEqual([]);
+    expect(ids(await harness.storage.listObjects({ objectType: 'file', sessionId: 's-1' }))).toEqual([]);
+  });
+
+  it('matches the current HEAD only, not earlier versions', async () => {
+    await put({ requestId: 'm1', objectId: 'toolcall:m', objectType: 'toolcall', sessionId: 's-old', contentStruct: {} });
+    const head = await put({
+      requestId: 'm2',
+      objectId: 'toolcall:m',
+      objectType: 'toolcall',
+      sessionId: 's-new',
+      status: 'done',
+      contentStruct: {},
+    });
+
+    expect(ids(await harness.storage.listObjects({ sessionId: 's-old' }))).toEqual([]);
+    const listed = await harness.storage.listObjects({ sessionId: 's-new' });
+    expect(listed.objects.map((entry) => [entry.objectId, entry.versionId, entry.status])).toEqual([
+      ['toolcall:m', head.versionId, 'done'],
+    ]);
+  });
+
+  it('returns objects updated after a tx_seq', async () => {
+    await seed();
+    const { cursor } = await harness.storage.readChanges({ limit: 1000 });
+    const updated = await put({
+      requestId: 'b2',
+      objectId: 'file:/src/b.ts',
+      objectType: 'file',
+      path: '/src/b.ts',
+      contentStruct: { v: 2 },
+    });
+
+    const changed = await harness.storage.listObjects({ updatedAfterTxSeq: cursor });
+    expect(changed.objects.map((entry) => [entry.objectId, entry.txSeq])).toEqual([['file:/src/b.ts', updated.txSeq]]);
+    expect(ids(await harness.storage.listObjects({ updatedAfterTxSeq: updated.txSeq }))).toEqual([]);
+  });
+
+  it('pages with an objectId cursor and validates parameters', async () => {
+    await seed();
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await harness.storage.listObjects({ limit: 3, cursor });
+      expect(page.objects.length).toBeLessThanOrEqual(3);
+      seen.push(...ids(page));
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+    expect(seen).toEqual(ids(await harness.storage.listObjects()));
+
+    const exact = await harness.storage.listObjects({ objectType: 'toolcall', limit: 3 });
+    expect(exact.cursor).toBeNull();
+
+    await expect(harness.storage.listObjects({ limit: 0 })).rejects.toThrow('invalid_limit:0');
+    await expect(harness.storage.listObjects({ cursor: '' })).rejects.toThrow('invalid_cursor:');
+    await expect(harness.storage.listObjects({ updatedAfterTxSeq: -1 })).rejects.toThrow(
+      'invalid_list_objects:updatedAfterTxSeq:-1',
+    );
+  });
+});
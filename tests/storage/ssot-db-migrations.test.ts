@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseSync } from 'node:sqlite';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import {
+  readSchemaVersion,
+  runSqliteMigrations,
+  SQLITE_MIGRATIONS,
+  SQLITE_SCHEMA_VERSION,
+} from '../../src/storage/sqlite-migrations.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  openInspectDb,
+  type StorageHarness,
+} from './test-helpers.js';
+
+describe('DB schema migrations (PRAGMA user_version)', () => {
+  let harness: StorageHarness;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+  });
+
+  afterEach(async () => {
+    await cleanupStorageHarness(harness);
+  });
+
+  function reopen(options: { migrate?: boolean } = {}): SqliteStorage {
+    harness.storage.close();
+    harness.storage = new SqliteStorage({ path: harness.dbPath, ...options });
+    return harness.storage;
+  }
+
+  it('applies every step on a fresh DB and none on reopen', () => {
+    expect(harness.storage.migrationReport).toEqual({
+      fromVersion: 0,
+      toVersion: SQLITE_SCHEMA_VERSION,
+      applied: SQLITE_MIGRATIONS.map(({ version, name }) => ({ version, name })),
+    });
+
+    expect(reopen().migrationReport).toEqual({
+      fromVersion: SQLITE_SCHEMA_VERSION,
+      toVersion: SQLITE_SCHEMA_VERSION,
+      applied: [],
+    });
+  });
+
+  it('adopts a pre-migration store (user_version 0) and runs the later steps on its data', async () => {
+    const put = await harness.storage.putVersion(
+      baseWrite({ requestId: 'r1', objectId: 'file:/m', objectType: 'file', contentStruct: { content: 'kept row' } }),
+    );
+    expect(put.ok).toBe(true);
+
+    // reduce the store to what an untracked baseline-era DB looked like
+    const inspect = openInspectDb(harness.dbPath);
+    inspect.exec('DROP TABLE version_content_fts');
+    inspect.exec('PRAGMA user_version = 0');
+    inspect.close();
+
+    const report = reopen().migrationReport;
+    expect(report?.fromVersion).toBe(0);
+    expect(report?.applied.map((step) => step.name)).toEqual(SQLITE_MIGRATIONS.map((step) => step.name));
+    expect((await harness.storage.searchContent('kept')).map((hit) => hit.objectId)).toEqual(['file:/m']);
+    expect(await harness.storage.getHistory('file:/m')).toHaveLength(1);
+  });
+
+  it('moves inline file bytes into the blob store and drops the inline column', async () => {
+    const bytes = new TextEncoder().encode('same bytes');
+    for (const [requestId, objectId] of [
+      ['b1', 'file:/x'],
+      ['b2', 'file:/x'],
+      ['b3', 'file:/y'],
+    ]) {
+      await harness.storage.putVersion(
+        baseWrite({ requestId, objectId, objectType: 'file', contentStruct: { requestId }, fileBytes: bytes }),
+      );
+    }
+
+    // rebuild the step-2 layout: bytes inline on every version, no blobs table
+    const inspect = openInspectDb(harness.dbPath);
+    inspect.exec(`
+      ALTER TABLE object_versions ADD COLUMN file_bytes_blob BLOB;
+      UPDATE object_versions SET file_bytes_blob = (SELECT b.bytes FROM blobs b WHERE b.hash = file_bytes_hash);
+      DROP TRIGGER trg_blob_requires_row;
+      DROP TRIGGER trg_blob_ref_insert;
+      DROP TRIGGER trg_blob_ref_delete;
+      DROP TABLE blobs;
+      PRAGMA user_version = 2;
+    `);
+    inspect.close();
+
+    expect(reopen().migrationReport?.applied).toEqual([
+      { version: 3, name: 'content_addressed_blobs' },
+      { version: 4, name: 'file_content_delta' },
+      { version: 5, name: 'version_object_hash_index' },
+      { version: 6, name: 'reresolve_references' },
+      { version: 7, name: 'object_attribute_events' },
+      { version: 8, name: 'version_tombstones' },
+      { version: 9, name: 'version_validity' },
+      { version: 10, name: 'field_hash_anchors' },
+    ]);
+    expect(await harness.storage.verifyIntegrity()).toMatchObject({ ok: true, checkedVersions: 3 });
+
+    const after = openInspectDb(harness.dbPath);
+    const columns = after.prepare("PRAGMA table_info('object_versions')").all() as Array<{ name: string }>;
+    expect(columns.map((column) => column.name)).not.toContain('file_bytes_blob');
+    expect(after.prepare('SELECT byte_size, ref_count FROM blobs').all()).toEqual([
+      { byte_size: bytes.byteLength, ref_count: 3 },
+    ]);
+    after.close();
+  });
+
+  it('backfills resolved=1 on refs whose targets were written after them', async () => {
+    await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'rr-session',
+        objectId: 'session:rr',
+        objectType: 'session',
+        sessionId: 'rr',
+        contentStruct: {
+          chat_ref: { target_object_id: 'chat:rr', mode: 'dynamic', ref_kind: 'chat' },
+          active_set: [{ target_object_id: 'file:/never', mode: 'dynamic', ref_kind: 'active' }],
+          inactive_set: [],
+          pinned_set: [],
+        },
+      }),
+    );
+    await harness.storage.putVersion(
+      baseWrite({ requestId: 'rr-chat', objectId: 'chat:rr', objectType: 'chat', contentStruct: {} }),
+    );
+
+    // what a store written before re-resolution looked like
+    const inspect = openInspectDb(harness.dbPath);
+    inspect.exec('UPDATE doc_references SET resolved = 0; PRAGMA user_version = 5;');
+    inspect.close();
+
+    expect(reopen().migrationReport?.applied).toEqual([
+      { version: 6, name: 'reresolve_references' },
+      { version: 7, name: 'object_attribute_events' },
+      { version: 8, name: 'version_tombstones' },
+      { version: 9, name: 'version_validity' },
+      { version: 10, name: 'field_hash_anchors' },
+    ]);
+    const refs = await harness.storage.queryReferences({});
+    expect(refs.map((ref) => [ref.targetObjectId, ref.resolved]).sort()).toEqual([
+      ['chat:rr', true],
+      ['file:/never', false],
+    ]);
+  });
+
+  it('refuses to open a DB written by a newer schema', () => {
+    const inspect = openInspectDb(harness.dbPath);
+    inspect.exec(`PRAGMA user_version = ${SQLITE_SCHEMA_VERSION + 1}`);
+    inspect.close();
+    harness.storage.close();
+
+    const expected = `schema_too_new:${SQLITE_SCHEMA_VERSION + 1}:${SQLITE_SCHEMA_VERSION}`;
+    expect(() => new SqliteStorage({ path: harness.dbPath })).toThrow(expected);
+    expect(() => new SqliteStorage({ path: harness.dbPath, migrate: false })).toThrow(expected);
+
+    harness.storage = new SqliteStorage();
+  });
+
+  it('rolls a failing step back and leaves user_version at the last good step', () => {
+    harness.storage.close();
+    const db = new DatabaseSync(harness.dbPath);
+    const broken = {
+      version: SQLITE_SCHEMA_VERSION + 1,
+      name: 'broken_step',
+      up: (target: DatabaseSync) => {
+        target.exec('CREATE TABLE half_applied (a TEXT)');
+        target.exec('SELECT * FROM missing_table');
+      },
+    };
+
+    expect(() => runSqliteMigrations(db, [...SQLITE_MIGRATIONS, broken])).toThrow(
+      `migration_failed:${broken.version}:broken_step:`,
+    );
+    expect(readSchemaVersion(db)).toBe(SQLITE_SCHEMA_VERSION);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_applied'").get()).toBeUndefined();
+    db.close();
+
+    harness.storage = new SqliteStorage({ path: harness.dbPath });
+  });
+});
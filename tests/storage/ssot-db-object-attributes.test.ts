@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB object attributes (locked / nickname) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('defaults to unlocked without nickname and merges partial updates', async () => {
+    const record = await put({ requestId: 'a1', objectId: 'file:/spec.md', objectType: 'file', contentStruct: {} });
+    expect(await harness.storage.getObjectAttributes('file:/spec.md')).toEqual({
+      objectId: 'file:/spec.md',
+      locked: false,
+      nickname: null,
+    });
+
+    expect(await harness.storage.setObjectAttributes('file:/spec.md', { locked: true, writerId: 'u1' })).toEqual({
+      objectId: 'file:/spec.md',
+      locked: true,
+      nickname: null,
+    });
+    await harness.storage.setObjectAttributes('file:/spec.md', { nickname: 'spec', writerId: 'u2' });
+    expect(await harness.storage.getObjectAttributes('file:/spec.md')).toEqual({
+      objectId: 'file:/spec.md',
+      locked: true,
+      nickname: 'spec',
+    });
+
+    // attributes are not versioned state
+    expect(await harness.storage.getLatest('file:/spec.md')).toEqual(record);
+    expect((await harness.storage.readChanges()).changes).toHaveLength(1);
+  });
+
+  it('records one audit entry per effective change, oldest first', async () => {
+    await put({ requestId: 'h1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+    await harness.storage.setObjectAttributes('file:/a', { locked: true, nickname: 'a', writerId: 'u1' });
+    await harness.storage.setObjectAttributes('file:/a', { locked: true, writerId: 'u1' });
+    await harness.storage.setObjectAttributes('file:/a', { nickname: null, writerId: 'u2' });
+
+    const history = await harness.storage.getObjectAttributeHistory('file:/a');
+    expect(history.map(({ locked, nickname, writerId }) => ({ locked, nickname, writerId }))).toEqual([
+      { locked: true, nickname: 'a', writerId: 'u1' },
+      { locked: true, nickname: null, writerId: 'u2' },
+    ]);
+    expect(history[0].eventSeq).toBeLessThan(history[1].eventSeq);
+    expect(history.every((entry) => entry.objectId === 'file:/a' && !Number.isNaN(Date.parse(entry.changedAt)))).toBe(
+      true,
+    );
+    expect(await harness.storage.getObjectAttributeHistory('file:/missing')).toEqual([]);
+  });
+
+  it('returns attributes on listObjects summaries', async () => {
+    await put({ requestId: 'l1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+    await put({ requestId: 'l2', objectId: 'file:/b', objectType: 'file', contentStruct: {} });
+    await harness.storage.setObjectAttributes('file:/b', { locked: true, nickname: 'bee', writerId: 'u1' });
+
+    const page = await harness.storage.listObjects();
+    expect(page.objects.map(({ objectId, locked, nickname }) => [objectId, locked, nickname])).toEqual([
+      ['file:/a', false, null],
+      ['file:/b', true, 'bee'],
+    ]);
+  });
+
+  it('returns null for objects without a version and validates updates', async () => {
+    expect(await harness.storage.getObjectAttributes('file:/none')).toBeNull();
+    expect(await harness.storage.setObjectAttributes('file:/none', { locked: true, writerId: 'u1' })).toBeNull();
+
+    await put({ requestId: 'v1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+    const set = (update: unknown) => harness.storage.setObjectAttributes('file:/a', update as never);
+    await expect(set({ writerId: 'u1' })).rejects.toThrow('invalid_object_attributes:empty');
+    await expect(set({ locked: true, writerId: ' ' })).rejects.toThrow('invalid_object_attributes:writerId');
+    await expect(set({ locked: 'yes', writerId: 'u1' })).rejects.toThrow('invalid_object_attributes:locked');
+    await expect(set({ nickname: '  ', writerId: 'u1' })).rejects.toThrow('invalid_object_attributes:nickname');
+    expect(await harness.storage.getObjectAttributeHistory('file:/a')).toEqual([]);
+  });
+});
@@ -2,24 +2,23 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import type { DatabaseSync } from 'node:sqlite';
 import {
   baseWrite,
-  cleanupStorageHarness,
-  createStorageHarness,
-  openInspectDb,
-  type StorageHarness,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
 } from './test-helpers.js';
 
-describe('DB SSOT §5 putVersion transaction contract', () => {
-  let harness: StorageHarness;
-  let inspect: DatabaseSync;
+describe.each(STORAGE_BACKENDS)('DB SSOT §5 putVersion transaction contract [%s]', (backend) => {
+  let harness: BackendHarness;
+  let inspect: DatabaseSync | null;
 
   beforeEach(async () => {
-    harness = await createStorageHarness();
-    inspect = openInspectDb(harness.dbPath);
+    harness = await createBackendHarness(backend);
+    inspect = harness.inspect;
   });
 
   afterEach(async () => {
-    inspect.close();
-    await cleanupStorageHarness(harness);
+    await cleanupBackendHarness(harness);
   });
 
   it('§5.0 step 0: session write with null/empty/whitespace session_id returns validation failure', async () => {
@@ -49,8 +48,10 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
 
       expect(result).toEqual({ ok: false, validation: true, reason: 'invalid_session_id' });
 
+      expect(await harness.storage.getLatest(`session:${invalid.requestId}`)).toBeNull();
+
       const objectRow = inspect
-        .prepare('SELECT object_id FROM objects WHERE object_id = ?')
+        ?.prepare('SELECT object_id FROM objects WHERE object_id = ?')
         .get(`session:${invalid.requestId}`) as { object_id: string } | undefined;
       expect(objectRow).toBeUndefined();
     }
@@ -92,10 +93,14 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
 
     expect(second).toEqual({ ok: false, validation: true, reason: 'invalid_session_id' });
 
-    const versionCount = inspect
-      .prepare('SELECT COUNT(*) as c FROM object_versions WHERE object_id = ?')
-      .get('session:pv-s0-order') as { c: number };
-    expect(versionCount.c).toBe(1);
+    expect(await harness.storage.getHistory('session:pv-s0-order')).toHaveLength(1);
+
+    if (inspect) {
+      const versionCount = inspect
+        .prepare('SELECT COUNT(*) as c FROM object_versions WHERE object_id = ?')
+        .get('session:pv-s0-order') as { c: number };
+      expect(versionCount.c).toBe(1);
+    }
   });
 
   it('§5.1 step 1: idempotency replay returns prior record when request_id + hashes match', async () => {
@@ -214,12 +219,15 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
       }),
     );
     expect(result.ok).toBe(true);
+    expect((await harness.storage.getLatest('chat:new'))?.objectId).toBe('chat:new');
 
-    const row = inspect
-      .prepare('SELECT object_id, object_type FROM objects WHERE object_id = ?')
-      .get('chat:new') as { object_id: string; object_type: string } | undefined;
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT object_id, object_type FROM objects WHERE object_id = ?')
+        .get('chat:new') as { object_id: string; object_type: string } | undefined;
 
-    expect(row).toEqual({ object_id: 'chat:new', object_type: 'chat' });
+      expect(row).toEqual({ object_id: 'chat:new', object_type: 'chat' });
+    }
   });
 
   it('§5.3 step 3: expectedCurrentVersionId mismatch returns version_conflict', async () => {
@@ -247,6 +255,45 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
     expect(result).toEqual({ ok: false, conflict: true, reason: 'version_conflict' });
   });
 
+  it('§5.3 step 3: a conflicting first write leaves no object behind, so later refs stay unresolved', async () => {
+    const conflict = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'pv-s3-ghost',
+        objectId: 'chat:ghost',
+        objectType: 'chat',
+        expectedCurrentVersionId: 'not-current',
+        contentStruct: {},
+        metadata: {},
+      }),
+    );
+    expect(conflict).toEqual({ ok: false, conflict: true, reason: 'version_conflict' });
+    expect(await harness.storage.getLatest('chat:ghost')).toBeNull();
+
+    const session = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'pv-s3-ghost-ref',
+        objectId: 'session:ghost',
+        objectType: 'session',
+        sessionId: 'ghost',
+        contentStruct: {
+          chat_ref: { target_object_id: 'chat:ghost', mode: 'dynamic', ref_kind: 'chat' },
+          active_set: [],
+          inactive_set: [],
+          pinned_set: [],
+        },
+        metadata: {},
+      }),
+    );
+    expect(session.ok).toBe(true);
+
+    const refs = await harness.storage.queryReferences({ targetObjectId: 'chat:ghost' });
+    expect(refs).toHaveLength(1);
+    expect(refs[0].resolved).toBe(false);
+    if (inspect) {
+      expect(inspect.prepare('SELECT object_id FROM objects WHERE object_id = ?').get('chat:ghost')).toBeUndefined();
+    }
+  });
+
   it('§5.4 step 4: nextVersionNo is max(version_no)+1 for the object', async () => {
     const first = await harness.storage.putVersion(
       baseWrite({
@@ -318,15 +365,20 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
     expect(second.ok).toBe(true);
     if (!second.ok) return;
 
-    const count = inspect
-      .prepare('SELECT COUNT(*) as c FROM object_versions WHERE object_id = ?')
-      .get('file:/append.ts') as { c: number };
-    expect(count.c).toBe(2);
+    const history = await harness.storage.getHistory('file:/append.ts', 'asc');
+    expect(history.map((record) => record.versionId)).toEqual([first.record.versionId, second.record.versionId]);
 
-    const firstStillThere = inspect
-      .prepare('SELECT version_id FROM object_versions WHERE version_id = ?')
-      .get(first.record.versionId) as { version_id: string } | undefined;
-    expect(firstStillThere?.version_id).toBe(first.record.versionId);
+    if (inspect) {
+      const count = inspect
+        .prepare('SELECT COUNT(*) as c FROM object_versions WHERE object_id = ?')
+        .get('file:/append.ts') as { c: number };
+      expect(count.c).toBe(2);
+
+      const firstStillThere = inspect
+        .prepare('SELECT version_id FROM object_versions WHERE version_id = ?')
+        .get(first.record.versionId) as { version_id: string } | undefined;
+      expect(firstStillThere?.version_id).toBe(first.record.versionId);
+    }
   });
 
   it('§5.7 step 7: object head and updated_seq/updated_at are advanced to new version', async () => {
@@ -355,17 +407,21 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
     expect(b.ok).toBe(true);
     if (!b.ok) return;
 
-    const row = inspect
-      .prepare('SELECT current_version_id, updated_seq, updated_at FROM objects WHERE object_id = ?')
-      .get('file:/head-advance.ts') as {
-      current_version_id: string;
-      updated_seq: number;
-      updated_at: string;
-    };
-
-    expect(row.current_version_id).toBe(b.record.versionId);
-    expect(row.updated_seq).toBe(b.record.txSeq);
-    expect(row.updated_at.length).toBeGreaterThan(0);
+    expect((await harness.storage.getLatest('file:/head-advance.ts'))?.versionId).toBe(b.record.versionId);
+
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT current_version_id, updated_seq, updated_at FROM objects WHERE object_id = ?')
+        .get('file:/head-advance.ts') as {
+        current_version_id: string;
+        updated_seq: number;
+        updated_at: string;
+      };
+
+      expect(row.current_version_id).toBe(b.record.versionId);
+      expect(row.updated_seq).toBe(b.record.txSeq);
+      expect(row.updated_at.length).toBeGreaterThan(0);
+    }
   });
 
   it('§5.8 step 8: references are extracted and stored for each new version', async () => {
@@ -488,22 +544,35 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const idem = inspect
-      .prepare(
-        'SELECT request_id, object_id, version_id, content_struct_hash, created_seq FROM write_idempotency WHERE request_id = ?',
-      )
-      .get('pv-s10') as {
-      request_id: string;
-      object_id: string;
-      version_id: string;
-      content_struct_hash: string;
-      created_seq: number;
-    };
-
-    expect(idem.request_id).toBe('pv-s10');
-    expect(idem.object_id).toBe('file:/idem-row.ts');
-    expect(idem.version_id).toBe(result.record.versionId);
-    expect(idem.created_seq).toBe(result.record.txSeq);
+    const replay = await harness.storage.putVersion(
+      baseWrite({
+        requestId: 'pv-s10',
+        objectId: 'file:/idem-row.ts',
+        objectType: 'file',
+        contentStruct: { body: 'x' },
+        metadata: {},
+      }),
+    );
+    expect(replay).toEqual({ ok: true, record: result.record, idempotentReplay: true });
+
+    if (inspect) {
+      const idem = inspect
+        .prepare(
+          'SELECT request_id, object_id, version_id, content_struct_hash, created_seq FROM write_idempotency WHERE request_id = ?',
+        )
+        .get('pv-s10') as {
+        request_id: string;
+        object_id: string;
+        version_id: string;
+        content_struct_hash: string;
+        created_seq: number;
+      };
+
+      expect(idem.request_id).toBe('pv-s10');
+      expect(idem.object_id).toBe('file:/idem-row.ts');
+      expect(idem.version_id).toBe(result.record.versionId);
+      expect(idem.created_seq).toBe(result.record.txSeq);
+    }
   });
 
   it('§5.11 step 11: success commits durable row and returns success record', async () => {
@@ -520,11 +589,15 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const persisted = inspect
-      .prepare('SELECT version_id FROM object_versions WHERE version_id = ?')
-      .get(result.record.versionId) as { version_id: string } | undefined;
+    expect(await harness.storage.getLatest('file:/commit.ts')).toEqual(result.record);
+
+    if (inspect) {
+      const persisted = inspect
+        .prepare('SELECT version_id FROM object_versions WHERE version_id = ?')
+        .get(result.record.versionId) as { version_id: string } | undefined;
 
-    expect(persisted?.version_id).toBe(result.record.versionId);
+      expect(persisted?.version_id).toBe(result.record.versionId);
+    }
     expect(result.idempotentReplay).toBe(false);
   });
 
@@ -545,13 +618,18 @@ describe('DB SSOT §5 putVersion transaction contract', () => {
       ),
     ).rejects.toThrow();
 
-    const objectRow = inspect
-      .prepare('SELECT object_id FROM objects WHERE object_id = ?')
-      .get('session:rollback') as { object_id: string } | undefined;
+    expect(await harness.storage.getLatest('session:rollback')).toBeNull();
+    expect((await harness.storage.readChanges()).changes).toEqual([]);
+
+    if (inspect) {
+      const objectRow = inspect
+        .prepare('SELECT object_id FROM objects WHERE object_id = ?')
+        .get('session:rollback') as { object_id: string } | undefined;
 
-    const versionCount = inspect.prepare('SELECT COUNT(*) as c FROM object_versions').get() as { c: number };
+      const versionCount = inspect.prepare('SELECT COUNT(*) as c FROM object_versions').get() as { c: number };
 
-    expect(objectRow).toBeUndefined();
-    expect(versionCount.c).toBe(0);
+      expect(objectRow).toBeUndefined();
+      expect(versionCount.c).toBe(0);
+    }
   });
 });
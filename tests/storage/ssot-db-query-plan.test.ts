@@ -87,6 +87,39 @@ describe('DB SSOT §4 indexes are used by canonical query shapes', () => {
     expect(plan.some((p) => p.detail.includes('idx_versions_session_id'))).toBe(true);
   });
 
+  it('serves listObjects HEAD filters from the typed envelope indexes', async () => {
+    const headShape = (filter: string) =>
+      `EXPLAIN QUERY PLAN SELECT o.object_id FROM object_versions v JOIN objects o ON o.object_id = v.object_id WHERE o.current_version_id = v.version_id AND ${filter} ORDER BY o.object_id ASC LIMIT ?`;
+    const details = (sql: string, ...args: Array<string | number>) =>
+      (inspect.prepare(sql).all(...args) as Array<{ detail: string }>).map((p) => p.detail).join('\n');
+
+    expect(details(headShape('v.session_id = ?'), 'sess-even', 10)).toContain('idx_versions_session_id');
+    expect(details(headShape('v.path >= ? AND v.path < ?'), '/src/', '/src0', 10)).toContain('idx_versions_path');
+    expect(details(headShape('v.tool_name = ? AND v.status = ?'), 'bash', 'ok', 10)).toContain(
+      'idx_versions_tool_name_status',
+    );
+
+    const listed = await harness.storage.listObjects({ sessionId: 'sess-even', toolName: 'bash' });
+    expect(listed.objects.map((entry) => entry.objectId)).toEqual(
+      ['toolcall:qp:0', 'toolcall:qp:12', 'toolcall:qp:18', 'toolcall:qp:24', 'toolcall:qp:6'],
+    );
+  });
+
+  it('serves getVersion / getVersionsByObjectHash with point lookups', async () => {
+    const byId = inspect
+      .prepare('EXPLAIN QUERY PLAN SELECT * FROM object_versions WHERE version_id = ?')
+      .all('v') as Array<{ detail: string }>;
+    expect(byId.some((p) => p.detail.includes('sqlite_autoindex_object_versions'))).toBe(true);
+
+    const byHash = inspect
+      .prepare('EXPLAIN QUERY PLAN SELECT * FROM object_versions WHERE object_hash = ? ORDER BY tx_seq ASC')
+      .all('h') as Array<{ detail: string }>;
+    expect(byHash.some((p) => p.detail.includes('idx_versions_object_hash'))).toBe(true);
+
+    const head = await harness.storage.getLatest('toolcall:qp:7');
+    expect(await harness.storage.getVersionsByObjectHash(head!.objectHash)).toEqual([head]);
+  });
+
   it('uses idx_refs_target_version / idx_refs_target_hash for reverse lookup filters', async () => {
     const anyPinned = await harness.storage.queryReferences({ mode: 'pinned' });
     expect(anyPinned.length).toBeGreaterThan(0);
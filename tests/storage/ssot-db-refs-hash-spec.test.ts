@@ -1,9 +1,11 @@
-import { mkdtemp, rm } from 'node:fs/promises';
-import { tmpdir } from 'node:os';
-import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
 import type { VersionWriteInput } from '../../src/storage/storage-port.js';
+import {
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
 
 function writeInput(
   overrides: Partial<VersionWriteInput> & Pick<VersionWriteInput, 'requestId' | 'objectId' | 'objectType'>,
@@ -28,13 +30,13 @@ function writeInput(
   };
 }
 
-describe('DB SSOT §6.4 refs_hash conformance', () => {
-  let dir = '';
-  let storage: SqliteStorage;
+describe.each(STORAGE_BACKENDS)('DB SSOT §6.4 refs_hash conformance [%s]', (backend) => {
+  let harness: BackendHarness;
+  let storage: BackendHarness['storage'];
 
   beforeEach(async () => {
-    dir = await mkdtemp(join(tmpdir(), 'scm-refs-hash-'));
-    storage = new SqliteStorage({ path: join(dir, 'db.sqlite') });
+    harness = await createBackendHarness(backend);
+    storage = harness.storage;
 
     await storage.putVersion(
       writeInput({
@@ -68,8 +70,7 @@ describe('DB SSOT §6.4 refs_hash conformance', () => {
   });
 
   afterEach(async () => {
-    storage.close();
-    await rm(dir, { recursive: true, force: true });
+    await cleanupBackendHarness(harness);
   });
 
   it('excludes ref_metadata from refs_hash tuple', async () => {
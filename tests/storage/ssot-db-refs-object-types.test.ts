@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { extractRefs } from '../../src/storage/version-codec.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+const dynamic = (target: string, refKind: string) => ({ target_object_id: target, mode: 'dynamic', ref_kind: refKind });
+
+describe.each(STORAGE_BACKENDS)('DB refs on toolcall / chat payloads [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('stores toolcall chat_ref so the toolcalls of a chat can be found by reverse lookup', async () => {
+    await put({ requestId: 'chat', objectId: 'chat:c', objectType: 'chat', contentStruct: {} });
+    const first = await put({
+      requestId: 't1',
+      objectId: 'toolcall:1',
+      objectType: 'toolcall',
+      contentStruct: { content: 'ok', chat_ref: dynamic('chat:c', 'toolcall-chat') },
+    });
+    const second = await put({
+      requestId: 't2',
+      objectId: 'toolcall:2',
+      objectType: 'toolcall',
+      contentStruct: { content: 'ok', chat_ref: dynamic('chat:c', 'toolcall-chat') },
+    });
+    await put({ requestId: 't3', objectId: 'toolcall:3', objectType: 'toolcall', contentStruct: { content: 'none' } });
+
+    const referrers = await harness.storage.queryReferences({ targetObjectId: 'chat:c' });
+    expect(referrers.map((ref) => [ref.fromVersionId, ref.fromPath, ref.refKind, ref.resolved]).sort()).toEqual(
+      [
+        [first.versionId, '/chat_ref', 'toolcall-chat', true],
+        [second.versionId, '/chat_ref', 'toolcall-chat', true],
+      ].sort(),
+    );
+  });
+
+  it('stores chat session_ref and nested turn / file refs under canonical from_path values', async () => {
+    const chat = await put({
+      requestId: 'chat',
+      objectId: 'chat:n',
+      objectType: 'chat',
+      contentStruct: {
+        session_ref: dynamic('session:n', 'chat-session'),
+        turns: [
+          { role: 'user' },
+          { toolcall_refs: [dynamic('toolcall:a', 'turn-toolcall'), dynamic('toolcall:b', 'turn-toolcall')] },
+        ],
+        file_refs: [dynamic('file:/n', 'chat-file')],
+      },
+    });
+
+    const refs = await harness.storage.queryReferences({ fromVersionId: chat.versionId });
+    expect(refs.map((ref) => [ref.fromPath, ref.targetObjectId, ref.resolved]).sort()).toEqual([
+      ['/file_refs/0', 'file:/n', false],
+      ['/session_ref', 'session:n', false],
+      ['/turns/1/toolcall_refs/0', 'toolcall:a', false],
+      ['/turns/1/toolcall_refs/1', 'toolcall:b', false],
+    ]);
+    const fromPrefix = async (fromPathPrefix: string) =>
+      (await harness.storage.queryReferences({ fromVersionId: chat.versionId, fromPathPrefix })).length;
+    expect(await fromPrefix('/turns/')).toBe(2);
+    expect(await fromPrefix('/Turns/')).toBe(0);
+    expect(await fromPrefix('/TURNS/1/')).toBe(0);
+    expect(await fromPrefix('/turns/_/')).toBe(0);
+    expect(await fromPrefix('/%')).toBe(0);
+
+    await put({ requestId: 'tool-a', objectId: 'toolcall:a', objectType: 'toolcall', contentStruct: {} });
+    expect(await harness.storage.queryReferences({ targetObjectId: 'toolcall:a' })).toMatchObject([
+      { fromVersionId: chat.versionId, resolved: true },
+    ]);
+  });
+
+  it('covers the extracted refs in refs_hash and rejects malformed refs without writing', async () => {
+    const bare = await put({ requestId: 'bare', objectId: 'toolcall:h1', objectType: 'toolcall', contentStruct: {} });
+    const linked = await put({
+      requestId: 'linked',
+      objectId: 'toolcall:h2',
+      objectType: 'toolcall',
+      contentStruct: { chat_ref: dynamic('chat:h', 'toolcall-chat') },
+    });
+    expect(linked.refsHash).not.toBe(bare.refsHash);
+
+    await expect(
+      harness.storage.putVersion(
+        baseWrite({
+          requestId: 'bad',
+          objectId: 'chat:bad',
+          objectType: 'chat',
+          contentStruct: { turns: [{ toolcall_refs: [{ target_object_id: 'toolcall:x', mode: 'sometimes' }] }] },
+        }),
+      ),
+    ).rejects.toThrow('invalid_ref_mode:/turns/0/toolcall_refs/0.mode');
+    expect(await harness.storage.getLatest('chat:bad')).toBeNull();
+  });
+});
+
+describe('DB ref-field map', () => {
+  it('walks only declared fields and checks the shape of present optional ones', () => {
+    expect(extractRefs('file', { chat_ref: dynamic('chat:x', 'k') })).toEqual([]);
+    expect(extractRefs('chat', { session_ref: null, turns: [{}], text: 'target_object_id: chat:x' })).toEqual([]);
+    expect(() => extractRefs('chat', { file_refs: {} })).toThrow('expected_ref_array:/file_refs');
+    expect(() => extractRefs('chat', { turns: [{ toolcall_refs: 'toolcall:a' }] })).toThrow(
+      'expected_ref_array:/turns/0/toolcall_refs',
+    );
+    expect(() => extractRefs('chat', { turns: ['turn'] })).toThrow('invalid_object:/turns/0');
+    expect(() => extractRefs('session', { active_set: [], inactive_set: [], pinned_set: [] })).toThrow(
+      'invalid_object:/chat_ref',
+    );
+  });
+});
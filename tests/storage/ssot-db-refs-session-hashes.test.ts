@@ -2,25 +2,24 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import type { DatabaseSync } from 'node:sqlite';
 import {
   baseWrite,
-  cleanupStorageHarness,
-  createStorageHarness,
-  openInspectDb,
+  cleanupBackendHarness,
+  createBackendHarness,
   sha256,
-  type StorageHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
 } from './test-helpers.js';
 
-describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
-  let harness: StorageHarness;
-  let inspect: DatabaseSync;
+describe.each(STORAGE_BACKENDS)('DB SSOT §6 references, §7 sessions, §8 hashes [%s]', (backend) => {
+  let harness: BackendHarness;
+  let inspect: DatabaseSync | null;
 
   beforeEach(async () => {
-    harness = await createStorageHarness();
-    inspect = openInspectDb(harness.dbPath);
+    harness = await createBackendHarness(backend);
+    inspect = harness.inspect;
   });
 
   afterEach(async () => {
-    inspect.close();
-    await cleanupStorageHarness(harness);
+    await cleanupBackendHarness(harness);
   });
 
   it('§6.1 extracts refs only from explicit Ref objects in declared ref-bearing fields', async () => {
@@ -179,22 +178,26 @@ describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
     const resolved = refs.find((r) => r.targetObjectId === 'file:r63' && r.mode === 'dynamic');
     expect(resolved?.resolved).toBe(true);
 
-    const raw = inspect
-      .prepare('SELECT from_version_id, from_path, target_object_id, ref_kind, mode, resolved, ref_metadata_json FROM doc_references WHERE from_version_id = ? ORDER BY from_path ASC')
-      .all(session.record.versionId) as Array<{
-      from_version_id: string;
-      from_path: string;
-      target_object_id: string;
-      ref_kind: string;
-      mode: string;
-      resolved: number;
-      ref_metadata_json: string | null;
-    }>;
-
-    expect(raw.every((r) => r.from_version_id === session.record.versionId)).toBe(true);
-    expect(raw.some((r) => r.from_path === '/chat_ref')).toBe(true);
-    expect(raw.some((r) => r.from_path.startsWith('/active_set/'))).toBe(true);
-    expect(raw.some((r) => r.from_path.startsWith('/pinned_set/'))).toBe(true);
+    expect(refs.find((r) => r.fromPath === '/chat_ref')?.refMetadataJson).toBe('{"x":1}');
+
+    if (inspect) {
+      const raw = inspect
+        .prepare('SELECT from_version_id, from_path, target_object_id, ref_kind, mode, resolved, ref_metadata_json FROM doc_references WHERE from_version_id = ? ORDER BY from_path ASC')
+        .all(session.record.versionId) as Array<{
+        from_version_id: string;
+        from_path: string;
+        target_object_id: string;
+        ref_kind: string;
+        mode: string;
+        resolved: number;
+        ref_metadata_json: string | null;
+      }>;
+
+      expect(raw.every((r) => r.from_version_id === session.record.versionId)).toBe(true);
+      expect(raw.some((r) => r.from_path === '/chat_ref')).toBe(true);
+      expect(raw.some((r) => r.from_path.startsWith('/active_set/'))).toBe(true);
+      expect(raw.some((r) => r.from_path.startsWith('/pinned_set/'))).toBe(true);
+    }
   });
 
   it('§6.4 refs_hash is deterministic under input ordering permutations', async () => {
@@ -282,10 +285,15 @@ describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const obj = inspect
-      .prepare('SELECT object_type FROM objects WHERE object_id = ?')
-      .get('session:r71') as { object_type: string };
-    expect(obj.object_type).toBe('session');
+    const { changes } = await harness.storage.readChanges({ objectType: 'session' });
+    expect(changes.map((change) => change.record.objectId)).toEqual(['session:r71']);
+
+    if (inspect) {
+      const obj = inspect
+        .prepare('SELECT object_type FROM objects WHERE object_id = ?')
+        .get('session:r71') as { object_type: string };
+      expect(obj.object_type).toBe('session');
+    }
   });
 
   it('§7.1 session writes reject missing/blank session_id with explicit validation result', async () => {
@@ -380,15 +388,20 @@ describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
     expect(second.ok).toBe(true);
     if (!second.ok) return;
 
-    const rows = inspect
-      .prepare('SELECT session_id FROM object_versions WHERE object_id = ? ORDER BY version_no ASC')
-      .all('session:anchor') as Array<{ session_id: string | null }>;
+    const history = await harness.storage.getHistory('session:anchor', 'asc');
+    expect(history.map((record) => record.sessionId)).toEqual(['anchor-1', 'anchor-1']);
+
+    if (inspect) {
+      const rows = inspect
+        .prepare('SELECT session_id FROM object_versions WHERE object_id = ? ORDER BY version_no ASC')
+        .all('session:anchor') as Array<{ session_id: string | null }>;
 
-    expect(rows.map((r) => r.session_id)).toEqual(['anchor-1', 'anchor-1']);
+      expect(rows.map((r) => r.session_id)).toEqual(['anchor-1', 'anchor-1']);
+    }
   });
 
-  it('§7.1 no separate mutable session-state table is canonical in this profile', () => {
-    const row = inspect
+  it.runIf(backend === 'sqlite')('§7.1 no separate mutable session-state table is canonical in this profile', () => {
+    const row = inspect!
       .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='session_state'")
       .get() as { name: string } | undefined;
 
@@ -410,21 +423,32 @@ describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const row = inspect
-      .prepare('SELECT content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash FROM object_versions WHERE version_id = ?')
-      .get(result.record.versionId) as {
-      content_struct_hash: string;
-      file_bytes_hash: string | null;
-      metadata_hash: string;
-      refs_hash: string;
-      object_hash: string;
-    };
-
-    expect(row.content_struct_hash.length).toBe(64);
-    expect(row.file_bytes_hash?.length).toBe(64);
-    expect(row.metadata_hash.length).toBe(64);
-    expect(row.refs_hash.length).toBe(64);
-    expect(row.object_hash.length).toBe(64);
+    const { record } = result;
+    expect(record.contentStructHash.length).toBe(64);
+    expect(record.fileBytesHash?.length).toBe(64);
+    expect(record.metadataHash.length).toBe(64);
+    expect(record.refsHash.length).toBe(64);
+    expect(record.objectHash.length).toBe(64);
+
+    if (inspect) {
+      const row = inspect
+        .prepare('SELECT content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash FROM object_versions WHERE version_id = ?')
+        .get(result.record.versionId) as {
+        content_struct_hash: string;
+        file_bytes_hash: string | null;
+        metadata_hash: string;
+        refs_hash: string;
+        object_hash: string;
+      };
+
+      expect(row).toEqual({
+        content_struct_hash: record.contentStructHash,
+        file_bytes_hash: record.fileBytesHash,
+        metadata_hash: record.metadataHash,
+        refs_hash: record.refsHash,
+        object_hash: record.objectHash,
+      });
+    }
   });
 
   it('§8 object_hash preimage follows H("v1|object_id|version_no|content_struct_hash|file_bytes_hash|metadata_hash|refs_hash")', async () => {
@@ -442,11 +466,20 @@ describe('DB SSOT §6 references, §7 sessions, §8 hashes', () => {
     expect(result.ok).toBe(true);
     if (!result.ok) return;
 
-    const row = inspect
-      .prepare(
+    const { record } = result;
+    const row = (inspect
+      ?.prepare(
         'SELECT object_id, version_no, content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash FROM object_versions WHERE version_id = ?',
       )
-      .get(result.record.versionId) as {
+      .get(record.versionId) ?? {
+      object_id: record.objectId,
+      version_no: record.versionNo,
+      content_struct_hash: record.contentStructHash,
+      file_bytes_hash: record.fileBytesHash,
+      metadata_hash: record.metadataHash,
+      refs_hash: record.refsHash,
+      object_hash: record.objectHash,
+    }) as {
       object_id: string;
       version_no: number;
       content_struct_hash: string;
@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import type { DatabaseSync } from 'node:sqlite';
 import {
+  baseWrite,
   cleanupStorageHarness,
   createStorageHarness,
   openInspectDb,
@@ -68,7 +69,6 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
       'writer_kind',
       'write_reason',
       'content_struct_json',
-      'file_bytes_blob',
       'path',
       'session_id',
       'tool_name',
@@ -82,6 +82,12 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
       'object_hash',
       'hash_algo',
       'hash_schema_version',
+      'content_delta_base',
+      'content_delta_json',
+      'deleted',
+      'valid_from',
+      'valid_to',
+      'field_hashes_json',
     ]);
 
     const fks = inspect
@@ -121,6 +127,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
       'target_object_id',
       'target_version_id',
       'target_object_hash',
+      'target_field_hashes_json',
       'ref_kind',
       'mode',
       'resolved',
@@ -148,7 +155,13 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
     expect(createSql.sql).toContain("CHECK (mode IN ('dynamic', 'pinned'))");
     expect(createSql.sql).toContain('CHECK (resolved IN (0,1))');
     expect(createSql.sql).toContain('CHECK (ref_metadata_json IS NULL OR json_valid(ref_metadata_json))');
-    expect(createSql.sql).toContain("CHECK (mode != 'pinned' OR target_version_id IS NOT NULL OR target_object_hash IS NOT NULL)");
+    expect(createSql.sql).toContain('CHECK (target_field_hashes_json IS NULL OR json_valid(target_field_hashes_json))');
+    expect(createSql.sql).toContain(
+      "CHECK (mode != 'pinned' OR target_version_id IS NOT NULL OR target_object_hash IS NOT NULL OR target_field_hashes_json IS NOT NULL)",
+    );
+    expect(createSql.sql).toContain(
+      "CHECK (target_field_hashes_json IS NULL OR (mode = 'pinned' AND target_version_id IS NULL AND target_object_hash IS NULL))",
+    );
   });
 
   it('§3 write_idempotency table: exact columns + PK(request_id)', () => {
@@ -170,6 +183,86 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
     expect(requestId?.pk).toBe(1);
   });
 
+  it('§3 blobs table: exact columns + PK(hash); object_versions holds no inline bytes', () => {
+    const columns = inspect
+      .prepare("PRAGMA table_info('blobs')")
+      .all() as Array<{ name: string; pk: number }>;
+
+    expect(columns.map((c) => c.name)).toEqual(['hash', 'bytes', 'byte_size', 'ref_count']);
+    expect(columns.find((c) => c.name === 'hash')?.pk).toBe(1);
+
+    const triggers = inspect
+      .prepare("SELECT name FROM sqlite_master WHERE type='trigger' AND tbl_name='object_versions' ORDER BY name")
+      .all() as Array<{ name: string }>;
+    expect(triggers.map((t) => t.name)).toEqual(
+      expect.arrayContaining(['trg_blob_ref_delete', 'trg_blob_ref_insert', 'trg_blob_requires_row']),
+    );
+  });
+
+  it('§3 blobs are stored once per file_bytes_hash and reference-counted from object_versions', async () => {
+    const bytes = new TextEncoder().encode('shared bytes');
+    for (const [requestId, objectId] of [
+      ['blob-a1', 'file:/a'],
+      ['blob-a2', 'file:/a'],
+      ['blob-b1', 'file:/b'],
+    ]) {
+      const result = await harness.storage.putVersion(
+        baseWrite({ requestId, objectId, objectType: 'file', contentStruct: { requestId }, fileBytes: bytes }),
+      );
+      expect(result.ok).toBe(true);
+    }
+
+    const blobs = inspect.prepare('SELECT hash, byte_size, ref_count FROM blobs').all() as Array<{
+      hash: string;
+      byte_size: number;
+      ref_count: number;
+    }>;
+    expect(blobs).toHaveLength(1);
+    expect(blobs[0]).toMatchObject({ byte_size: bytes.byteLength, ref_count: 3 });
+
+    // deleting HEAD rows directly needs the objects -> object_versions FK off
+    inspect.exec('PRAGMA foreign_keys = OFF');
+    inspect.prepare("DELETE FROM object_versions WHERE object_id = 'file:/b'").run();
+    expect(inspect.prepare('SELECT ref_count FROM blobs').get()).toEqual({ ref_count: 2 });
+
+    inspect.prepare("DELETE FROM object_versions WHERE object_id = 'file:/a'").run();
+    expect(inspect.prepare('SELECT COUNT(*) AS n FROM blobs').get()).toEqual({ n: 0 });
+  });
+
+  it('§3 trigger: object_versions insert requires its blobs row', () => {
+    inspect
+      .prepare(
+        `INSERT INTO objects (
+          object_id, object_type, locked, created_seq, updated_seq, created_at, updated_at, current_version_id
+        ) VALUES ('file:blobless', 'file', 0, 1, 1, 't', 't', NULL)`,
+      )
+      .run();
+
+    expect(() => {
+      inspect
+        .prepare(
+          `INSERT INTO object_versions (
+            version_id, object_id, version_no, tx_time,
+            writer_id, writer_kind, write_reason,
+            content_struct_json,
+            path, session_id, tool_name, status, char_count,
+            metadata_json,
+            content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash,
+            hash_algo, hash_schema_version
+          ) VALUES (
+            'v-blobless', 'file:blobless', 1, 't',
+            'w', 'client', 'manual',
+            '{}',
+            NULL, NULL, NULL, NULL, NULL,
+            '{}',
+            'a', 'no-such-blob', 'b', 'c', 'd',
+            'sha256', 1
+          )`,
+        )
+        .run();
+    }).toThrow('missing_blob');
+  });
+
   it('§3 trigger: session object_versions insert requires non-empty session_id', () => {
     const trigger = inspect
       .prepare("SELECT name, sql FROM sqlite_master WHERE type='trigger' AND name='trg_session_version_requires_session_id'")
@@ -192,7 +285,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           `INSERT INTO object_versions (
             version_id, object_id, version_no, tx_time,
             writer_id, writer_kind, write_reason,
-            content_struct_json, file_bytes_blob,
+            content_struct_json,
             path, session_id, tool_name, status, char_count,
             metadata_json,
             content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash,
@@ -200,7 +293,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           ) VALUES (
             'v-trigger-bad', 'session:trigger', 1, 't',
             'w', 'client', 'manual',
-            '{}', NULL,
+            '{}',
             NULL, NULL, NULL, NULL, NULL,
             '{}',
             'a', NULL, 'b', 'c', 'd',
@@ -236,7 +329,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           `INSERT INTO object_versions (
             version_id, object_id, version_no, tx_time,
             writer_id, writer_kind, write_reason,
-            content_struct_json, file_bytes_blob,
+            content_struct_json,
             path, session_id, tool_name, status, char_count,
             metadata_json,
             content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash,
@@ -244,7 +337,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           ) VALUES (
             'v-bad-kind', 'ok:1', 1, 't',
             'w', 'invalid_kind', 'manual',
-            '{}', NULL,
+            '{}',
             NULL, NULL, NULL, NULL, NULL,
             '{}',
             'a', NULL, 'b', 'c', 'd',
@@ -260,7 +353,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           `INSERT INTO object_versions (
             version_id, object_id, version_no, tx_time,
             writer_id, writer_kind, write_reason,
-            content_struct_json, file_bytes_blob,
+            content_struct_json,
             path, session_id, tool_name, status, char_count,
             metadata_json,
             content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash,
@@ -268,7 +361,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
           ) VALUES (
             'v-bad-json', 'ok:1', 1, 't',
             'w', 'client', 'manual',
-            '{bad-json', NULL,
+            '{bad-json',
             NULL, NULL, NULL, NULL, NULL,
             '{}',
             'a', NULL, 'b', 'c', 'd',
@@ -293,7 +386,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
         `INSERT INTO object_versions (
           version_id, object_id, version_no, tx_time,
           writer_id, writer_kind, write_reason,
-          content_struct_json, file_bytes_blob,
+          content_struct_json,
           path, session_id, tool_name, status, char_count,
           metadata_json,
           content_struct_hash, file_bytes_hash, metadata_hash, refs_hash, object_hash,
@@ -301,7 +394,7 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
         ) VALUES (
           'v-ok', 'obj:1', 1, 't',
           'w', 'client', 'manual',
-          '{}', NULL,
+          '{}',
           NULL, NULL, NULL, NULL, NULL,
           '{}',
           'a', NULL, 'b', 'c', 'd',
@@ -360,6 +453,8 @@ describe('DB SSOT §3 schema + §4 indexes', () => {
       idx_versions_session_id: ['session_id'],
       idx_versions_path: ['path'],
       idx_versions_tool_name_status: ['tool_name', 'status'],
+      idx_versions_object_hash: ['object_hash'],
+      idx_versions_validity: ['object_id', 'valid_from'],
 
       idx_refs_from_version_path: ['from_version_id', 'from_path'],
       idx_refs_target_object: ['target_object_id'],
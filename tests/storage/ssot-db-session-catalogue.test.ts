@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB session catalogue (listSessions / compareSessions) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  const dynamic = (target: string, refKind: string) => ({
+    target_object_id: target,
+    mode: 'dynamic',
+    ref_kind: refKind,
+  });
+  const pinned = (target: string, versionId: string) => ({
+    target_object_id: target,
+    mode: 'pinned',
+    target_version_id: versionId,
+    ref_kind: 'session-pinned',
+  });
+
+  function session(requestId: string, id: string, sets: Record<string, unknown[]>) {
+    return put({
+      requestId,
+      objectId: `session:${id}`,
+      objectType: 'session',
+      sessionId: id,
+      contentStruct: {
+        chat_ref: dynamic(`chat:${id}`, 'session-chat-root'),
+        active_set: [],
+        inactive_set: [],
+        pinned_set: [],
+        ...sets,
+      },
+    });
+  }
+
+  it('lists sessions with set counts, the last session write and the chat turn count', async () => {
+    await put({ requestId: 'c1', objectId: 'chat:s1', objectType: 'chat', contentStruct: { turn_count: 2 } });
+    await session('s1a', 's1', { active_set: [dynamic('file:/a', 'session-active')] });
+    await put({ requestId: 'c2', objectId: 'chat:s1', objectType: 'chat', contentStruct: { turn_count: 5 } });
+    const s1 = await session('s1b', 's1', {
+      active_set: [dynamic('file:/a', 'session-active'), dynamic('file:/b', 'session-active')],
+      inactive_set: [dynamic('file:/c', 'session-inactive')],
+      pinned_set: [pinned('file:/a', 'v-a1')],
+    });
+    const s2 = await session('s2a', 's2', {});
+    await put({ requestId: 'f1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+
+    const page = await harness.storage.listSessions();
+    expect(page).toEqual({
+      sessions: [
+        {
+          objectId: 'session:s1',
+          sessionId: 's1',
+          versionId: s1.versionId,
+          versionNo: 2,
+          txSeq: s1.txSeq,
+          txTime: s1.txTime,
+          activeCount: 2,
+          inactiveCount: 1,
+          pinnedCount: 1,
+          chatObjectId: 'chat:s1',
+          chatTurnCount: 5,
+        },
+        {
+          objectId: 'session:s2',
+          sessionId: 's2',
+          versionId: s2.versionId,
+          versionNo: 1,
+          txSeq: s2.txSeq,
+          txTime: s2.txTime,
+          activeCount: 0,
+          inactiveCount: 0,
+          pinnedCount: 0,
+          chatObjectId: 'chat:s2',
+          chatTurnCount: null,
+        },
+      ],
+      cursor: null,
+    });
+
+    const first = await harness.storage.listSessions({ limit: 1 });
+    expect(first.sessions.map((summary) => summary.objectId)).toEqual(['session:s1']);
+    const next = await harness.storage.listSessions({ cursor: first.cursor!, limit: 1 });
+    expect(next).toMatchObject({ sessions: [{ objectId: 'session:s2' }], cursor: null });
+  });
+
+  it('compares working sets and pinned anchors of two sessions', async () => {
+    await session('a1', 'a', {
+      active_set: [dynamic('file:/shared', 'session-active'), dynamic('file:/only-a', 'session-active')],
+      inactive_set: [dynamic('file:/moved', 'session-inactive')],
+      pinned_set: [pinned('file:/shared', 'v-1'), pinned('file:/same-pin', 'v-9')],
+    });
+    await session('b1', 'b', {
+      active_set: [dynamic('file:/moved', 'session-active'), dynamic('file:/same-pin', 'session-active')],
+      inactive_set: [dynamic('file:/shared', 'session-inactive'), dynamic('file:/only-b', 'session-inactive')],
+      pinned_set: [pinned('file:/shared', 'v-2'), pinned('file:/same-pin', 'v-9'), pinned('file:/pin-b', 'v-3')],
+    });
+
+    const comparison = await harness.storage.compareSessions('session:a', 'session:b');
+    expect(comparison).toMatchObject({
+      a: { objectId: 'session:a' },
+      b: { objectId: 'session:b' },
+      shared: [
+        { objectId: 'file:/moved', a: ['inactive_set'], b: ['active_set'] },
+        { objectId: 'file:/same-pin', a: ['pinned_set'], b: ['active_set', 'pinned_set'] },
+        { objectId: 'file:/shared', a: ['active_set', 'pinned_set'], b: ['inactive_set', 'pinned_set'] },
+      ],
+      onlyInA: [{ objectId: 'file:/only-a', sets: ['active_set'] }],
+      onlyInB: [
+        { objectId: 'file:/only-b', sets: ['inactive_set'] },
+        { objectId: 'file:/pin-b', sets: ['pinned_set'] },
+      ],
+      pinnedDifferences: [
+        { objectId: 'file:/pin-b', a: null, b: [{ targetVersionId: 'v-3' }] },
+        { objectId: 'file:/shared', a: [{ targetVersionId: 'v-1' }], b: [{ targetVersionId: 'v-2' }] },
+      ],
+    });
+  });
+
+  it('returns null for sessions without a version and rejects other object types', async () => {
+    await session('x1', 'x', {});
+    await put({ requestId: 'x2', objectId: 'file:/x', objectType: 'file', contentStruct: {} });
+
+    expect(await harness.storage.compareSessions('session:x', 'session:missing')).toBeNull();
+    await expect(harness.storage.compareSessions('session:x', 'file:/x')).rejects.toThrow(
+      'compare_not_session:file:/x',
+    );
+    expect((await harness.storage.listSessions()).sessions.map((summary) => summary.objectId)).toEqual(['session:x']);
+  });
+});
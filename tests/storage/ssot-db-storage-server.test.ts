@@ -0,0 +1,281 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createServer, request } from 'node:http';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RemoteStorage } from '../../src/storage/remote-storage.js';
+import { STORAGE_RPC_MAX_BODY_BYTES } from '../../src/storage/storage-rpc.js';
+import {
+  parseStorageDaemonArgs,
+  StorageServer,
+  type StorageServerAddress,
+} from '../../src/storage/storage-server.js';
+import { SelfContextManager } from '../../src/phase3-extension.js';
+import {
+  baseWrite,
+  cleanupStorageHarness,
+  createStorageHarness,
+  sha256,
+  type StorageHarness,
+} from './test-helpers.js';
+
+const VITE_NODE = join(process.cwd(), 'node_modules', 'vite-node', 'vite-node.mjs');
+const DAEMON = join(process.cwd(), 'src', 'storage', 'storage-daemon.ts');
+
+type RawReply = { status: number; text: string };
+
+function rawPost(
+  address: StorageServerAddress,
+  body: string | Buffer,
+  method = 'POST',
+  headers: Record<string, string> = { 'content-type': 'application/json' },
+): Promise<RawReply> {
+  const target =
+    'socketPath' in address ? { socketPath: address.socketPath } : { port: address.port, host: address.host };
+  return new Promise((resolve, reject) => {
+    const req = request({ ...target, method, path: '/', headers }, (res) => {
+      let text = '';
+      res.on('data', (chunk: Buffer) => (text += chunk.toString('utf8')));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, text }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+describe('DB storage server and RemoteStorage', () => {
+  let harness: StorageHarness;
+  let server: StorageServer;
+  let address: StorageServerAddress;
+  let client: RemoteStorage;
+
+  beforeEach(async () => {
+    harness = await createStorageHarness();
+    server = new StorageServer(harness.storage);
+    address = await server.listen({ socketPath: join(harness.tempDir, 'storage.sock') });
+    client = new RemoteStorage(address);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+    await cleanupStorageHarness(harness);
+  });
+
+  it('round-trips file bytes and reports storage errors with their message', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 255]);
+    const result = await client.putVersion(
+      baseWrite({ requestId: 'b1', objectId: 'file:/bin', objectType: 'file', fileBytes: bytes }),
+    );
+    expect(result).toMatchObject({ ok: true, record: { fileBytesHash: sha256(bytes) } });
+    expect(await client.getLatest('file:/bin')).toEqual(await harness.storage.getLatest('file:/bin'));
+
+    await expect(client.listObjects({ limit: 0 })).rejects.toThrow('invalid_limit:0');
+  });
+
+  it('answers protocol errors with JSON-RPC error codes', async () => {
+    const call = async (body: unknown) => JSON.parse((await rawPost(address, JSON.stringify(body))).text);
+
+    expect(await call({ jsonrpc: '2.0', id: 1, method: 'close', params: [] })).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32601, message: 'unknown_method:close' },
+    });
+    expect((await call({ jsonrpc: '2.0', id: 2, method: 'getLatest', params: 'x' })).error.code).toBe(-32602);
+    expect((await call({ id: 3, method: 'getLatest' })).error.code).toBe(-32600);
+    expect(JSON.parse((await rawPost(address, '{')).text).error).toEqual({ code: -32700, message: 'parse_error' });
+    expect((await rawPost(address, '', 'GET')).status).toBe(405);
+  });
+
+  it('listens on loopback TCP only', async () => {
+    const tcp = new StorageServer(harness.storage);
+    await expect(tcp.listen({ port: 0, host: '0.0.0.0' })).rejects.toThrow('storage_server_non_loopback_host:0.0.0.0');
+
+    const bound = await tcp.listen({ port: 0 });
+    const tcpClient = new RemoteStorage(bound);
+    try {
+      await harness.storage.putVersion(baseWrite({ requestId: 't1', objectId: 'file:/tcp', objectType: 'file' }));
+      expect((await tcpClient.getLatest('file:/tcp'))?.versionNo).toBe(1);
+    } finally {
+      tcpClient.close();
+      await tcp.close();
+    }
+  });
+
+  it('refuses requests a browser page could send', async () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getLatest', params: ['file:/x'] });
+    const error = (reply: RawReply) => [reply.status, JSON.parse(reply.text).error.message];
+
+    expect(error(await rawPost(address, body, 'POST', {}))).toEqual([415, 'unsupported_content_type']);
+    expect(error(await rawPost(address, body, 'POST', { 'content-type': 'text/plain' }))).toEqual([
+      415,
+      'unsupported_content_type',
+    ]);
+    expect(
+      error(await rawPost(address, body, 'POST', { 'content-type': 'application/json', origin: 'https://evil.test' })),
+    ).toEqual([403, 'forbidden_origin']);
+    expect((await rawPost(address, body, 'POST', { 'content-type': 'application/json; charset=utf-8' })).status).toBe(
+      200,
+    );
+  });
+
+  it('refuses a body over the size limit with 413 and a JSON-RPC error', async () => {
+    const reply = await rawPost(address, Buffer.alloc(STORAGE_RPC_MAX_BODY_BYTES + 1, 0x20));
+
+    expect(reply.status).toBe(413);
+    expect(JSON.parse(reply.text)).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'request_too_large' },
+    });
+  });
+
+  it('requires the listener token and a loopback Host on TCP', async () => {
+    const tcp = new StorageServer(harness.storage);
+    const bound = await tcp.listen({ port: 0 });
+    if (!('port' in bound)) throw new Error('expected a TCP address');
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getLatest', params: ['file:/x'] });
+    const json = { 'content-type': 'application/json' };
+    const bearer = { ...json, authorization: `Bearer ${bound.token}` };
+    const error = (reply: RawReply) => [reply.status, JSON.parse(reply.text).error.message];
+    const anonymous = new RemoteStorage({ port: bound.port, host: bound.host });
+
+    try {
+      expect(bound.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(error(await rawPost(bound, body, 'POST', json))).toEqual([401, 'unauthorized']);
+      expect(error(await rawPost(bound, body, 'POST', { ...json, authorization: 'Bearer nope' }))).toEqual([
+        401,
+        'unauthorized',
+      ]);
+      expect(error(await rawPost(bound, body, 'POST', { ...bearer, host: `rebound.test:${bound.port}` }))).toEqual([
+        403,
+        'forbidden_host',
+      ]);
+      expect(error(await rawPost(bound, body, 'POST', { ...bearer, host: `localhost:${bound.port + 1}` }))).toEqual([
+        403,
+        'forbidden_host',
+      ]);
+      expect((await rawPost(bound, body, 'POST', { ...bearer, host: `localhost:${bound.port}` })).status).toBe(200);
+      await expect(anonymous.getLatest('file:/x')).rejects.toThrow('unauthorized');
+    } finally {
+      anonymous.close();
+      await tcp.close();
+    }
+
+    const fixed = new StorageServer(harness.storage);
+    try {
+      expect(await fixed.listen({ port: 0, token: 'secret' })).toMatchObject({ token: 'secret' });
+    } finally {
+      await fixed.close();
+    }
+  });
+
+  it('backs a SelfContextManager through options.storage', async () => {
+    const manager = new SelfContextManager({ sessionId: 'remote', workspaceRoot: harness.tempDir, storage: client });
+    await manager.load();
+    await manager.close();
+
+    expect((await harness.storage.getLatest('session:remote'))?.sessionId).toBe('remote');
+    expect((await client.listSessions()).sessions.map((session) => session.objectId)).toEqual(['session:remote']);
+  });
+
+  it('parses daemon arguments', () => {
+    expect(parseStorageDaemonArgs(['--db', '/tmp/a.db', '--socket', '/tmp/a.sock'])).toEqual({
+      dbPath: '/tmp/a.db',
+      listen: { socketPath: '/tmp/a.sock' },
+    });
+    expect(parseStorageDaemonArgs(['--db', 'a.db', '--port', '0'])).toEqual({
+      dbPath: 'a.db',
+      listen: { port: 0, host: undefined },
+    });
+    expect(() => parseStorageDaemonArgs(['--socket', 's'])).toThrow('invalid_daemon_args:--db:required');
+    expect(() => parseStorageDaemonArgs(['--db', 'a', '--socket', 's', '--port', '1'])).toThrow(
+      'invalid_daemon_args:--socket|--port',
+    );
+    expect(() => parseStorageDaemonArgs(['--db', 'a', '--port', 'x'])).toThrow('invalid_daemon_args:--port:x');
+    expect(() => parseStorageDaemonArgs(['--verbose', 'x'])).toThrow('invalid_daemon_args:--verbose');
+  });
+
+  it('aborts a call the server does not answer in time with storage_rpc_timeout', async () => {
+    const socketPath = join(harness.tempDir, 'hanging.sock');
+    const hanging = createServer(() => undefined);
+    await new Promise<void>((resolve) => hanging.listen(socketPath, resolve));
+    const impatient = new RemoteStorage({ socketPath }, { timeoutMs: 50 });
+    const answered = new RemoteStorage(address, { timeoutMs: 5_000 });
+
+    try {
+      await expect(impatient.getLatest('file:/x')).rejects.toThrow('storage_rpc_timeout:getLatest:50');
+      expect(await answered.getLatest('file:/x')).toBeNull();
+      expect(() => new RemoteStorage(address, { timeoutMs: 0 })).toThrow('invalid_rpc_timeout:0');
+    } finally {
+      impatient.close();
+      answered.close();
+      hanging.closeAllConnections();
+      await new Promise((resolve) => hanging.close(resolve));
+    }
+  });
+
+  it('stops the call timer when the reply is cut off mid-body', async () => {
+    const socketPath = join(harness.tempDir, 'truncating.sock');
+    const truncating = createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/json', 'content-length': '100' });
+      res.write('{"jsonrpc"', () => res.destroy());
+    });
+    await new Promise<void>((resolve) => truncating.listen(socketPath, resolve));
+    const cutOff = new RemoteStorage({ socketPath }, { timeoutMs: 60_000 });
+    const clearTimeoutSpy = vi.spyOn(globalThis, 'clearTimeout');
+
+    try {
+      await expect(cutOff.getLatest('file:/x')).rejects.toThrow('aborted');
+      expect(clearTimeoutSpy).toHaveBeenCalled();
+    } finally {
+      clearTimeoutSpy.mockRestore();
+      cutOff.close();
+      truncating.closeAllConnections();
+      await new Promise((resolve) => truncating.close(resolve));
+    }
+  });
+
+  it('serves one store to several clients from a daemon process', async () => {
+    const dbPath = join(harness.tempDir, 'daemon.db');
+    const socketPath = join(harness.tempDir, 'daemon.sock');
+    const daemon: ChildProcess = spawn(process.execPath, [VITE_NODE, DAEMON, '--db', dbPath, '--socket', socketPath], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const clients = [new RemoteStorage({ socketPath }), new RemoteStorage({ socketPath })];
+
+    try {
+      const listening = await new Promise<unknown>((resolve, reject) => {
+        let stdout = '';
+        daemon.stdout!.on('data', (chunk: Buffer) => {
+          stdout += chunk.toString('utf8');
+          if (stdout.includes('\n')) resolve(JSON.parse(stdout.split('\n')[0]));
+        });
+        daemon.on('exit', (code) => reject(new Error(`daemon exited ${code}`)));
+      });
+      expect(listening).toEqual({ listening: { socketPath } });
+
+      const writes = clients.flatMap((remote, client) =>
+        Array.from({ length: 10 }, (_, index) =>
+          remote.putVersion(
+            baseWrite({ requestId: `c${client}-${index}`, objectId: 'file:/daemon', objectType: 'file' }),
+          ),
+        ),
+      );
+      const results = await Promise.all(writes);
+      expect(results.every((result) => result.ok)).toBe(true);
+
+      const history = await clients[1].getHistory('file:/daemon', 'asc');
+      expect(history.map((version) => version.versionNo)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+
+      const replay = await clients[0].putVersion(
+        baseWrite({ requestId: 'c1-3', objectId: 'file:/daemon', objectType: 'file' }),
+      );
+      expect(replay).toMatchObject({ ok: true, idempotentReplay: true });
+    } finally {
+      for (const remote of clients) remote.close();
+      const exited = new Promise((resolve) => daemon.once('exit', resolve));
+      daemon.kill('SIGTERM');
+      await exited;
+    }
+  });
+});
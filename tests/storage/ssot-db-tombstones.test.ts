@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB tombstone versions (deleted marker) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  function live(requestId: string, objectId: string, content: string) {
+    return put({ requestId, objectId, objectType: 'file', contentStruct: { content } });
+  }
+
+  function tombstone(requestId: string, objectId: string) {
+    return put({
+      requestId,
+      objectId,
+      objectType: 'file',
+      path: objectId.slice('file:'.length),
+      deleted: true,
+      contentStruct: { content: null },
+    });
+  }
+
+  it('writes tombstones as typed versions and undeletes with the next live version', async () => {
+    const first = await live('t1', 'file:/a', 'a');
+    expect(first.deleted).toBe(false);
+
+    const dead = await tombstone('t2', 'file:/a');
+    expect(dead).toMatchObject({ versionNo: 2, deleted: true, path: '/a' });
+    expect(await harness.storage.getLatest('file:/a')).toEqual(dead);
+    expect((await harness.storage.getAsOf('file:/a', { txSeq: first.txSeq }))?.deleted).toBe(false);
+
+    const revived = await live('t3', 'file:/a', 'b');
+    expect(revived).toMatchObject({ versionNo: 3, deleted: false });
+    expect((await harness.storage.getHistory('file:/a', 'asc')).map((version) => version.deleted)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('filters listObjects on the HEAD deleted marker', async () => {
+    await put({ requestId: 'l1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+    await put({ requestId: 'l2', objectId: 'file:/b', objectType: 'file', contentStruct: {} });
+    await tombstone('l3', 'file:/b');
+    await tombstone('l4', 'file:/c');
+    await put({ requestId: 'l5', objectId: 'file:/c', objectType: 'file', contentStruct: {} });
+
+    const ids = async (deleted?: boolean) =>
+      (await harness.storage.listObjects({ deleted })).objects.map((object) => [object.objectId, object.deleted]);
+    expect(await ids()).toEqual([
+      ['file:/a', false],
+      ['file:/b', true],
+      ['file:/c', false],
+    ]);
+    expect(await ids(true)).toEqual([['file:/b', true]]);
+    expect(await ids(false)).toEqual([
+      ['file:/a', false],
+      ['file:/c', false],
+    ]);
+    await expect(harness.storage.listObjects({ deleted: 1 as never })).rejects.toThrow(
+      'invalid_list_objects:deleted:1',
+    );
+  });
+
+  it('rejects tombstones that carry content and payloads that contradict the marker', async () => {
+    const write = (overrides: Partial<Parameters<typeof baseWrite>[0]>) =>
+      harness.storage.putVersion(
+        baseWrite({ requestId: 'v', objectId: 'file:/v', objectType: 'file', ...overrides }),
+      );
+
+    await expect(write({ deleted: true, contentStruct: { content: 'still here' } })).rejects.toThrow(
+      'invalid_tombstone:content',
+    );
+    await expect(write({ deleted: true, fileBytes: new Uint8Array([1]) })).rejects.toThrow(
+      'invalid_tombstone:file_bytes',
+    );
+    await expect(write({ deleted: 'yes' as never })).rejects.toThrow('invalid_deleted:yes');
+    await expect(write({ deleted: true, contentStruct: { deleted: false } })).rejects.toThrow(
+      'typed_envelope_mismatch:deleted',
+    );
+    expect(await harness.storage.getLatest('file:/v')).toBeNull();
+  });
+
+  it('treats the marker as part of an idempotent replay', async () => {
+    const dead = await tombstone('i1', 'file:/i');
+    const write = (deleted?: boolean) =>
+      harness.storage.putVersion(
+        baseWrite({
+          requestId: 'i1',
+          objectId: 'file:/i',
+          objectType: 'file',
+          path: '/i',
+          deleted,
+          contentStruct: { content: null },
+        }),
+      );
+    expect(await write(true)).toEqual({ ok: true, record: dead, idempotentReplay: true });
+
+    const flipped = await write();
+    expect(flipped).toEqual({ ok: false, conflict: true, reason: 'idempotency_mismatch' });
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ReferenceGraph } from '../../src/storage/storage-port.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB reference traversal (traverseReferences) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  function dynamic(targetObjectId: string, refKind: string) {
+    return { target_object_id: targetObjectId, mode: 'dynamic', ref_kind: refKind };
+  }
+
+  async function putSession(objectId: string, requestId: string, sets: Record<string, unknown[]>) {
+    return put({
+      requestId,
+      objectId,
+      objectType: 'session',
+      sessionId: objectId,
+      contentStruct: {
+        chat_ref: dynamic('chat:t', 'chat'),
+        active_set: [],
+        inactive_set: [],
+        pinned_set: [],
+        ...sets,
+      },
+    });
+  }
+
+  const nodeIds = (graph: ReferenceGraph | null) => graph?.nodes.map((node) => [node.versionId, node.depth]);
+  const edgeIds = (graph: ReferenceGraph | null) =>
+    graph?.edges.map((edge) => [edge.reference.fromVersionId, edge.resolvedVersionId, edge.depth]);
+
+  async function seedWorkspace() {
+    const chat = await put({ requestId: 'c1', objectId: 'chat:t', objectType: 'chat', contentStruct: {} });
+    const file1 = await put({ requestId: 'f1', objectId: 'file:/t', objectType: 'file', contentStruct: { v: 1 } });
+    const file2 = await put({ requestId: 'f2', objectId: 'file:/t', objectType: 'file', contentStruct: { v: 2 } });
+    const session = await putSession('session:t', 's1', {
+      active_set: [dynamic('file:/t', 'active'), dynamic('file:/missing', 'active')],
+      pinned_set: [
+        { target_object_id: 'file:/t', mode: 'pinned', target_version_id: file1.versionId, ref_kind: 'pin' },
+        { target_object_id: 'file:/t', mode: 'pinned', target_object_hash: file2.objectHash, ref_kind: 'pin' },
+      ],
+    });
+    return { chat, file1, file2, session };
+  }
+
+  it('follows outgoing refs with dynamic-to-HEAD and pinned resolution', async () => {
+    const { chat, file1, file2, session } = await seedWorkspace();
+
+    const graph = await harness.storage.traverseReferences({ from: { objectId: 'session:t' }, direction: 'out' });
+    expect(graph?.rootVersionId).toBe(session.versionId);
+    expect(graph?.nodes).toEqual(
+      expect.arrayContaining([
+        {
+          versionId: session.versionId,
+          objectId: 'session:t',
+          objectType: 'session',
+          versionNo: 1,
+          isHead: true,
+          depth: 0,
+        },
+        { versionId: file1.versionId, objectId: 'file:/t', objectType: 'file', versionNo: 1, isHead: false, depth: 1 },
+      ]),
+    );
+    expect(nodeIds(graph)).toEqual([
+      [session.versionId, 0],
+      [chat.versionId, 1],
+      [file1.versionId, 1],
+      [file2.versionId, 1],
+    ]);
+
+    const resolved = new Map(graph!.edges.map((edge) => [edge.reference.fromPath, edge.resolvedVersionId]));
+    expect(Object.fromEntries(resolved)).toEqual({
+      '/active_set/0': file2.versionId,
+      '/active_set/1': null,
+      '/chat_ref': chat.versionId,
+      '/pinned_set/0': file1.versionId,
+      '/pinned_set/1': file2.versionId,
+    });
+    expect(graph!.edges.every((edge) => edge.depth === 1)).toBe(true);
+  });
+
+  it('bounds the walk by depth and terminates on cycles', async () => {
+    const a = await putSession('session:a', 'a1', { active_set: [dynamic('session:b', 'child')] });
+    const b = await putSession('session:b', 'b1', { active_set: [dynamic('session:c', 'child')] });
+    const c = await putSession('session:c', 'c1', { active_set: [dynamic('session:a', 'child')] });
+    const onlySessions = { refKinds: ['child'] };
+
+    const one = await harness.storage.traverseReferences({
+      from: { versionId: a.versionId },
+      direction: 'out',
+      ...onlySessions,
+    });
+    expect(nodeIds(one)).toEqual([
+      [a.versionId, 0],
+      [b.versionId, 1],
+    ]);
+
+    const deep = await harness.storage.traverseReferences({
+      from: { versionId: a.versionId },
+      direction: 'out',
+      depth: 10,
+      ...onlySessions,
+    });
+    expect(nodeIds(deep)).toEqual([
+      [a.versionId, 0],
+      [b.versionId, 1],
+      [c.versionId, 2],
+    ]);
+    expect(edgeIds(deep)).toEqual([
+      [a.versionId, b.versionId, 1],
+      [b.versionId, c.versionId, 2],
+      [c.versionId, a.versionId, 3],
+    ]);
+
+    const back = await harness.storage.traverseReferences({
+      from: { versionId: a.versionId },
+      direction: 'in',
+      depth: 10,
+      ...onlySessions,
+    });
+    expect(nodeIds(back)).toEqual([
+      [a.versionId, 0],
+      [c.versionId, 1],
+      [b.versionId, 2],
+    ]);
+  });
+
+  it('finds every version that transitively depends on a target version', async () => {
+    const { file1, file2, session } = await seedWorkspace();
+    const session2 = await putSession('session:t', 's2', { active_set: [dynamic('file:/t', 'active')] });
+    const parent = await putSession('session:parent', 'p1', { active_set: [dynamic('session:t', 'child')] });
+
+    const pinnedOnly = await harness.storage.traverseReferences({
+      from: { versionId: file1.versionId },
+      direction: 'in',
+      depth: 3,
+    });
+    expect(nodeIds(pinnedOnly)).toEqual([
+      [file1.versionId, 0],
+      [session.versionId, 1],
+    ]);
+
+    const head = await harness.storage.traverseReferences({ from: { objectId: 'file:/t' }, direction: 'in', depth: 3 });
+    expect(head?.rootVersionId).toBe(file2.versionId);
+    expect(nodeIds(head)).toEqual([
+      [file2.versionId, 0],
+      [session.versionId, 1],
+      [session2.versionId, 1],
+      [parent.versionId, 2],
+    ]);
+    expect(head!.nodes.map((node) => node.isHead)).toEqual([true, false, true, true]);
+    expect(head!.edges.map((edge) => [edge.reference.fromPath, edge.resolvedVersionId, edge.depth])).toEqual(
+      expect.arrayContaining([['/active_set/0', session2.versionId, 2]]),
+    );
+  });
+
+  it('filters followed refs by mode and refKinds', async () => {
+    const { chat, file1, file2, session } = await seedWorkspace();
+
+    const pinned = await harness.storage.traverseReferences({
+      from: { versionId: session.versionId },
+      direction: 'out',
+      mode: 'pinned',
+    });
+    expect(nodeIds(pinned)).toEqual([
+      [session.versionId, 0],
+      [file1.versionId, 1],
+      [file2.versionId, 1],
+    ]);
+
+    const chats = await harness.storage.traverseReferences({
+      from: { versionId: session.versionId },
+      direction: 'out',
+      refKinds: ['chat'],
+    });
+    expect(edgeIds(chats)).toEqual([[session.versionId, chat.versionId, 1]]);
+
+    const none = await harness.storage.traverseReferences({
+      from: { versionId: session.versionId },
+      direction: 'out',
+      refKinds: [],
+    });
+    expect(nodeIds(none)).toEqual([[session.versionId, 0]]);
+  });
+
+  it('returns null for a missing start and validates parameters', async () => {
+    await seedWorkspace();
+
+    expect(await harness.storage.traverseReferences({ from: { objectId: 'file:/nope' }, direction: 'out' })).toBeNull();
+    expect(await harness.storage.traverseReferences({ from: { versionId: 'nope' }, direction: 'in' })).toBeNull();
+
+    const from = { objectId: 'session:t' };
+    await expect(harness.storage.traverseReferences({ from, direction: 'out', depth: 0 })).rejects.toThrow(
+      'invalid_traversal:depth:0',
+    );
+    await expect(harness.storage.traverseReferences({ from, direction: 'out', depth: 65 })).rejects.toThrow(
+      'invalid_traversal:depth:65',
+    );
+    await expect(harness.storage.traverseReferences({ from, direction: 'sideways' as 'out' })).rejects.toThrow(
+      'invalid_traversal:direction:sideways',
+    );
+    await expect(
+      harness.storage.traverseReferences({ from: {} as { objectId: string }, direction: 'out' }),
+    ).rejects.toThrow('invalid_traversal:from');
+  });
+});
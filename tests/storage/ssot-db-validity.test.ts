@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { VersionWriteInput } from '../../src/storage/storage-port.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+const T1 = '2024-01-01T00:00:00.000Z';
+const T2 = '2024-02-01T00:00:00.000Z';
+const T3 = '2024-03-01T00:00:00.000Z';
+const MID = '2024-01-15T00:00:00.000Z';
+const DEC = '2023-12-01T00:00:00.000Z';
+const MID_2024 = '2024-02-15T00:00:00.000Z';
+
+describe.each(STORAGE_BACKENDS)('DB validity intervals [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  function write(requestId: string, validFrom?: string | null, validTo?: string | null): VersionWriteInput {
+    return baseWrite({
+      requestId,
+      objectId: 'file:/history',
+      objectType: 'file',
+      contentStruct: { content: requestId },
+      validFrom,
+      validTo,
+    });
+  }
+
+  async function put(input: VersionWriteInput) {
+    const result = await harness.storage.putVersion(input);
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('stores the interval on the version and leaves it null when not given', async () => {
+    const dated = await put(write('v1', T1, T2));
+    const undated = await put(write('v2'));
+
+    expect(dated).toMatchObject({ validFrom: T1, validTo: T2 });
+    expect(undated).toMatchObject({ validFrom: null, validTo: null });
+    expect(await harness.storage.getVersion(dated.versionId)).toEqual(dated);
+
+    if (harness.inspect) {
+      expect(
+        harness.inspect
+          .prepare('SELECT valid_from, valid_to FROM object_versions WHERE version_id = ?')
+          .get(dated.versionId),
+      ).toEqual({ valid_from: T1, valid_to: T2 });
+    }
+  });
+
+  it('rejects malformed intervals', async () => {
+    await expect(harness.storage.putVersion(write('bad-1', '2024-01-01'))).rejects.toThrow(
+      'invalid_validity:validFrom:2024-01-01',
+    );
+    await expect(harness.storage.putVersion(write('bad-2', null, T2))).rejects.toThrow(
+      'invalid_validity:validTo_without_validFrom',
+    );
+    await expect(harness.storage.putVersion(write('bad-3', T2, T1))).rejects.toThrow(
+      `invalid_validity:empty_interval:${T2}:${T1}`,
+    );
+    expect(await harness.storage.getLatest('file:/history')).toBeNull();
+  });
+
+  it('refuses an interval overlapping another version of the object as validity_overlap', async () => {
+    await put(write('jan', T1, T2));
+    await put(write('feb', T2, T3));
+    await put(write('undated'));
+
+    expect(await harness.storage.putVersion(write('mid', MID, T3))).toEqual({
+      ok: false,
+      conflict: true,
+      reason: 'validity_overlap',
+    });
+    expect(await harness.storage.putVersion(write('same-start', T2))).toMatchObject({ reason: 'validity_overlap' });
+    expect(await harness.storage.putVersion(write('inside', MID))).toMatchObject({ reason: 'validity_overlap' });
+
+    await put(write('open', T3));
+    expect(await harness.storage.putVersion(write('covering', MID_2024, '2025-01-01T00:00:00.000Z'))).toMatchObject({
+      reason: 'validity_overlap',
+    });
+    expect(await harness.storage.getHistory('file:/history')).toHaveLength(4);
+  });
+
+  it('closes an open interval at the next later validFrom, whichever is written first', async () => {
+    const open = await put(write('open', T1));
+    const next = await put(write('next', T3));
+    const before = await put(write('before', DEC));
+    const between = await put(write('between', T2, MID_2024));
+
+    const validAt = async (time: string, at?: { txSeq: number }) =>
+      (await harness.storage.getAsOfValidTime('file:/history', time, at))?.versionId ?? null;
+    expect(await validAt(DEC)).toBe(before.versionId);
+    expect(await validAt(MID)).toBe(open.versionId);
+    expect(await validAt(T2)).toBe(between.versionId);
+    expect(await validAt(MID_2024)).toBeNull();
+    expect(await validAt('2030-01-01T00:00:00.000Z')).toBe(next.versionId);
+
+    expect(await validAt(T3, { txSeq: open.txSeq })).toBe(open.versionId);
+    expect(await validAt(T3, { txSeq: next.txSeq })).toBe(next.versionId);
+    expect(await validAt(MID_2024, { txSeq: before.txSeq })).toBe(open.versionId);
+    expect(await harness.storage.getVersion(open.versionId)).toMatchObject({ validFrom: T1, validTo: null });
+  });
+
+  it('reads the version valid at a time, optionally as known at a transaction point', async () => {
+    const feb = await put(write('feb', T2, T3));
+    const jan = await put(write('jan', T1, T2));
+    await put(write('undated'));
+
+    expect((await harness.storage.getAsOfValidTime('file:/history', MID))?.versionId).toBe(jan.versionId);
+    expect((await harness.storage.getAsOfValidTime('file:/history', T2))?.versionId).toBe(feb.versionId);
+    expect(await harness.storage.getAsOfValidTime('file:/history', T3)).toBeNull();
+    expect(await harness.storage.getAsOfValidTime('file:/missing', MID)).toBeNull();
+
+    expect(await harness.storage.getAsOfValidTime('file:/history', MID, { txSeq: feb.txSeq })).toBeNull();
+    expect((await harness.storage.getAsOfValidTime('file:/history', MID, { txSeq: jan.txSeq }))?.versionId).toBe(
+      jan.versionId,
+    );
+    await expect(harness.storage.getAsOfValidTime('file:/history', 'January')).rejects.toThrow(
+      'invalid_valid_time:January',
+    );
+  });
+
+  it('replays a request only with the same interval', async () => {
+    const first = await put(write('r1', T1, T2));
+
+    expect(await harness.storage.putVersion(write('r1', T1, T2))).toEqual({
+      ok: true,
+      record: first,
+      idempotentReplay: true,
+    });
+    expect(await harness.storage.putVersion(write('r1', T1, T3))).toMatchObject({ reason: 'idempotency_mismatch' });
+    expect(await harness.storage.putVersion(write('r1'))).toMatchObject({ reason: 'idempotency_mismatch' });
+  });
+
+  it('aborts a batch whose inputs overlap each other', async () => {
+    const result = await harness.storage.putVersions([write('b1', T1, T3), write('b2', T2, null)]);
+
+    expect(result).toEqual({
+      ok: false,
+      failedIndex: 1,
+      results: [
+        { ok: false, aborted: true },
+        { ok: false, conflict: true, reason: 'validity_overlap' },
+      ],
+    });
+    expect(await harness.storage.getLatest('file:/history')).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { VERSION_DIFF_MAX_LINE_EDITS } from '../../src/storage/version-diff.js';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB version diff (diffVersions) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('diffs content by line, the rest of the payload and metadata by JSON pointer, and the envelope', async () => {
+    const v1 = await put({
+      requestId: 'd1',
+      objectId: 'file:/notes.md',
+      objectType: 'file',
+      path: '/notes.md',
+      status: 'draft',
+      charCount: 17,
+      contentStruct: { content: 'alpha\nbeta\ngamma\n', lang: 'md', tags: ['a', 'b'], 'x/y': { '~k': 1 } },
+      metadata: { source: 'editor', flags: { dirty: true } },
+    });
+    const v2 = await put({
+      requestId: 'd2',
+      objectId: 'file:/notes.md',
+      objectType: 'file',
+      path: '/docs/notes.md',
+      status: 'final',
+      charCount: 23,
+      contentStruct: { content: 'alpha\nBETA\ngamma\ndelta\n', tags: ['a', 'c', 'd'], 'x/y': { '~k': 2 } },
+      metadata: { source: 'editor', flags: {}, reviewer: 'r1' },
+    });
+
+    const diff = await harness.storage.diffVersions(v1.versionId, v2.versionId);
+    expect(diff).toEqual({
+      objectId: 'file:/notes.md',
+      objectType: 'file',
+      fromVersionId: v1.versionId,
+      toVersionId: v2.versionId,
+      content: [
+        { kind: 'equal', lines: ['alpha\n'] },
+        { kind: 'delete', lines: ['beta\n'] },
+        { kind: 'insert', lines: ['BETA\n'] },
+        { kind: 'equal', lines: ['gamma\n'] },
+        { kind: 'insert', lines: ['delta\n'] },
+      ],
+      contentStruct: [
+        { op: 'remove', path: '/lang', before: 'md' },
+        { op: 'replace', path: '/tags/1', before: 'b', after: 'c' },
+        { op: 'add', path: '/tags/2', after: 'd' },
+        { op: 'replace', path: '/x~1y/~0k', before: 1, after: 2 },
+      ],
+      metadata: [
+        { op: 'remove', path: '/flags/dirty', before: true },
+        { op: 'add', path: '/reviewer', after: 'r1' },
+      ],
+      envelope: [
+        { field: 'path', before: '/notes.md', after: '/docs/notes.md' },
+        { field: 'status', before: 'draft', after: 'final' },
+        { field: 'charCount', before: 17, after: 23 },
+      ],
+      sessionSets: null,
+    });
+  });
+
+  it('compares non-string content as part of the JSON-pointer diff', async () => {
+    const v1 = await put({ requestId: 'n1', objectId: 'chat:n', objectType: 'chat', contentStruct: { content: null } });
+    const v2 = await put({ requestId: 'n2', objectId: 'chat:n', objectType: 'chat', contentStruct: { content: 'hi' } });
+
+    const diff = await harness.storage.diffVersions(v1.versionId, v2.versionId);
+    expect(diff?.content).toBeNull();
+    expect(diff?.contentStruct).toEqual([{ op: 'replace', path: '/content', before: null, after: 'hi' }]);
+  });
+
+  it('reports session set membership changes independent of position', async () => {
+    const ref = (target: string, refKind: string, extra: Record<string, unknown> = {}) => ({
+      target_object_id: target,
+      mode: 'dynamic',
+      ref_kind: refKind,
+      ...extra,
+    });
+    const session = (requestId: string, sets: Record<string, unknown[]>) =>
+      put({
+        requestId,
+        objectId: 'session:d',
+        objectType: 'session',
+        sessionId: 'session:d',
+        contentStruct: { chat_ref: ref('chat:d', 'chat'), active_set: [], inactive_set: [], pinned_set: [], ...sets },
+      });
+
+    const v1 = await session('s1', {
+      active_set: [ref('file:/a', 'active'), ref('file:/b', 'active')],
+      pinned_set: [ref('file:/p', 'pin', { mode: 'pinned', target_version_id: 'v-old' })],
+    });
+    const v2 = await session('s2', {
+      active_set: [ref('file:/b', 'active')],
+      inactive_set: [ref('file:/a', 'inactive')],
+      pinned_set: [ref('file:/p', 'pin', { mode: 'pinned', target_version_id: 'v-new' })],
+    });
+
+    const diff = await harness.storage.diffVersions(v1.versionId, v2.versionId);
+    expect(diff?.sessionSets).toEqual({
+      active_set: { added: [], removed: [{ targetObjectId: 'file:/a', mode: 'dynamic', refKind: 'active' }] },
+      inactive_set: { added: [{ targetObjectId: 'file:/a', mode: 'dynamic', refKind: 'inactive' }], removed: [] },
+      pinned_set: {
+        added: [{ targetObjectId: 'file:/p', mode: 'pinned', targetVersionId: 'v-new', refKind: 'pin' }],
+        removed: [{ targetObjectId: 'file:/p', mode: 'pinned', targetVersionId: 'v-old', refKind: 'pin' }],
+      },
+    });
+
+    const same = await harness.storage.diffVersions(v2.versionId, v2.versionId);
+    expect(same?.contentStruct).toEqual([]);
+    expect(same?.sessionSets?.active_set).toEqual({ added: [], removed: [] });
+  });
+
+  it('falls back to whole-content replacement past the line edit bound', async () => {
+    const count = VERSION_DIFF_MAX_LINE_EDITS + 1;
+    const before = Array.from({ length: count }, (_, i) => `a${i}\n`).join('');
+    const after = Array.from({ length: count }, (_, i) => `b${i}\n`).join('');
+    const v1 = await put({
+      requestId: 'b1',
+      objectId: 'file:/big',
+      objectType: 'file',
+      contentStruct: { content: before },
+    });
+    const v2 = await put({
+      requestId: 'b2',
+      objectId: 'file:/big',
+      objectType: 'file',
+      contentStruct: { content: after },
+    });
+
+    const diff = await harness.storage.diffVersions(v1.versionId, v2.versionId);
+    expect(diff?.content?.map((hunk) => [hunk.kind, hunk.lines.length])).toEqual([
+      ['delete', count],
+      ['insert', count],
+    ]);
+  });
+
+  it('returns null for unknown versions and rejects versions of different objects', async () => {
+    const a = await put({ requestId: 'x1', objectId: 'file:/a', objectType: 'file', contentStruct: {} });
+    const b = await put({ requestId: 'x2', objectId: 'file:/b', objectType: 'file', contentStruct: {} });
+
+    expect(await harness.storage.diffVersions(a.versionId, 'missing')).toBeNull();
+    expect(await harness.storage.diffVersions('missing', a.versionId)).toBeNull();
+    await expect(harness.storage.diffVersions(a.versionId, b.versionId)).rejects.toThrow(
+      `diff_object_mismatch:${a.versionId}:${b.versionId}`,
+    );
+  });
+});
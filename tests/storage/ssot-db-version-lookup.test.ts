@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  baseWrite,
+  cleanupBackendHarness,
+  createBackendHarness,
+  STORAGE_BACKENDS,
+  type BackendHarness,
+} from './test-helpers.js';
+
+describe.each(STORAGE_BACKENDS)('DB direct version lookup (getVersion / getVersionsByObjectHash) [%s]', (backend) => {
+  let harness: BackendHarness;
+
+  beforeEach(async () => {
+    harness = await createBackendHarness(backend);
+  });
+
+  afterEach(async () => {
+    await cleanupBackendHarness(harness);
+  });
+
+  async function put(input: Parameters<typeof baseWrite>[0]) {
+    const result = await harness.storage.putVersion(baseWrite(input));
+    if (!result.ok) throw new Error(`unexpected put failure:${JSON.stringify(result)}`);
+    return result.record;
+  }
+
+  it('returns any historical version by versionId, identical to its history entry', async () => {
+    const v1 = await put({ requestId: 'l1', objectId: 'file:/l', objectType: 'file', contentStruct: { content: 'one' } });
+    await put({ requestId: 'l2', objectId: 'file:/l', objectType: 'file', contentStruct: { content: 'two' } });
+
+    const history = await harness.storage.getHistory('file:/l', 'asc');
+    expect(await harness.storage.getVersion(v1.versionId)).toEqual(history[0]);
+    expect(await harness.storage.getVersion(history[1].versionId)).toEqual(history[1]);
+    expect(await harness.storage.getVersion('missing-version')).toBeNull();
+  });
+
+  it('returns every version carrying an object_hash in tx_seq order', async () => {
+    const a1 = await put({ requestId: 'h1', objectId: 'file:/h', objectType: 'file', contentStruct: { content: 'a' } });
+    const a2 = await put({ requestId: 'h2', objectId: 'file:/h', objectType: 'file', contentStruct: { content: 'b' } });
+
+    expect(await harness.storage.getVersionsByObjectHash(a1.objectHash)).toEqual([a1]);
+    expect(await harness.storage.getVersionsByObjectHash(a2.objectHash)).toEqual([a2]);
+    expect(await harness.storage.getVersionsByObjectHash('sha256:missing')).toEqual([]);
+  });
+
+  it('does not expose versions of a rolled-back batch', async () => {
+    const base = await put({ requestId: 'b0', objectId: 'file:/b', objectType: 'file', contentStruct: {} });
+    const batch = await harness.storage.putVersions([
+      baseWrite({ requestId: 'b1', objectId: 'file:/other', objectType: 'file', contentStruct: { content: 'x' } }),
+      baseWrite({
+        requestId: 'b2',
+        objectId: 'file:/b',
+        objectType: 'file',
+        contentStruct: {},
+        expectedCurrentVersionId: 'stale',
+      }),
+    ]);
+    expect(batch.ok).toBe(false);
+
+    const { objects } = await harness.storage.listObjects();
+    expect(objects.map((entry) => entry.objectId)).toEqual(['file:/b']);
+    expect(await harness.storage.getVersionsByObjectHash(base.objectHash)).toEqual([base]);
+  });
+});
@@ -3,7 +3,10 @@ import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { createHash } from 'node:crypto';
 import { DatabaseSync } from 'node:sqlite';
-import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import { MemoryStorage } from '../../src/storage/memory-storage.js';
+import { RemoteStorage } from '../../src/storage/remote-storage.js';
+import { SqliteStorage, type SqliteStorageOptions } from '../../src/storage/sqlite-storage.js';
+import { StorageServer } from '../../src/storage/storage-server.js';
 import type { VersionWriteInput } from '../../src/storage/storage-port.js';
 
 export type StorageHarness = {
@@ -12,10 +15,10 @@ export type StorageHarness = {
   storage: SqliteStorage;
 };
 
-export async function createStorageHarness(): Promise<StorageHarness> {
+export async function createStorageHarness(options: Omit<SqliteStorageOptions, 'path'> = {}): Promise<StorageHarness> {
   const tempDir = await mkdtemp(join(tmpdir(), 'self-context-sqlite-'));
   const dbPath = join(tempDir, 'storage.db');
-  const storage = new SqliteStorage({ path: dbPath });
+  const storage = new SqliteStorage({ ...options, path: dbPath });
   return { tempDir, dbPath, storage };
 }
 
@@ -24,6 +27,60 @@ export async function cleanupStorageHarness(harness: StorageHarness): Promise<vo
   await rm(harness.tempDir, { recursive: true, force: true });
 }
 
+export type StorageBackend = 'sqlite' | 'memory' | 'remote';
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['sqlite', 'memory', 'remote'];
+
+/**
+ * Harness for StoragePort conformance suites. `inspect` is a raw handle on the
+ * SQLite file for row-level assertions and is `null` on the memory backend.
+ * The remote backend is a `RemoteStorage` client of a `StorageServer` serving a
+ * SQLite file over a Unix socket; `inspect` opens that file and `local` is the
+ * served `SqliteStorage` (for in-process APIs such as `subscribe`). On the other
+ * backends `local` is `storage` itself. `hashing` configures the local store
+ * (the served one for `remote`).
+ */
+export type BackendHarness = {
+  backend: StorageBackend;
+  tempDir: string | null;
+  storage: SqliteStorage | MemoryStorage | RemoteStorage;
+  local: SqliteStorage | MemoryStorage;
+  inspect: DatabaseSync | null;
+  release: () => Promise<void>;
+};
+
+export async function createBackendHarness(
+  backend: StorageBackend,
+  options: Pick<SqliteStorageOptions, 'hashing'> = {},
+): Promise<BackendHarness> {
+  if (backend === 'memory') {
+    const storage = new MemoryStorage(options);
+    return { backend, tempDir: null, storage, local: storage, inspect: null, release: async () => storage.close() };
+  }
+
+  const { tempDir, dbPath, storage } = await createStorageHarness(options);
+  if (backend === 'sqlite') {
+    const inspect = openInspectDb(dbPath);
+    return { backend, tempDir, storage, local: storage, inspect, release: async () => storage.close() };
+  }
+
+  const server = new StorageServer(storage);
+  const address = await server.listen({ socketPath: join(tempDir, 'storage.sock') });
+  const client = new RemoteStorage(address);
+  const release = async () => {
+    client.close();
+    await server.close();
+    storage.close();
+  };
+  return { backend, tempDir, storage: client, local: storage, inspect: openInspectDb(dbPath), release };
+}
+
+export async function cleanupBackendHarness(harness: BackendHarness): Promise<void> {
+  harness.inspect?.close();
+  await harness.release();
+  if (harness.tempDir) await rm(harness.tempDir, { recursive: true, force: true });
+}
+
 export function openInspectDb(dbPath: string): DatabaseSync {
   const db = new DatabaseSync(dbPath);
   db.exec('PRAGMA foreign_keys = ON;');
@@ -70,6 +127,9 @@ export function baseWrite(
     toolName: overrides.toolName,
     status: overrides.status,
     charCount: overrides.charCount,
+    deleted: overrides.deleted,
+    validFrom: overrides.validFrom,
+    validTo: overrides.validTo,
 
     metadata: overrides.metadata ?? {},
 